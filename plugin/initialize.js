@@ -60,7 +60,32 @@ function(instance, context) {
             instance.data._actionCallback = callback;
             return () => { instance.data._actionCallback = null; };
         },
-        runAction: () => {},
+        // run.js forwards workflow actions here; hand them to the ActionHandler registered via onAction
+        runAction: (name, params) => {
+            const callback = instance.data._actionCallback;
+            if (callback) {
+                callback({ name: name, params: params || {} });
+            }
+        },
+        // Local image uploads go through Bubble's file storage (no progress callback, so report 0 then 100)
+        uploadFile: (file, onProgress) => new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onerror = () => reject(new Error('Could not read file'));
+            reader.onload = () => {
+                const base64 = String(reader.result).split(',')[1] || '';
+                if (onProgress) onProgress(0);
+                context.uploadContent(file.name, base64, (err, url) => {
+                    if (err || !url) {
+                        reject(new Error(err ? String(err) : 'Upload failed'));
+                        return;
+                    }
+                    if (onProgress) onProgress(100);
+                    // Bubble returns protocol-relative URLs (//s3.amazonaws.com/...)
+                    resolve(url.indexOf('//') === 0 ? 'https:' + url : url);
+                });
+            };
+            reader.readAsDataURL(file);
+        }),
         onEvent: () => () => {},
         getEventLog: () => [],
         clearEventLog: () => {},
@@ -25,5 +25,91 @@ function(instance, action, parameters) {
     } else if (action === 'ABI') {
         // Insert image — ABJ = Image URL, ABK = Alt text
         run('insert_image', { url: p.ABJ, alt: p.ABK });
+    } else if (action === 'ABL') {
+        run('toggle_bold', {});
+    } else if (action === 'ABM') {
+        run('toggle_italic', {});
+    } else if (action === 'ABN') {
+        run('toggle_strike', {});
+    } else if (action === 'ABO') {
+        // Set heading — ABP = Level (0 = paragraph)
+        run('set_heading', { level: p.ABP });
+    } else if (action === 'ABQ') {
+        run('toggle_bullet_list', {});
+    } else if (action === 'ABR') {
+        run('toggle_ordered_list', {});
+    } else if (action === 'ABS') {
+        run('toggle_task_list', {});
+    } else if (action === 'ABT') {
+        // Insert table — ABU = Rows, ABV = Columns
+        run('insert_table', { rows: p.ABU, cols: p.ABV });
+    } else if (action === 'ABW') {
+        // Insert columns — ABX = Number of columns
+        run('insert_columns', { count: p.ABX });
+    } else if (action === 'ABY') {
+        run('insert_div_block', {});
+    } else if (action === 'ABZ') {
+        run('insert_horizontal_rule', {});
+    } else if (action === 'ACA') {
+        // Set link — ACB = URL, ACC = Open in new tab
+        run('set_link', { url: p.ACB, openInNewTab: p.ACC === true });
+    } else if (action === 'ACD') {
+        run('unset_link', {});
+    } else if (action === 'ACE') {
+        run('undo', {});
+    } else if (action === 'ACF') {
+        run('redo', {});
+    } else if (action === 'ACG') {
+        // Set text color — ACH = Color (hex; empty removes the color)
+        run('set_text_color', { color: p.ACH });
+    } else if (action === 'ACI') {
+        // Set text align — ACJ = left / center / right / justify
+        run('set_text_align', { align: p.ACJ });
+    } else if (action === 'ACL') {
+        // Set content from Markdown — ACM = Content (Markdown)
+        run('set_markdown', { markdown: p.ACM });
+    } else if (action === 'ADE') {
+        // Render with data — ADF = Field names, ADG = Field values (same order)
+        run('render_with_data', { names: p.ADF, values: p.ADG });
+    } else if (action === 'ADY') {
+        // Accept suggestion — ADZ = Suggestion id (from "Suggestions (JSON)")
+        run('accept_suggestion', { id: p.ADZ });
+    } else if (action === 'AEA') {
+        // Reject suggestion — AEB = Suggestion id
+        run('reject_suggestion', { id: p.AEB });
+    } else if (action === 'AEC') {
+        run('accept_all_suggestions', {});
+    } else if (action === 'AED') {
+        run('reject_all_suggestions', {});
+    } else if (action === 'AEE') {
+        // Create snapshot — AEF = Name
+        run('create_snapshot', { name: p.AEF });
+    } else if (action === 'AEG') {
+        // Compare HTML A vs B — AEH = HTML A, AEI = HTML B (empty = current content), AEJ = Side by side
+        run('compare_html', { before: p.AEH, after: p.AEI, sideBySide: p.AEJ === true });
+    } else if (action === 'AEK') {
+        // Restore snapshot — AEL = Snapshot name or id
+        run('restore_snapshot', { snapshot: p.AEL });
+    } else if (action === 'AEQ') {
+        // Clear draft — run after saving the content
+        run('clear_draft', {});
+    } else if (action === 'AES') {
+        // Paste as plain text — reads the clipboard, so run it from a click
+        run('paste_as_plain_text', {});
+    } else if (action === 'AET') {
+        // Merge table cells — the cells selected in the editor
+        run('merge_table_cells', {});
+    } else if (action === 'AEU') {
+        // Split table cell
+        run('split_table_cell', {});
+    } else if (action === 'AEV') {
+        // Toggle table header row
+        run('toggle_table_header_row', {});
+    } else if (action === 'AEW') {
+        // Toggle table header column
+        run('toggle_table_header_column', {});
+    } else if (action === 'AEX') {
+        // Set table column align — AEY = Alignment
+        run('set_table_column_align', { align: p.AEY });
     }
 }
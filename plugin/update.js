@@ -34,14 +34,41 @@ function(instance, properties, context) {
         placeholder: placeholderValue,
         editable: properties.editable !== false,
         toolbar_visible: properties.toolbar_visible !== false,
+        toolbar_mode: (properties.toolbar_mode != null ? properties.toolbar_mode : (properties.ACW != null ? properties.ACW : (prev.toolbar_mode != null ? prev.toolbar_mode : 'toolbar'))),
         min_height: properties.min_height != null ? properties.min_height : (prev.min_height != null ? prev.min_height : 200),
         max_height: properties.max_height != null ? properties.max_height : (prev.max_height != null ? prev.max_height : 0),
+        max_characters: properties.max_characters != null ? properties.max_characters : (properties.ACP != null ? properties.ACP : (prev.max_characters != null ? prev.max_characters : 0)),
+        sanitize_policy: (properties.sanitize_policy != null ? properties.sanitize_policy : (properties.ACT != null ? properties.ACT : (prev.sanitize_policy != null ? prev.sanitize_policy : 'strict'))),
+        paste_mode: (properties.paste_mode != null ? properties.paste_mode : (properties.AER != null ? properties.AER : (prev.paste_mode != null ? prev.paste_mode : 'clean'))),
+        slash_commands: (properties.slash_commands != null ? properties.slash_commands : (properties.ACV != null ? properties.ACV : (prev.slash_commands != null ? prev.slash_commands : ''))),
+        character_limit_mode: (properties.character_limit_mode != null ? properties.character_limit_mode : (properties.ACQ != null ? properties.ACQ : (prev.character_limit_mode != null ? prev.character_limit_mode : 'truncate'))),
         theme: (properties.theme != null ? properties.theme : (properties.AAG != null ? properties.AAG : (prev.theme != null ? prev.theme : 'light'))),
         accent_color: properties.accent_color || prev.accent_color || '#513EDF',
         background_color: properties.background_color || prev.background_color || '#ffffff',
         color_palette: properties.color_palette != null ? properties.color_palette : prev.color_palette,
         color_names: colorNames != null ? colorNames : prev.color_names,
         color_hex_codes: colorHexCodes != null ? colorHexCodes : prev.color_hex_codes,
+        mention_user_ids: (properties.mention_user_ids != null ? properties.mention_user_ids : properties.ACX) ?? prev.mention_user_ids,
+        mention_user_names: (properties.mention_user_names != null ? properties.mention_user_names : properties.ACY) ?? prev.mention_user_names,
+        mention_user_avatars: (properties.mention_user_avatars != null ? properties.mention_user_avatars : properties.ACZ) ?? prev.mention_user_avatars,
+        merge_field_names: (properties.merge_field_names != null ? properties.merge_field_names : properties.ADD) ?? prev.merge_field_names,
+        collaboration_room: (properties.collaboration_room != null ? properties.collaboration_room : (properties.ADI != null ? properties.ADI : (prev.collaboration_room != null ? prev.collaboration_room : ''))),
+        collaboration_server_url: (properties.collaboration_server_url != null ? properties.collaboration_server_url : (properties.ADJ != null ? properties.ADJ : (prev.collaboration_server_url != null ? prev.collaboration_server_url : ''))),
+        collaboration_user_name: (properties.collaboration_user_name != null ? properties.collaboration_user_name : (properties.ADK != null ? properties.ADK : (prev.collaboration_user_name != null ? prev.collaboration_user_name : ''))),
+        collaboration_user_color: (properties.collaboration_user_color != null ? properties.collaboration_user_color : (properties.ADL != null ? properties.ADL : (prev.collaboration_user_color != null ? prev.collaboration_user_color : ''))),
+        initial_comments: (properties.initial_comments != null ? properties.initial_comments : (properties.ADO != null ? properties.ADO : (prev.initial_comments != null ? prev.initial_comments : ''))),
+        comment_author_name: (properties.comment_author_name != null ? properties.comment_author_name : (properties.ADP != null ? properties.ADP : (prev.comment_author_name != null ? prev.comment_author_name : ''))),
+        strip_comments_from_html: (properties.strip_comments_from_html != null ? properties.strip_comments_from_html : (properties.ADQ != null ? properties.ADQ : !!prev.strip_comments_from_html)) === true,
+        suggesting: (properties.suggesting != null ? properties.suggesting : (properties.ADV != null ? properties.ADV : !!prev.suggesting)) === true,
+        draft_key: (properties.draft_key != null ? properties.draft_key : (properties.AEO != null ? properties.AEO : (prev.draft_key != null ? prev.draft_key : ''))),
+        email_title: (properties.email_title != null ? properties.email_title : (properties.AFD != null ? properties.AFD : (prev.email_title != null ? prev.email_title : ''))),
+        email_preheader: (properties.email_preheader != null ? properties.email_preheader : (properties.AFE != null ? properties.AFE : (prev.email_preheader != null ? prev.email_preheader : ''))),
+        email_header_html: (properties.email_header_html != null ? properties.email_header_html : (properties.AFF != null ? properties.AFF : (prev.email_header_html != null ? prev.email_header_html : ''))),
+        email_footer_html: (properties.email_footer_html != null ? properties.email_footer_html : (properties.AFG != null ? properties.AFG : (prev.email_footer_html != null ? prev.email_footer_html : ''))),
+        email_unsubscribe_url: (properties.email_unsubscribe_url != null ? properties.email_unsubscribe_url : (properties.AFH != null ? properties.AFH : (prev.email_unsubscribe_url != null ? prev.email_unsubscribe_url : ''))),
+        email_unsubscribe_label: (properties.email_unsubscribe_label != null ? properties.email_unsubscribe_label : (properties.AFI != null ? properties.AFI : (prev.email_unsubscribe_label != null ? prev.email_unsubscribe_label : 'Unsubscribe'))),
+        email_view_in_browser_url: (properties.email_view_in_browser_url != null ? properties.email_view_in_browser_url : (properties.AFJ != null ? properties.AFJ : (prev.email_view_in_browser_url != null ? prev.email_view_in_browser_url : ''))),
+        email_view_in_browser_label: (properties.email_view_in_browser_label != null ? properties.email_view_in_browser_label : (properties.AFK != null ? properties.AFK : (prev.email_view_in_browser_label != null ? prev.email_view_in_browser_label : 'View in browser'))),
         default_text_color: (properties.default_text_color != null ? properties.default_text_color : (properties['Default text color'] != null ? properties['Default text color'] : properties.AAU)) ?? prev.default_text_color,
     };
     
@@ -66,13 +93,40 @@ function(instance, properties, context) {
         placeholder: allProperties.placeholder,
         editable: allProperties.editable,
         toolbar_visible: allProperties.toolbar_visible,
+        toolbar_mode: allProperties.toolbar_mode,
         min_height: allProperties.min_height,
+        max_characters: allProperties.max_characters,
+        character_limit_mode: allProperties.character_limit_mode,
+        sanitize_policy: allProperties.sanitize_policy,
+        paste_mode: allProperties.paste_mode,
+        slash_commands: allProperties.slash_commands,
         theme: allProperties.theme,
         accent_color: allProperties.accent_color,
         background_color: allProperties.background_color,
         color_palette: allProperties.color_palette,
         color_names: allProperties.color_names,
         color_hex_codes: allProperties.color_hex_codes,
+        mention_user_ids: allProperties.mention_user_ids,
+        mention_user_names: allProperties.mention_user_names,
+        mention_user_avatars: allProperties.mention_user_avatars,
+        merge_field_names: allProperties.merge_field_names,
+        collaboration_room: allProperties.collaboration_room,
+        collaboration_server_url: allProperties.collaboration_server_url,
+        collaboration_user_name: allProperties.collaboration_user_name,
+        collaboration_user_color: allProperties.collaboration_user_color,
+        initial_comments: allProperties.initial_comments,
+        comment_author_name: allProperties.comment_author_name,
+        strip_comments_from_html: allProperties.strip_comments_from_html,
+        suggesting: allProperties.suggesting,
+        draft_key: allProperties.draft_key,
+        email_title: allProperties.email_title,
+        email_preheader: allProperties.email_preheader,
+        email_header_html: allProperties.email_header_html,
+        email_footer_html: allProperties.email_footer_html,
+        email_unsubscribe_url: allProperties.email_unsubscribe_url,
+        email_unsubscribe_label: allProperties.email_unsubscribe_label,
+        email_view_in_browser_url: allProperties.email_view_in_browser_url,
+        email_view_in_browser_label: allProperties.email_view_in_browser_label,
         default_text_color: allProperties.default_text_color,
     };
 
@@ -0,0 +1,141 @@
+/**
+ * Local WebSocket relay for trying collaborative editing (WebSocketProvider) without a real server.
+ *
+ * Every text message a client sends is forwarded as-is to the other clients of the same room
+ * (ws://localhost:1234/?room=...). No storage, auth or TLS: for development and the collaboration tests only.
+ *
+ * Usage: npm run collab-relay [-- --port 1234]
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const portArg = process.argv.indexOf('--port');
+const PORT = Number(portArg !== -1 ? process.argv[portArg + 1] : process.env.PORT) || 1234;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** room → sockets */
+const rooms = new Map();
+
+function encodeFrame(payload, opcode = 0x1) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Parse complete frames from buffer; returns the frames and the unused rest */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    let length = second & 0x7f;
+    let pos = offset + 2;
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      length = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const masked = (second & 0x80) !== 0;
+    const maskEnd = pos + (masked ? 4 : 0);
+    if (buffer.length < maskEnd + length) break;
+    const payload = Buffer.from(buffer.subarray(maskEnd, maskEnd + length));
+    if (masked) {
+      const mask = buffer.subarray(pos, maskEnd);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = maskEnd + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function leave(socket) {
+  const peers = rooms.get(socket.room);
+  if (!peers) return;
+  peers.delete(socket);
+  if (peers.size === 0) rooms.delete(socket.room);
+}
+
+function broadcast(socket, payload) {
+  const frame = encodeFrame(payload);
+  rooms.get(socket.room)?.forEach((peer) => {
+    if (peer !== socket && !peer.destroyed) peer.write(frame);
+  });
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket relay: connect with ws://localhost:' + PORT + '/?room=<room>\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  socket.room = new URL(req.url ?? '/', 'http://localhost').searchParams.get('room') || 'default';
+  if (!rooms.has(socket.room)) rooms.set(socket.room, new Set());
+  rooms.get(socket.room).add(socket);
+  console.log(`[relay] join "${socket.room}" (${rooms.get(socket.room).size} connected)`);
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(frame.payload, 0xa));
+        continue;
+      }
+      if (frame.opcode === 0x1 || frame.opcode === 0x0) {
+        fragments.push(frame.payload);
+        if (frame.fin) {
+          broadcast(socket, Buffer.concat(fragments));
+          fragments = [];
+        }
+      }
+    }
+  });
+  socket.on('close', () => {
+    leave(socket);
+    console.log(`[relay] leave "${socket.room}"`);
+  });
+  socket.on('error', () => leave(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`[relay] listening on ws://localhost:${PORT}/?room=<room>`);
+});
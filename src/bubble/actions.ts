@@ -1,5 +1,15 @@
-import { ContentEditor } from '../editor/Editor';
+import { ContentEditor, EditorCommandOptions, HeadingLevel, TextAlignment } from '../editor/Editor';
+import type { DraftRecovery } from '../editor/DraftRecovery';
+import type { TableColumnAlign } from '../editor/TableTools';
 import { BubbleMock, BubbleAction } from '../mock/BubbleMock';
+import { buildMergeData } from '../utils/mergeFields';
+
+/** Workflow actions run while the user is clicking a Bubble button, so don't pull focus back into the editor. */
+const NO_FOCUS: EditorCommandOptions = { focus: false };
+
+const TEXT_ALIGNMENTS: TextAlignment[] = ['left', 'center', 'right', 'justify'];
+
+const TABLE_COLUMN_ALIGNMENTS: TableColumnAlign[] = ['left', 'center', 'right'];
 
 /**
  * ActionHandler - Handles Bubble actions and routes them to the editor
@@ -7,11 +17,13 @@ import { BubbleMock, BubbleAction } from '../mock/BubbleMock';
 export class ActionHandler {
   private editor: ContentEditor;
   private bubble: BubbleMock;
+  private drafts: DraftRecovery | null;
   private unsubscribe: (() => void) | null = null;
 
-  constructor(editor: ContentEditor, bubble: BubbleMock) {
+  constructor(editor: ContentEditor, bubble: BubbleMock, drafts: DraftRecovery | null = null) {
     this.editor = editor;
     this.bubble = bubble;
+    this.drafts = drafts;
     this.setupActionListener();
   }
 
@@ -26,6 +38,12 @@ export class ActionHandler {
       case 'set_content':
         this.handleSetContent(action.params);
         break;
+      case 'set_markdown':
+        this.handleSetMarkdown(action.params);
+        break;
+      case 'render_with_data':
+        this.handleRenderWithData(action.params);
+        break;
       case 'clear_content':
         this.handleClearContent();
         break;
@@ -35,6 +53,100 @@ export class ActionHandler {
       case 'insert_image':
         this.handleInsertImage(action.params);
         break;
+      case 'toggle_bold':
+        this.editor.toggleBold(NO_FOCUS);
+        break;
+      case 'toggle_italic':
+        this.editor.toggleItalic(NO_FOCUS);
+        break;
+      case 'toggle_strike':
+        this.editor.toggleStrike(NO_FOCUS);
+        break;
+      case 'set_heading':
+        this.handleSetHeading(action.params);
+        break;
+      case 'set_text_color':
+        this.handleSetTextColor(action.params);
+        break;
+      case 'set_text_align':
+        this.handleSetTextAlign(action.params);
+        break;
+      case 'toggle_bullet_list':
+        this.editor.toggleBulletList(NO_FOCUS);
+        break;
+      case 'toggle_ordered_list':
+        this.editor.toggleOrderedList(NO_FOCUS);
+        break;
+      case 'toggle_task_list':
+        this.editor.toggleTaskList(NO_FOCUS);
+        break;
+      case 'insert_table':
+        this.handleInsertTable(action.params);
+        break;
+      case 'insert_columns':
+        this.handleInsertColumns(action.params);
+        break;
+      case 'merge_table_cells':
+        this.editor.mergeTableCells(NO_FOCUS);
+        break;
+      case 'split_table_cell':
+        this.editor.splitTableCell(NO_FOCUS);
+        break;
+      case 'toggle_table_header_row':
+        this.editor.toggleTableHeaderRow(NO_FOCUS);
+        break;
+      case 'toggle_table_header_column':
+        this.editor.toggleTableHeaderColumn(NO_FOCUS);
+        break;
+      case 'set_table_column_align':
+        this.handleSetTableColumnAlign(action.params);
+        break;
+      case 'insert_div_block':
+        this.editor.setDivBlock(NO_FOCUS);
+        break;
+      case 'insert_horizontal_rule':
+        this.editor.setHorizontalRule(NO_FOCUS);
+        break;
+      case 'set_link':
+        this.handleSetLink(action.params);
+        break;
+      case 'unset_link':
+        this.editor.unsetLink(NO_FOCUS);
+        break;
+      case 'undo':
+        this.editor.undo(NO_FOCUS);
+        break;
+      case 'redo':
+        this.editor.redo(NO_FOCUS);
+        break;
+      case 'accept_suggestion':
+        this.handleResolveSuggestion(action.params, true);
+        break;
+      case 'reject_suggestion':
+        this.handleResolveSuggestion(action.params, false);
+        break;
+      case 'accept_all_suggestions':
+        this.editor.acceptAllSuggestions(NO_FOCUS);
+        break;
+      case 'reject_all_suggestions':
+        this.editor.rejectAllSuggestions(NO_FOCUS);
+        break;
+      case 'create_snapshot':
+        this.editor.createSnapshot(typeof action.params?.name === 'string' ? action.params.name : '');
+        break;
+      case 'compare_html':
+        this.handleCompareHtml(action.params);
+        break;
+      case 'restore_snapshot':
+        this.handleRestoreSnapshot(action.params);
+        break;
+      case 'clear_draft':
+        // Run after the workflow saved the content: the current content counts as saved
+        this.drafts?.clear();
+        break;
+      case 'paste_as_plain_text':
+        void this.editor.pasteAsPlainText();
+        break;
       default:
         console.warn(`Unknown action: ${action.name}`);
     }
@@ -49,6 +161,19 @@ export class ActionHandler {
     }
   }
 
+  private handleSetMarkdown(params?: Record<string, unknown>): void {
+    const markdown = params?.markdown;
+    if (typeof markdown === 'string') {
+      this.editor.setMarkdown(markdown);
+    }
+  }
+
+  /** Fill the merge fields with the "Field names" / "Field values" lists and publish the result */
+  private handleRenderWithData(params?: Record<string, unknown>): void {
+    const data = buildMergeData(params?.names, params?.values);
+    this.bubble.publishState('rendered_html', this.editor.render(data));
+  }
+
   private handleClearContent(): void {
     this.editor.clearContent();
   }
@@ -68,6 +193,87 @@ export class ActionHandler {
     }
   }
 
+  /** Level 0 (or empty) turns the block back into a paragraph; 1-6 sets that heading level. */
+  private handleSetHeading(params?: Record<string, unknown>): void {
+    const level = this.toInteger(params?.level, 0);
+    if (level >= 1 && level <= 6) {
+      this.editor.setHeading(level as HeadingLevel, NO_FOCUS);
+    } else {
+      this.editor.setParagraph(NO_FOCUS);
+    }
+  }
+
+  private handleSetTextColor(params?: Record<string, unknown>): void {
+    const color = params?.color;
+    this.editor.setTextColor(typeof color === 'string' ? color : '', NO_FOCUS);
+  }
+
+  private handleSetTextAlign(params?: Record<string, unknown>): void {
+    const align = String(params?.align ?? '').trim().toLowerCase() as TextAlignment;
+    if (!TEXT_ALIGNMENTS.includes(align)) {
+      console.warn(`set_text_align: unsupported alignment "${params?.align}"`);
+      return;
+    }
+    this.editor.setTextAlign(align, NO_FOCUS);
+  }
+
+  private handleSetTableColumnAlign(params?: Record<string, unknown>): void {
+    const align = String(params?.align ?? '').trim().toLowerCase() as TableColumnAlign;
+    if (!TABLE_COLUMN_ALIGNMENTS.includes(align)) {
+      console.warn(`set_table_column_align: unsupported alignment "${params?.align}"`);
+      return;
+    }
+    this.editor.setTableColumnAlign(align, NO_FOCUS);
+  }
+
+  private handleInsertTable(params?: Record<string, unknown>): void {
+    const rows = Math.max(1, this.toInteger(params?.rows, 3));
+    const cols = Math.max(1, this.toInteger(params?.cols, 3));
+    this.editor.insertTable(rows, cols, NO_FOCUS);
+  }
+
+  private handleInsertColumns(params?: Record<string, unknown>): void {
+    const count = Math.min(4, Math.max(2, this.toInteger(params?.count, 2)));
+    this.editor.insertColumns(count, NO_FOCUS);
+  }
+
+  private handleSetLink(params?: Record<string, unknown>): void {
+    const url = typeof params?.url === 'string' ? params.url.trim() : '';
+    if (!url) {
+      this.editor.unsetLink(NO_FOCUS);
+      return;
+    }
+    this.editor.setLink(url, { ...NO_FOCUS, openInNewTab: params?.openInNewTab === true });
+  }
+
+  private handleResolveSuggestion(params: Record<string, unknown> | undefined, accept: boolean): void {
+    const id = String(params?.id ?? '').trim();
+    const resolved = accept ? this.editor.acceptSuggestion(id, NO_FOCUS) : this.editor.rejectSuggestion(id, NO_FOCUS);
+    if (!resolved) console.warn(`${accept ? 'accept' : 'reject'}_suggestion: no suggestion with id "${id}"`);
+  }
+
+  /** Publish the diff between two saved HTML versions to diff_html; an empty side is the current content */
+  private handleCompareHtml(params?: Record<string, unknown>): void {
+    const current = this.editor.getHTML();
+    const before = typeof params?.before === 'string' && params.before.trim() ? params.before : current;
+    const after = typeof params?.after === 'string' && params.after.trim() ? params.after : current;
+    const html = this.editor.compareContent(before, after, { layout: params?.sideBySide === true ? 'side-by-side' : 'inline' });
+    this.bubble.publishState('diff_html', html);
+  }
+
+  private handleRestoreSnapshot(params?: Record<string, unknown>): void {
+    const snapshot = String(params?.snapshot ?? '').trim();
+    if (!this.editor.restoreSnapshot(snapshot, NO_FOCUS)) {
+      console.warn(`restore_snapshot: no snapshot named "${snapshot}"`);
+    }
+  }
+
+  /** Bubble sends numbers as numbers, but dynamic expressions can arrive as strings. */
+  private toInteger(value: unknown, fallback: number): number {
+    const n = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isFinite(n) ? Math.round(n) : fallback;
+  }
+
   destroy(): void {
     if (this.unsubscribe) {
       this.unsubscribe();
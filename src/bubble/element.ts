@@ -1,11 +1,24 @@
-import { ContentEditor } from '../editor/Editor';
+import { ContentEditor, EditorStats } from '../editor/Editor';
 import { Toolbar } from '../editor/Toolbar';
 import { Sidebar } from '../editor/Sidebar';
+import { FloatingMenu } from '../editor/FloatingMenu';
+import { TableToolbar } from '../editor/TableToolbar';
+import { ImageToolbar } from '../editor/ImageToolbar';
+import { SearchPanel } from '../editor/SearchPanel';
+import { DraftRecovery } from '../editor/DraftRecovery';
 import { BubbleMock, BubbleProperties } from '../mock/BubbleMock';
 import { EventBridge } from './events';
 import { ActionHandler } from './actions';
 import { applyTheme, watchSystemTheme, ThemeProperties, getThemeVariablesForPopup } from '../utils/themeApplier';
-import { buildPaletteFromTwoLists } from '../utils/colorOptions';
+import { getEmailOptionsFromTheme } from '../utils/emailTheme';
+import type { EmailExportOptions } from '../utils/emailExport';
+import { buildPaletteFromTwoLists, normalizeColorPalette, normalizeColorToHex, toStringArray, ColorOption, BubbleColorThing } from '../utils/colorOptions';
+import { buildMentionUsers, MentionUser } from '../utils/mentionUsers';
+import { BroadcastChannelProvider, WebSocketProvider, CollaborationProvider, CollaborationUser } from '../utils/collaborationProviders';
+import { CollaborationSession, pickCollaboratorColor } from '../editor/Collaboration';
+import { parseCommentThreads, stripComments, CommentThread } from '../utils/comments';
+import { sanitizeHtml, SanitizeOptions } from '../utils/sanitizeHtml';
+import { markHtmlVersion, stripHtmlVersion } from '../utils/documentFormat';
 
 export interface BubbleElementConfig {
   container: HTMLElement;
@@ -27,16 +40,32 @@ export class BubbleElement {
   private editor: ContentEditor | null = null;
   private toolbar: Toolbar | null = null;
   private sidebar: Sidebar | null = null;
+  private floatingMenu: FloatingMenu | null = null;
+  private tableToolbar: TableToolbar | null = null;
+  private imageToolbar: ImageToolbar | null = null;
+  private searchPanel: SearchPanel | null = null;
+  private drafts: DraftRecovery | null = null;
   private sidebarExpanded = false;
   private eventBridge: EventBridge;
   private actionHandler: ActionHandler | null = null;
   private editorWrapper: HTMLElement | null = null;
+  private characterCounter: HTMLElement | null = null;
   private unsubscribeProps: (() => void) | null = null;
   private unsubscribeSystemTheme: (() => void) | null = null;
   private lastInitialContentApplyAt = 0;
   private static readonly INITIAL_CONTENT_APPLY_COOLDOWN_MS = 1500;
+  /** The email states (conversion, plain text and email check) are too slow to rebuild on every keystroke */
+  private static readonly EMAIL_STATES_DELAY_MS = 1000;
+  private emailTimer: ReturnType<typeof setTimeout> | null = null;
   /** Last HTML we synced to Bubble; only sync when content actually changes (avoids spurious updates from setEditable etc.). */
   private lastSyncedHtml: string | null = null;
+  /** Built from the mention user lists when they change, not each time the "@" menu opens */
+  private mentionUsers: MentionUser[] = [];
+  private mergeFieldNames: string[] = [];
+  /** Server + room of the running collaboration session ('' = none) */
+  private collaborationKey = '';
+  /** Last "Initial comments (JSON)" loaded into the editor (Bubble resends every property on each update) */
+  private loadedCommentsJson: string | null = null;
 
   constructor(config: BubbleElementConfig) {
     this.container = config.container;
@@ -85,6 +114,9 @@ export class BubbleElement {
     contentArea.className = 'editor-content';
     this.editorWrapper.appendChild(contentArea);
 
+    this.mentionUsers = this.buildMentionUsersFromProps(props);
+    this.mergeFieldNames = toStringArray(props.merge_field_names);
+
     // Initialize editor (placeholder via getter so it always reads current value from Bubble)
     const initialContent = props.initial_content || '';
     this.editor = new ContentEditor({
@@ -99,7 +131,56 @@ export class BubbleElement {
       onFocus: () => this.handleEditorFocus(),
       onBlur: () => this.handleEditorBlur(),
       onCreate: () => this.handleEditorCreate(),
+      getCharacterLimit: () => Number(this.bubble.getProperties().max_characters) || 0,
+      getCharacterLimitMode: () => (this.bubble.getProperties().character_limit_mode === 'reject' ? 'reject' : 'truncate'),
+      onCharacterLimitReached: () => this.handleCharacterLimitReached(),
+      getSanitizeOptions: () => this.getSanitizeOptions(),
+      getPasteMode: () => {
+        const mode = this.bubble.getProperties().paste_mode;
+        return mode === 'plain' || mode === 'keep' ? mode : 'clean';
+      },
+      getColorPalette: () => this.getPaletteHexes(),
+      getSlashCommands: () => this.getSlashCommands(),
+      onSearchRequested: (mode) => this.searchPanel?.open(mode),
+      getMentionUsers: () => this.mentionUsers,
+      onMentionsAdded: (ids) => this.handleMentionsAdded(ids),
+      getMergeFieldNames: () => this.mergeFieldNames,
+      getCommentAuthor: () => this.getCommentAuthor(),
+      onCommentAdded: (thread) => this.handleCommentEvent('comment_added', thread),
+      onCommentResolved: (thread) => this.handleCommentEvent('comment_resolved', thread),
+      onCommentsChange: () => this.publishComments(),
+      getSuggestionAuthor: () => this.getCommentAuthor(),
+      onSnapshotsChange: (editor) => this.bubble.publishState('snapshot_names', editor.getSnapshots().map((s) => s.name)),
+      onContentLoaded: (loaded) => this.bubble.publishState('loaded_content_version', loaded.version),
+      uploadImage: (file, onProgress) => this.bubble.uploadFile(file, onProgress),
+      onImageUploaded: (url) => this.handleImageUploaded(url),
+    });
+    // Character counter below the content (only visible while a limit is set)
+    this.characterCounter = document.createElement('div');
+    this.characterCounter.className = 'editor-character-counter';
+    this.editorWrapper.appendChild(this.characterCounter);
+    this.updateCharacterCounter();
+
+    this.applyCollaboration();
+    this.applyInitialComments();
+    this.editor.setSuggesting(props.suggesting === true);
+
+    // Local draft of unsaved changes, offered back when it differs from the loaded content
+    this.drafts = new DraftRecovery({
+      editor: this.editor,
+      container: this.editorWrapper,
+      getKey: () => String(this.bubble.getProperties().draft_key ?? '').trim(),
+      onRecoverableChange: (recoverable) => this.bubble.publishState('draft_recoverable', recoverable),
+    });
+    this.drafts.markSaved();
+    this.drafts.check();
+
+    // Find / replace bar (Mod-F / Mod-H)
+    this.searchPanel = new SearchPanel({
+      editor: this.editor,
+      container: this.editorWrapper,
     });
+
     // Initialize toolbar
     this.toolbar = new Toolbar({
       editor: this.editor,
@@ -108,9 +189,28 @@ export class BubbleElement {
       getThemeForPopup: () => getThemeVariablesForPopup(this.bubble.getProperties()),
     });
 
-    if (!props.toolbar_visible) {
-      this.toolbar.hide();
-    }
+    // Floating menu above text selections (also available while the sidebar hides the toolbar)
+    this.floatingMenu = new FloatingMenu({
+      editor: this.editor,
+      container: this.container,
+      colorPalette: colorPaletteRaw,
+      getThemeForPopup: () => getThemeVariablesForPopup(this.bubble.getProperties()),
+    });
+    this.applyToolbarMode();
+
+    // Table controls above the table the cursor is in
+    this.tableToolbar = new TableToolbar({
+      editor: this.editor,
+      container: this.container,
+      getThemeForPopup: () => getThemeVariablesForPopup(this.bubble.getProperties()),
+    });
+
+    // Image controls above the selected image
+    this.imageToolbar = new ImageToolbar({
+      editor: this.editor,
+      container: this.container,
+      getThemeForPopup: () => getThemeVariablesForPopup(this.bubble.getProperties()),
+    });
 
     // Initialize sidebar (appended to main container, not editor wrapper)
     this.sidebar = new Sidebar({
@@ -123,7 +223,7 @@ export class BubbleElement {
     this.sidebar.hide();
 
     // Setup action handler
-    this.actionHandler = new ActionHandler(this.editor, this.bubble);
+    this.actionHandler = new ActionHandler(this.editor, this.bubble, this.drafts);
 
     // Listen for property changes
     this.unsubscribeProps = this.bubble.onPropertyChange((changes) => {
@@ -158,8 +258,12 @@ export class BubbleElement {
 
   private applyThemeFromProps(props: BubbleProperties): void {
     if (!this.editorWrapper) return;
+    // Apply theme to container so both editor and sidebar inherit accent/brand variables
+    applyTheme(this.container, this.getThemeProps(props));
+  }
 
-    const themeProps: Partial<ThemeProperties> = {
+  private getThemeProps(props: BubbleProperties): Partial<ThemeProperties> {
+    return {
       theme: props.theme,
       brand_primary: props.brand_primary || props.accent_color,
       brand_light_1: props.brand_light_1,
@@ -177,9 +281,14 @@ export class BubbleElement {
       border_radius: props.border_radius,
       default_text_color: this.getDefaultTextColorFromProps(props),
     };
+  }
 
-    // Apply theme to container so both editor and sidebar inherit accent/brand variables
-    applyTheme(this.container, themeProps);
+  /** Saved content loads in full; a local draft that differs from it is then offered back */
+  private loadInitialContent(html: string): void {
+    if (!this.editor) return;
+    this.editor.setContent(html, { ignoreCharacterLimit: true });
+    this.drafts?.markSaved();
+    this.drafts?.check();
   }
 
   private handleEditorCreate(): void {
@@ -209,17 +318,202 @@ export class BubbleElement {
   private handleEditorBlur(): void {
     // Always sync on blur so Bubble has latest content even if we skipped intermediate updates.
     this.syncStatesToBubble();
+    this.publishEmail();
     this.eventBridge.trigger('editor_blurred');
   }
 
-  /** Strip editor-only attributes from HTML so saved content is clean (e.g. no contenteditable on resize handles) */
+  private handleCharacterLimitReached(): void {
+    // Debounced: holding a key at the limit would otherwise fire the workflow on every keystroke
+    this.eventBridge.triggerDebounced('character_limit_reached', {
+      limit: this.editor?.getCharacterLimit() ?? 0,
+    });
+  }
+
+  /** null when there is no limit (Bubble shows it as empty) */
+  private getCharactersRemaining(stats: EditorStats): number | null {
+    return stats.characterLimit > 0 ? Math.max(0, stats.characterLimit - stats.characterCount) : null;
+  }
+
+  private updateCharacterCounter(): void {
+    if (!this.characterCounter || !this.editor) return;
+    const { characterCount, characterLimit } = this.editor.getStats();
+    this.characterCounter.style.display = characterLimit > 0 ? '' : 'none';
+    this.characterCounter.textContent = `${characterCount} / ${characterLimit}`;
+    this.characterCounter.classList.toggle('is-limit', characterLimit > 0 && characterCount >= characterLimit);
+  }
+
+  private handleImageUploaded(url: string): void {
+    // Publish before triggering so workflows on "Image uploaded" can read the URL state
+    this.bubble.publishState('uploaded_image_url', url);
+    this.eventBridge.trigger('image_uploaded', { url });
+  }
+
+  private handleMentionsAdded(ids: string[]): void {
+    // Publish before triggering so workflows on "User mentioned" can read the id
+    ids.forEach((id) => {
+      this.bubble.publishState('last_mentioned_user_id', id);
+      this.eventBridge.trigger('user_mentioned', { id });
+    });
+  }
+
+  private handleCommentEvent(event: 'comment_added' | 'comment_resolved', thread: CommentThread): void {
+    // Publish before triggering so workflows can save the threads and read which one changed
+    this.publishComments();
+    this.bubble.publishState('last_comment_thread_id', thread.id);
+    this.eventBridge.trigger(event, { threadId: thread.id });
+  }
+
+  private publishComments(): void {
+    if (!this.editor) return;
+    this.bubble.publishState('comments_json', JSON.stringify(this.editor.getComments()));
+  }
+
+  private publishSuggestions(): void {
+    if (!this.editor) return;
+    const suggestions = this.editor.getSuggestions();
+    this.bubble.publishState('suggestions_json', JSON.stringify(suggestions));
+    this.bubble.publishState('suggestion_count', suggestions.length);
+  }
+
+  /** Email HTML, its plain-text alternative and the email check, styled like the editor's theme */
+  private publishEmail(): void {
+    this.cancelPublishEmail();
+    if (!this.editor) return;
+    const options = this.getEmailOptions();
+    const emailHtml = this.editor.getEmailHTML(options);
+    const issues = this.editor.getEmailPreflight(options, emailHtml);
+    this.bubble.publishState('email_html', emailHtml);
+    this.bubble.publishState('email_text', this.editor.getEmailText({}, options));
+    this.bubble.publishState('email_issues_json', JSON.stringify(issues));
+    this.bubble.publishState('email_issue_count', issues.length);
+  }
+
+  /** Publish the email states once edits pause (blur and property changes publish right away) */
+  private schedulePublishEmail(): void {
+    this.cancelPublishEmail();
+    this.emailTimer = setTimeout(() => this.publishEmail(), BubbleElement.EMAIL_STATES_DELAY_MS);
+  }
+
+  private cancelPublishEmail(): void {
+    if (this.emailTimer) {
+      clearTimeout(this.emailTimer);
+      this.emailTimer = null;
+    }
+  }
+
+  /** Theme-styled email options with the title, preheader, header, footer and links from the "Email ..." properties */
+  private getEmailOptions(): EmailExportOptions {
+    const props = this.bubble.getProperties();
+    const text = (value: unknown) => String(value ?? '').trim();
+    return {
+      ...getEmailOptionsFromTheme(this.getThemeProps(props)),
+      title: text(props.email_title),
+      preheader: text(props.email_preheader),
+      headerHTML: text(props.email_header_html),
+      footerHTML: text(props.email_footer_html),
+      unsubscribeUrl: text(props.email_unsubscribe_url),
+      unsubscribeLabel: text(props.email_unsubscribe_label) || undefined,
+      viewInBrowserUrl: text(props.email_view_in_browser_url),
+      viewInBrowserLabel: text(props.email_view_in_browser_label) || undefined,
+    };
+  }
+
+  /** Author of comments and suggestions; defaults to the collaborator name so both show the same person */
+  private getCommentAuthor(): string {
+    const props = this.bubble.getProperties();
+    return String(props.comment_author_name ?? '').trim() || String(props.collaboration_user_name ?? '').trim() || 'Anonymous';
+  }
+
+  /** Load the threads saved in Bubble when "Initial comments (JSON)" changes */
+  private applyInitialComments(): void {
+    if (!this.editor) return;
+    const raw = String(this.bubble.getProperties().initial_comments ?? '');
+    if (raw === this.loadedCommentsJson) return;
+    this.loadedCommentsJson = raw;
+    this.editor.setComments(parseCommentThreads(raw));
+  }
+
+  /**
+   * "Collaboration room": editors with the same room edit the document together. Tabs of the same browser
+   * connect directly; with a "Collaboration server URL" they go through that WebSocket relay instead.
+   */
+  private applyCollaboration(): void {
+    if (!this.editor) return;
+    const props = this.bubble.getProperties();
+    const room = String(props.collaboration_room ?? '').trim();
+    const serverUrl = String(props.collaboration_server_url ?? '').trim();
+    const key = room ? `${serverUrl}|${room}` : '';
+
+    if (key === this.collaborationKey) {
+      this.editor.getCollaboration()?.setUser(this.getCollaborationUser());
+      return;
+    }
+    this.collaborationKey = key;
+    this.editor.stopCollaboration();
+
+    if (room) {
+      let provider: CollaborationProvider;
+      try {
+        provider = serverUrl ? new WebSocketProvider(serverUrl, room) : new BroadcastChannelProvider(room);
+      } catch (err) {
+        console.warn('[TipTap] Collaboration could not connect:', err);
+        this.publishCollaborationStates(null);
+        return;
+      }
+      this.editor.startCollaboration({
+        provider,
+        user: this.getCollaborationUser(),
+        onChange: (session) => this.publishCollaborationStates(session),
+      });
+    }
+    this.publishCollaborationStates(this.editor.getCollaboration());
+  }
+
+  private getCollaborationUser(): CollaborationUser {
+    const props = this.bubble.getProperties();
+    const name = String(props.collaboration_user_name ?? '').trim() || 'Anonymous';
+    const color = String(props.collaboration_user_color ?? '').trim() || pickCollaboratorColor(name);
+    return { name, color };
+  }
+
+  private publishCollaborationStates(session: CollaborationSession | null): void {
+    this.bubble.publishState('collaboration_status', session ? session.getStatus() : 'off');
+    this.bubble.publishState('collaborators', session ? session.getCollaborators().map((c) => c.user.name) : []);
+  }
+
+  private buildMentionUsersFromProps(props: BubbleProperties): MentionUser[] {
+    return buildMentionUsers(props.mention_user_ids, props.mention_user_names, props.mention_user_avatars);
+  }
+
+  private getSanitizeOptions(): SanitizeOptions {
+    return { policy: this.bubble.getProperties().sanitize_policy === 'relaxed' ? 'relaxed' : 'strict' };
+  }
+
+  /** "Slash menu commands": comma-separated ids in menu order; empty = all, "none" = menu off */
+  private getSlashCommands(): string[] | null {
+    const raw = String(this.bubble.getProperties().slash_commands ?? '').trim();
+    if (!raw) return null;
+    if (raw.toLowerCase() === 'none') return [];
+    return raw.split(',').map((id) => id.trim()).filter(Boolean);
+  }
+
+  /**
+   * Strip editor-only attributes from HTML so saved content is clean (e.g. no contenteditable on resize handles,
+   * no in-progress upload placeholders, no comment marks when "Strip comments from HTML" is on), then run the sanitizer so published HTML is safe to render elsewhere.
+   * The result carries the document version marker so it can be migrated when loaded later.
+   */
   private sanitizeHtmlForStorage(html: string): string {
-    return html.replace(/\s+contenteditable="false"/gi, '').replace(/\s+contenteditable='false'/gi, '');
+    const cleaned = html
+      .replace(/\s+contenteditable="false"/gi, '')
+      .replace(/\s+contenteditable='false'/gi, '')
+      .replace(/<div[^>]*data-type="image-upload"[^>]*><\/div>/gi, '');
+    const content = this.bubble.getProperties().strip_comments_from_html ? stripComments(cleaned) : cleaned;
+    return markHtmlVersion(sanitizeHtml(content, this.getSanitizeOptions()));
   }
 
   /** True if HTML is empty or just an empty paragraph (don't use for initial load - avoids overwriting with empty) */
   private isEffectivelyEmptyHtml(html: string): boolean {
-    const trimmed = html.trim();
+    const trimmed = stripHtmlVersion(html).trim();
     return !trimmed || trimmed === '<p></p>' || trimmed === '<p><br></p>' || trimmed === '<p><br/></p>';
   }
 
@@ -235,34 +529,60 @@ export class BubbleElement {
     this.bubble.publishState('html_content', htmlForStorage);
     this.bubble.publishState('is_empty', stats.isEmpty);
     this.bubble.publishState('word_count', stats.wordCount);
-    this.bubble.publishState('json_content', JSON.stringify(this.editor.getJSON()));
+    this.bubble.publishState('character_count', stats.characterCount);
+    this.bubble.publishState('characters_remaining', this.getCharactersRemaining(stats));
+    this.bubble.publishState('json_content', JSON.stringify(this.editor.getDocumentJSON()));
+    this.bubble.publishState('markdown_content', this.editor.getMarkdown());
+    this.bubble.publishState('mentioned_user_ids', this.editor.getMentionedUserIds());
+    this.publishComments();
+    this.publishSuggestions();
+    this.schedulePublishEmail();
     this.lastSyncedHtml = htmlForStorage;
+    this.updateCharacterCounter();
   }
 
   private handlePropertyChanges(changes: Partial<BubbleProperties>): void {
     if (!this.editor) return;
 
     // Apply initial_content only when editor is empty and we have content (first load); cooldown avoids flashing.
+    // Saved content always loads in full, even when it is longer than the character limit.
     if ('initial_content' in changes && changes.initial_content !== undefined) {
       const html = typeof changes.initial_content === 'string' ? changes.initial_content : '';
       const editor = this.editor;
       const now = Date.now();
       const inCooldown = now - this.lastInitialContentApplyAt < BubbleElement.INITIAL_CONTENT_APPLY_COOLDOWN_MS;
+      // In a shared session the document comes from the other collaborators
       const shouldApply =
         editor &&
+        !editor.getCollaboration()?.isShared() &&
         editor.isEmpty() &&
         !this.isEffectivelyEmptyHtml(html) &&
         !inCooldown;
       if (shouldApply) {
         this.lastInitialContentApplyAt = now;
         if (typeof requestAnimationFrame !== 'undefined') {
-          requestAnimationFrame(() => editor!.setContent(html));
+          requestAnimationFrame(() => this.loadInitialContent(html));
         } else {
-          setTimeout(() => editor!.setContent(html), 0);
+          setTimeout(() => this.loadInitialContent(html), 0);
         }
       }
     }
 
+    // Handle email frame property changes
+    const emailFrameProps = [
+      'email_title', 'email_preheader', 'email_header_html', 'email_footer_html',
+      'email_unsubscribe_url', 'email_unsubscribe_label',
+      'email_view_in_browser_url', 'email_view_in_browser_label',
+    ];
+
+    if (emailFrameProps.some(prop => prop in changes)) {
+      this.publishEmail();
+    }
+
+    if ('draft_key' in changes) {
+      this.drafts?.check();
+    }
+
     if ('placeholder' in changes) {
       this.editor.refreshPlaceholder();
     }
@@ -271,13 +591,14 @@ export class BubbleElement {
       this.editor.setEditable(changes.editable);
     }
 
-    if ('toolbar_visible' in changes && changes.toolbar_visible !== undefined) {
-      if (changes.toolbar_visible && !this.sidebarExpanded) {
-        this.toolbar?.show();
-      } else if (!changes.toolbar_visible) {
-        this.toolbar?.hide();
-      }
-      // When sidebar is expanded, never show toolbar (keep it hidden until user collapses sidebar)
+    if ('toolbar_visible' in changes || 'toolbar_mode' in changes) {
+      this.applyToolbarMode();
+    }
+
+    if ('max_characters' in changes) {
+      // Only the limit-derived values: a full sync here could publish empty content before initial_content loads
+      this.bubble.publishState('characters_remaining', this.getCharactersRemaining(this.editor.getStats()));
+      this.updateCharacterCounter();
     }
 
     if ('min_height' in changes || 'max_height' in changes) {
@@ -294,6 +615,8 @@ export class BubbleElement {
     
     if (themeProps.some(prop => prop in changes)) {
       this.applyThemeFromProps(this.bubble.getProperties());
+      // The email states are styled from the theme
+      this.publishEmail();
       
       // Update system theme watcher if theme mode changed
       if ('theme' in changes) {
@@ -313,9 +636,60 @@ export class BubbleElement {
       const propsAny = props as unknown as Record<string, unknown>;
       const raw = this.getEffectiveColorPaletteRaw(props, propsAny);
       this.sidebar?.refreshColorPalette(raw);
+      this.floatingMenu?.refreshColorPalette(raw);
+    }
+
+    if ('mention_user_ids' in changes || 'mention_user_names' in changes || 'mention_user_avatars' in changes) {
+      this.mentionUsers = this.buildMentionUsersFromProps(this.bubble.getProperties());
+    }
+
+    if (
+      'collaboration_room' in changes ||
+      'collaboration_server_url' in changes ||
+      'collaboration_user_name' in changes ||
+      'collaboration_user_color' in changes
+    ) {
+      this.applyCollaboration();
+    }
+
+    if ('initial_comments' in changes) {
+      this.applyInitialComments();
+    }
+
+    if ('suggesting' in changes) {
+      this.editor.setSuggesting(changes.suggesting === true);
+    }
+
+    if ('merge_field_names' in changes) {
+      this.mergeFieldNames = toStringArray(this.bubble.getProperties().merge_field_names);
     }
   }
 
+  /**
+   * "Formatting controls": fixed toolbar, floating menu over selections, or both.
+   * The toolbar also needs toolbar_visible and is never shown while the sidebar is expanded.
+   */
+  private applyToolbarMode(): void {
+    const props = this.bubble.getProperties();
+    const mode = props.toolbar_mode ?? 'toolbar';
+    const showToolbar = !!props.toolbar_visible && mode !== 'floating' && !this.sidebarExpanded;
+    if (showToolbar) {
+      this.toolbar?.show();
+    } else {
+      this.toolbar?.hide();
+    }
+    this.floatingMenu?.setEnabled(mode === 'floating' || mode === 'both');
+  }
+
+  /** Hex values of the effective color palette (pasted colors snap to these) */
+  private getPaletteHexes(): string[] {
+    const props = this.bubble.getProperties();
+    const raw = this.getEffectiveColorPaletteRaw(props, props as unknown as Record<string, unknown>);
+    return normalizeColorPalette(raw as ColorOption[] | string[] | BubbleColorThing[] | undefined | null)
+      .map((option) => normalizeColorToHex(option.value))
+      .filter((hex) => hex.startsWith('#'));
+  }
+
   /**
    * Prefer two list-of-strings (color_names + color_hex_codes) when both set; otherwise use color_palette.
    * Bubble often does not send option set custom attributes (e.g. "Hex code") for "list of option set".
@@ -376,11 +750,10 @@ export class BubbleElement {
     
     if (this.sidebarExpanded) {
       this.sidebar?.show();
-      this.toolbar?.hide();
     } else {
       this.sidebar?.hide();
-      this.toolbar?.show();
     }
+    this.applyToolbarMode();
     
     this.toolbar?.setSidebarExpanded(this.sidebarExpanded);
   }
@@ -400,9 +773,15 @@ export class BubbleElement {
   destroy(): void {
     this.unsubscribeProps?.();
     this.unsubscribeSystemTheme?.();
+    this.cancelPublishEmail();
     this.actionHandler?.destroy();
     this.eventBridge.destroy();
     this.toolbar?.destroy();
+    this.floatingMenu?.destroy();
+    this.tableToolbar?.destroy();
+    this.imageToolbar?.destroy();
+    this.searchPanel?.destroy();
+    this.drafts?.destroy();
     this.sidebar?.destroy();
     this.editor?.destroy();
     
@@ -14,6 +14,10 @@ export const SIDEBAR_SECTION_IDS = [
   'borders',
   'backgrounds',
   'layout',
+  'search',
+  'comments',
+  'suggestions',
+  'email',
 ] as const;
 
 export type SidebarSectionId = (typeof SIDEBAR_SECTION_IDS)[number];
@@ -11,6 +11,10 @@
 
 import { Extension } from '@tiptap/core';
 import { NodeSelection, Plugin, PluginKey } from '@tiptap/pm/state';
+import { CellSelection } from '@tiptap/pm/tables';
+
+/** Table cells are containers too; the nearest one wins over any container the table sits in */
+const TABLE_CELL_TYPES = ['tableCell', 'tableHeader'];
 
 export interface BlockStyleOptions {
   types: string[];
@@ -327,6 +331,17 @@ export const BlockStyle = Extension.create<BlockStyleOptions>({
         ({ state, tr, dispatch }) => {
           const { selection } = state;
           const containerTypes = this.options.containerTypes;
+
+          // Several selected cells: style each of them
+          if (selection instanceof CellSelection) {
+            selection.forEachCell((cell, pos) => {
+              if (containerTypes.includes(cell.type.name)) {
+                tr.setNodeMarkup(pos, undefined, { ...cell.attrs, ...attributes });
+              }
+            });
+            if (dispatch) dispatch(tr);
+            return true;
+          }
           
           let containerPos: number | null = null;
           let containerNode = null;
@@ -356,6 +371,13 @@ export const BlockStyle = Extension.create<BlockStyleOptions>({
             while (depth > 0) {
               const node = selection.$from.node(depth);
               if (containerTypes.includes(node.type.name)) {
+                if (TABLE_CELL_TYPES.includes(node.type.name)) {
+                  if (!nearestNode) {
+                    nearestPos = selection.$from.before(depth);
+                    nearestNode = node;
+                  }
+                  break;
+                }
                 if (node.type.name === 'columnGrid') {
                   gridPos = selection.$from.before(depth);
                   gridNode = node;
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { ContentEditor } from './Editor';
+import { createTestEditor } from '../test/createTestEditor';
+import type { CharacterLimitMode } from './CharacterLimit';
+
+function createEditor(limit: number, mode: CharacterLimitMode = 'truncate'): ContentEditor {
+  return createTestEditor({ getCharacterLimit: () => limit, getCharacterLimitMode: () => mode });
+}
+
+describe('CharacterLimit', () => {
+  it('truncates set content to the limit', () => {
+    const ed = createEditor(5);
+    ed.setContent('<p>Hello world</p>');
+    expect(ed.getText()).toBe('Hello');
+  });
+
+  it('leaves content unchanged in reject mode', () => {
+    const ed = createEditor(5, 'reject');
+    ed.setContent('<p>Hi</p>');
+    ed.setContent('<p>Hello world</p>');
+    expect(ed.getText()).toBe('Hi');
+  });
+
+  it('truncates pastes at the cursor', () => {
+    const ed = createEditor(8);
+    ed.setContent('<p>abc</p>');
+    const tipTap = ed.getTipTapEditor();
+    const tr = tipTap.state.tr.insertText('1234567', 4).setMeta('paste', true);
+    tipTap.view.dispatch(tr);
+    expect(ed.getText()).toBe('abc12345');
+  });
+
+  it('does not change the transaction other plugins inspect', () => {
+    const ed = createEditor(5);
+    const seen: number[] = [];
+    const tipTap = ed.getTipTapEditor();
+    tipTap.registerPlugin(new Plugin({
+      key: new PluginKey('inspect'),
+      filterTransaction: (tr) => {
+        seen.push(tr.steps.length);
+        return true;
+      },
+    }), (plugin, plugins) => [plugin, ...plugins]);
+    const tr = tipTap.state.tr.insertText('Hello world', 1).setMeta('paste', true);
+    tipTap.view.dispatch(tr);
+    expect(tr.steps.length).toBe(1);
+    expect(ed.getText()).toBe('Hello');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * CharacterLimit Extension
+ *
+ * Enforces a maximum character count that can change at runtime (read through getters,
+ * like the placeholder), counting characters the same way CharacterCount does.
+ * - Typing and other edits past the limit are blocked
+ * - Pastes/drops and full content replacement (set content) are truncated or rejected,
+ *   depending on the mode; filterTransaction only accepts or rejects, the truncation is
+ *   appended as a separate transaction
+ * - Transactions tagged with the bypass meta (loading saved content) and changes from a
+ *   collaboration session are never filtered
+ */
+
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey, Transaction } from '@tiptap/pm/state';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Transform } from '@tiptap/pm/transform';
+import { isCollaborationChange } from './Collaboration';
+
+export type CharacterLimitMode = 'truncate' | 'reject';
+
+export interface CharacterLimitOptions {
+  /** Current limit (0 or less = unlimited) */
+  getLimit: () => number;
+  getMode: () => CharacterLimitMode;
+  /** Called when an edit was blocked or truncated because of the limit */
+  onLimitReached: (() => void) | null;
+}
+
+/** Set this meta on a transaction to let it exceed the limit (e.g. loading existing content). */
+export const CHARACTER_LIMIT_BYPASS_META = 'characterLimitBypass';
+
+const characterLimitPluginKey = new PluginKey('characterLimit');
+
+/** Same count as CharacterCount's default 'textSize' mode: text plus one per non-text leaf (image, hard break, ...). */
+export function countCharacters(doc: ProseMirrorNode, to = doc.content.size): number {
+  return doc.textBetween(0, to, undefined, ' ').length;
+}
+
+/** Document position after the first `count` characters. */
+function positionAfterCharacters(doc: ProseMirrorNode, count: number): number {
+  let seen = 0;
+  let result: number | null = null;
+  doc.descendants((node, pos) => {
+    if (result !== null) return false;
+    if (node.isText) {
+      const length = node.text?.length ?? 0;
+      if (seen + length >= count) {
+        result = pos + (count - seen);
+        return false;
+      }
+      seen += length;
+    } else if (node.isLeaf) {
+      if (seen + 1 > count) {
+        result = pos;
+        return false;
+      }
+      seen += 1;
+    }
+    return true;
+  });
+  return result ?? doc.content.size;
+}
+
+/** True when the transaction replaced the whole document (setContent). */
+function replacesWholeDocument(tr: Transaction): boolean {
+  const oldSize = tr.before.content.size;
+  return tr.steps.some((step) => {
+    const json = step.toJSON() as { stepType?: string; from?: number; to?: number };
+    return json.stepType === 'replace' && json.from === 0 && json.to === oldSize;
+  });
+}
+
+/**
+ * Range to delete so the document fits the limit again, or null when it can't be trimmed: pasted
+ * content loses the overflow just before the cursor, a replaced document loses its end.
+ */
+function getTruncation(doc: ProseMirrorNode, head: number, isPaste: boolean, replacesWhole: boolean, limit: number): { from: number; to: number } | null {
+  const newSize = countCharacters(doc);
+  let range: { from: number; to: number };
+
+  if (isPaste) {
+    // Pasted content ends at the cursor: drop the overflow just before it
+    const keepBefore = countCharacters(doc, head) - (newSize - limit);
+    if (keepBefore < 0) return null;
+    range = { from: positionAfterCharacters(doc, keepBefore), to: head };
+  } else if (replacesWhole) {
+    range = { from: positionAfterCharacters(doc, limit), to: doc.content.size };
+  } else {
+    return null;
+  }
+
+  const truncated = new Transform(doc).delete(range.from, range.to).doc;
+  return countCharacters(truncated) <= limit ? range : null;
+}
+
+function isPasteTransaction(tr: Transaction): boolean {
+  return !!tr.getMeta('paste') || tr.getMeta('uiEvent') === 'drop';
+}
+
+export const CharacterLimit = Extension.create<CharacterLimitOptions>({
+  name: 'characterLimit',
+
+  addOptions() {
+    return {
+      getLimit: () => 0,
+      getMode: () => 'truncate',
+      onLimitReached: null,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      new Plugin({
+        key: characterLimitPluginKey,
+        // Only decides whether an edit may happen; truncating it is left to appendTransaction
+        filterTransaction: (tr, state) => {
+          const limit = options.getLimit();
+          if (!tr.docChanged || !(limit > 0) || tr.getMeta(CHARACTER_LIMIT_BYPASS_META) || isCollaborationChange(tr)) return true;
+
+          const newSize = countCharacters(tr.doc);
+          if (newSize <= limit) return true;
+          // Already over the limit (limit lowered, or content loaded with bypass): allow edits that shrink it
+          if (newSize <= countCharacters(state.doc)) return true;
+
+          const allowed = options.getMode() === 'truncate' &&
+            getTruncation(tr.doc, tr.selection.$head.pos, isPasteTransaction(tr), replacesWholeDocument(tr), limit) !== null;
+          options.onLimitReached?.();
+          return allowed;
+        },
+        appendTransaction: (transactions, oldState, newState) => {
+          const limit = options.getLimit();
+          const edits = transactions.filter(
+            (tr) => tr.docChanged && !tr.getMeta(CHARACTER_LIMIT_BYPASS_META) && !isCollaborationChange(tr)
+          );
+          if (!edits.length || !(limit > 0) || options.getMode() !== 'truncate') return null;
+
+          const newSize = countCharacters(newState.doc);
+          if (newSize <= limit || newSize <= countCharacters(oldState.doc)) return null;
+
+          const range = getTruncation(
+            newState.doc,
+            newState.selection.$head.pos,
+            edits.some(isPasteTransaction),
+            edits.some(replacesWholeDocument),
+            limit
+          );
+          return range ? newState.tr.delete(range.from, range.to) : null;
+        },
+      }),
+    ];
+  },
+});
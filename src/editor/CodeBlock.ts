@@ -0,0 +1,168 @@
+/**
+ * CodeBlock Extension
+ *
+ * CodeBlockLowlight with a node view: a language picker ("Auto-detect" leaves the language empty so
+ * lowlight detects it), a line numbers toggle (stored per block as data-line-numbers on the <pre>)
+ * and a copy button. The stored HTML is unchanged apart from that attribute.
+ */
+
+import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { NodeView } from '@tiptap/pm/view';
+import { getCodeLanguages } from '../utils/codeHighlight';
+import { icons } from '../utils/icons';
+
+/** How long the copy button shows "Copied" */
+const COPIED_FEEDBACK_MS = 1500;
+
+class CodeBlockView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  private node: ProseMirrorNode;
+  private editor: Editor;
+  private getPos: () => number | undefined;
+  private header: HTMLElement;
+  private select: HTMLSelectElement;
+  private lineNumbersButton: HTMLButtonElement;
+  private copyButton: HTMLButtonElement;
+  private pre: HTMLElement;
+  private gutter: HTMLElement;
+  private copiedTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(node: ProseMirrorNode, editor: Editor, getPos: () => number | undefined, htmlAttributes: Record<string, unknown>) {
+    this.node = node;
+    this.editor = editor;
+    this.getPos = getPos;
+
+    this.dom = document.createElement('div');
+    this.dom.className = 'editor-code-block-view';
+
+    this.header = document.createElement('div');
+    this.header.className = 'editor-code-block-header';
+    this.header.contentEditable = 'false';
+
+    this.select = document.createElement('select');
+    this.select.className = 'editor-code-block-language';
+    this.select.title = 'Language';
+    this.select.addEventListener('change', () => this.setAttribute('language', this.select.value || null));
+
+    this.lineNumbersButton = document.createElement('button');
+    this.lineNumbersButton.type = 'button';
+    this.lineNumbersButton.className = 'editor-code-block-btn';
+    this.lineNumbersButton.title = 'Line numbers';
+    this.lineNumbersButton.textContent = '#';
+    this.lineNumbersButton.addEventListener('click', () => this.setAttribute('lineNumbers', !this.node.attrs.lineNumbers));
+
+    this.copyButton = document.createElement('button');
+    this.copyButton.type = 'button';
+    this.copyButton.className = 'editor-code-block-btn';
+    this.copyButton.title = 'Copy code';
+    this.copyButton.innerHTML = icons.copy;
+    this.copyButton.addEventListener('click', () => this.copy());
+
+    this.header.append(this.select, this.lineNumbersButton, this.copyButton);
+
+    this.pre = document.createElement('pre');
+    Object.entries(htmlAttributes).forEach(([name, value]) => {
+      if (value != null && value !== false) this.pre.setAttribute(name, String(value));
+    });
+    this.gutter = document.createElement('span');
+    this.gutter.className = 'editor-code-block-gutter';
+    this.gutter.contentEditable = 'false';
+    this.gutter.setAttribute('aria-hidden', 'true');
+    this.contentDOM = document.createElement('code');
+    this.pre.append(this.gutter, this.contentDOM);
+
+    this.dom.append(this.header, this.pre);
+    this.render();
+  }
+
+  private render(): void {
+    const language = (this.node.attrs.language as string | null) || '';
+    const languages = getCodeLanguages();
+    if (language && !languages.some((l) => l.id === language)) {
+      languages.unshift({ id: language, label: language });
+    }
+    const signature = languages.map((l) => l.id).join(',');
+    if (this.select.dataset.languages !== signature) {
+      this.select.innerHTML = '';
+      this.select.append(new Option('Auto-detect', ''), ...languages.map((l) => new Option(l.label, l.id)));
+      this.select.dataset.languages = signature;
+    }
+    this.select.value = language;
+    this.select.disabled = !this.editor.isEditable;
+    this.contentDOM.className = language ? `language-${language}` : '';
+
+    const lineNumbers = this.node.attrs.lineNumbers === true;
+    this.lineNumbersButton.classList.toggle('active', lineNumbers);
+    this.lineNumbersButton.disabled = !this.editor.isEditable;
+    this.pre.toggleAttribute('data-line-numbers', lineNumbers);
+    this.gutter.style.display = lineNumbers ? '' : 'none';
+    if (lineNumbers) {
+      const count = this.node.textContent.split('\n').length;
+      this.gutter.textContent = Array.from({ length: count }, (_, i) => String(i + 1)).join('\n');
+    }
+  }
+
+  private setAttribute(name: string, value: unknown): void {
+    const pos = this.getPos();
+    if (typeof pos !== 'number' || !this.editor.isEditable) return;
+    const attrs = { ...this.node.attrs, [name]: value };
+    this.editor.view.dispatch(this.editor.state.tr.setNodeMarkup(pos, undefined, attrs));
+  }
+
+  private copy(): void {
+    navigator.clipboard
+      .writeText(this.node.textContent)
+      .then(() => {
+        this.copyButton.innerHTML = icons.check;
+        this.copyButton.classList.add('is-copied');
+        if (this.copiedTimer) clearTimeout(this.copiedTimer);
+        this.copiedTimer = setTimeout(() => {
+          this.copyButton.innerHTML = icons.copy;
+          this.copyButton.classList.remove('is-copied');
+        }, COPIED_FEEDBACK_MS);
+      })
+      .catch((error) => console.warn('[CodeBlock] Could not copy code:', error));
+  }
+
+  update(node: ProseMirrorNode): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  /** The header and gutter are ours; only the code is edited through ProseMirror */
+  stopEvent(event: Event): boolean {
+    return this.header.contains(event.target as Node);
+  }
+
+  ignoreMutation(mutation: MutationRecord | { type: 'selection'; target: Node }): boolean {
+    if (mutation.type === 'selection') return false;
+    return !this.contentDOM.contains(mutation.target);
+  }
+
+  destroy(): void {
+    if (this.copiedTimer) clearTimeout(this.copiedTimer);
+  }
+}
+
+export const CodeBlock = CodeBlockLowlight.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      lineNumbers: {
+        default: false,
+        parseHTML: (element) => element.hasAttribute('data-line-numbers'),
+        renderHTML: (attributes) => (attributes.lineNumbers ? { 'data-line-numbers': '' } : {}),
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, editor, getPos, HTMLAttributes }) =>
+      new CodeBlockView(node, editor, getPos as () => number | undefined, HTMLAttributes);
+  },
+});
@@ -0,0 +1,232 @@
+// @vitest-environment jsdom
+import { spawn, type ChildProcess } from 'node:child_process';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ContentEditor } from './Editor';
+import { createTestEditor } from '../test/createTestEditor';
+import {
+  BroadcastChannelProvider,
+  WebSocketProvider,
+  type CollaborationMessage,
+  type CollaborationProvider,
+  type CollaborationProviderStatus,
+} from '../utils/collaborationProviders';
+
+const SYNC_TIMEOUT = { timeout: 4000 };
+
+function createEditor(content: string): ContentEditor {
+  return createTestEditor({ content });
+}
+
+async function join(editor: ContentEditor, provider: CollaborationProvider, name: string): Promise<void> {
+  const session = editor.startCollaboration({ provider, user: { name, color: '#0090ff' } });
+  await vi.waitFor(() => expect(session.getStatus()).toBe('connected'), SYNC_TIMEOUT);
+}
+
+function insertText(editor: ContentEditor, pos: number, text: string): void {
+  editor.getTipTapEditor().commands.insertContentAt(pos, text);
+}
+
+function endOfText(editor: ContentEditor): number {
+  return editor.getTipTapEditor().state.doc.content.size - 1;
+}
+
+async function expectText(text: string, ...peers: ContentEditor[]): Promise<void> {
+  await vi.waitFor(() => peers.forEach((editor) => expect(editor.getText()).toBe(text)), SYNC_TIMEOUT);
+}
+
+function createRoom(): string {
+  return `test-${Math.random().toString(36).slice(2)}`;
+}
+
+/** In-memory pair of providers whose connection can be dropped */
+class LinkedProvider implements CollaborationProvider {
+  peer: LinkedProvider | null = null;
+  private messageHandlers = new Set<(message: CollaborationMessage) => void>();
+  private statusHandlers = new Set<(status: CollaborationProviderStatus) => void>();
+  private status: CollaborationProviderStatus = 'connected';
+
+  static pair(): [LinkedProvider, LinkedProvider] {
+    const a = new LinkedProvider();
+    const b = new LinkedProvider();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  setOnline(online: boolean): void {
+    [this, this.peer!].forEach((provider) => {
+      provider.status = online ? 'connected' : 'disconnected';
+      provider.statusHandlers.forEach((handler) => handler(provider.status));
+    });
+  }
+
+  send(message: CollaborationMessage): void {
+    if (this.status !== 'connected') return;
+    const data = JSON.stringify(message);
+    setTimeout(() => this.peer?.messageHandlers.forEach((handler) => handler(JSON.parse(data))), 0);
+  }
+
+  onMessage(handler: (message: CollaborationMessage) => void): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  onStatusChange(handler: (status: CollaborationProviderStatus) => void): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  getStatus(): CollaborationProviderStatus {
+    return this.status;
+  }
+
+  destroy(): void {
+    this.status = 'disconnected';
+  }
+}
+
+describe('Collaboration over a BroadcastChannel', () => {
+  it('loads the room\'s document in editors that join later', async () => {
+    const room = createRoom();
+    const a = createEditor('<p>Hello</p>');
+    await join(a, new BroadcastChannelProvider(room), 'Ada');
+    const b = createEditor('<p>Other content</p>');
+    await join(b, new BroadcastChannelProvider(room), 'Bo');
+
+    await expectText('Hello', a, b);
+    expect(b.getCollaboration()?.isShared()).toBe(true);
+    await vi.waitFor(() => expect(a.getCollaboration()?.getCollaborators().map((c) => c.user.name)).toEqual(['Bo']), SYNC_TIMEOUT);
+  });
+
+  it('merges concurrent edits', async () => {
+    const room = createRoom();
+    const a = createEditor('<p>Hello</p>');
+    await join(a, new BroadcastChannelProvider(room), 'Ada');
+    const b = createEditor('');
+    await join(b, new BroadcastChannelProvider(room), 'Bo');
+    await expectText('Hello', a, b);
+
+    insertText(a, 1, 'A ');
+    insertText(b, endOfText(b), ' B');
+
+    await expectText('A Hello B', a, b);
+  });
+
+  it('only undoes the user\'s own edits', async () => {
+    const room = createRoom();
+    const a = createEditor('<p>Hello</p>');
+    await join(a, new BroadcastChannelProvider(room), 'Ada');
+    const b = createEditor('');
+    await join(b, new BroadcastChannelProvider(room), 'Bo');
+    await expectText('Hello', a, b);
+
+    insertText(a, endOfText(a), ' A');
+    insertText(b, 1, 'B ');
+    await expectText('B Hello A', a, b);
+    expect(a.canUndo()).toBe(true);
+    a.undo({ focus: false });
+
+    await expectText('B Hello', a, b);
+  });
+});
+
+describe('Collaboration in an empty room', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one editor\'s content when two join at once', async () => {
+    vi.useFakeTimers();
+    const [providerA, providerB] = LinkedProvider.pair();
+    const a = createEditor('<p>First</p>');
+    const b = createEditor('<p>Second</p>');
+    a.startCollaboration({ provider: providerA, user: { name: 'Ada', color: '#0090ff' } });
+    b.startCollaboration({ provider: providerB, user: { name: 'Bo', color: '#0090ff' } });
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(a.getText()).toBe(b.getText());
+    expect(['First', 'Second']).toContain(a.getText());
+  });
+});
+
+describe('Collaboration while offline', () => {
+  it('merges the edits made on both sides once reconnected', async () => {
+    const [providerA, providerB] = LinkedProvider.pair();
+    const a = createEditor('<p>Hello</p>');
+    const b = createEditor('');
+    await join(a, providerA, 'Ada');
+    await join(b, providerB, 'Bo');
+    await expectText('Hello', a, b);
+
+    providerA.setOnline(false);
+    insertText(a, 1, 'A ');
+    insertText(b, endOfText(b), ' B');
+    expect(b.getCollaboration()?.getStatus()).toBe('disconnected');
+    expect(a.getText()).toBe('A Hello');
+    expect(b.getText()).toBe('Hello B');
+
+    providerA.setOnline(true);
+    await expectText('A Hello B', a, b);
+  });
+});
+
+describe('Collaboration through the WebSocket relay', () => {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const serverUrl = `ws://localhost:${port}`;
+  let relay: ChildProcess;
+
+  beforeAll(async () => {
+    const script = resolve(dirname(fileURLToPath(import.meta.url)), '../../scripts/collab-relay.mjs');
+    relay = spawn(process.execPath, [script, '--port', String(port)]);
+    await new Promise<void>((resolve, reject) => {
+      relay.stdout?.on('data', (chunk) => {
+        if (String(chunk).includes('listening')) resolve();
+      });
+      relay.on('error', reject);
+      relay.on('exit', (code) => reject(new Error(`Relay exited with ${code}`)));
+    });
+  });
+
+  afterAll(() => {
+    relay?.kill();
+  });
+
+  it('syncs editors of the same room', async () => {
+    const room = createRoom();
+    const a = createEditor('<p>Hello</p>');
+    await join(a, new WebSocketProvider(serverUrl, room), 'Ada');
+    const b = createEditor('');
+    await join(b, new WebSocketProvider(serverUrl, room), 'Bo');
+    const other = createEditor('<p>Elsewhere</p>');
+    await join(other, new WebSocketProvider(serverUrl, createRoom()), 'Cy');
+    await expectText('Hello', a, b);
+
+    insertText(a, 1, 'A ');
+    insertText(b, endOfText(b), ' B');
+
+    await expectText('A Hello B', a, b);
+    expect(other.getText()).toBe('Elsewhere');
+  });
+
+  it('keeps only the last messages sent before the socket opens', async () => {
+    const room = createRoom();
+    const receiver = new WebSocketProvider(serverUrl, room);
+    const received: string[] = [];
+    receiver.onMessage((message) => {
+      if (message.type === 'update') received.push(message.update);
+    });
+    await vi.waitFor(() => expect(receiver.getStatus()).toBe('connected'), SYNC_TIMEOUT);
+
+    const sender = new WebSocketProvider(serverUrl, room);
+    for (let i = 0; i < 150; i++) sender.send({ type: 'update', from: 1, update: String(i) });
+
+    await vi.waitFor(() => expect(received).toHaveLength(100), SYNC_TIMEOUT);
+    expect(received[0]).toBe('50');
+    expect(received[99]).toBe('149');
+    sender.destroy();
+    receiver.destroy();
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Collaboration - real-time shared editing over a CollaborationProvider.
+ *
+ * Built on Yjs (a CRDT) through y-prosemirror:
+ * - Every peer keeps the document as a Y.Doc and sends its edits as Yjs updates; updates merge in any
+ *   order, so no peer orders the others' changes and the session doesn't depend on any one editor
+ * - Joining and reconnecting exchange state vectors with the room, so each side receives what it is
+ *   missing: edits made while offline merge with everyone else's
+ * - The first editor in an empty room shares its content; later editors load the room's document
+ * - While joined, undo / redo come from Yjs and only take back this user's own edits
+ * - Remote cursors and selections are drawn with each user's name and color (Yjs awareness)
+ */
+
+import { Editor as TipTapEditor } from '@tiptap/core';
+import { Plugin, PluginKey, Transaction } from '@tiptap/pm/state';
+import { keydownHandler } from '@tiptap/pm/keymap';
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import {
+  defaultDeleteFilter,
+  defaultProtectedNodes,
+  prosemirrorToYXmlFragment,
+  yCursorPlugin,
+  yCursorPluginKey,
+  ySyncPlugin,
+  ySyncPluginKey,
+} from 'y-prosemirror';
+import type {
+  CollaborationMessage,
+  CollaborationProvider,
+  CollaborationProviderStatus,
+  CollaborationUser,
+} from '../utils/collaborationProviders';
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollaborationOptions {
+  provider: CollaborationProvider;
+  user: CollaborationUser;
+  /** Status or the list of collaborators changed */
+  onChange?: (session: CollaborationSession) => void;
+}
+
+export interface Collaborator {
+  clientID: number;
+  user: CollaborationUser;
+}
+
+interface AwarenessChanges {
+  added: number[];
+  updated: number[];
+  removed: number[];
+}
+
+/** Meta y-prosemirror sets on the transactions it dispatches */
+interface SyncMeta {
+  isChangeOrigin?: boolean;
+  isUndoRedoOperation?: boolean;
+}
+
+const collaborationKeymapPluginKey = new PluginKey('collaborationKeymap');
+
+/** prosemirror-history's plugin; set aside while joined, when Yjs keeps the undo history */
+const HISTORY_PLUGIN_KEY = 'history$';
+
+/** Wait for the room's document before sharing this editor's content */
+const JOIN_TIMEOUT_MS = 800;
+
+/** Cursor colors for users without one */
+const COLLABORATOR_COLORS = ['#e5484d', '#f76b15', '#ffc53d', '#30a46c', '#12a594', '#0090ff', '#6e56cf', '#d6409f'];
+
+/** Stable color for a user name (same name, same color in every tab) */
+export function pickCollaboratorColor(seed: string): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * True for transactions that bring the editor in line with the shared document (other peers' edits,
+ * the room's document, undo / redo while joined); they must never be filtered or changed
+ */
+export function isCollaborationChange(tr: Transaction): boolean {
+  return (tr.getMeta(ySyncPluginKey) as SyncMeta | undefined)?.isChangeOrigin === true;
+}
+
+/** True for other peers' edits and the room's document loaded when joining */
+export function isRemoteChange(tr: Transaction): boolean {
+  const meta = tr.getMeta(ySyncPluginKey) as SyncMeta | undefined;
+  return meta?.isChangeOrigin === true && !meta.isUndoRedoOperation;
+}
+
+function isHistoryPlugin(plugin: Plugin): boolean {
+  return (plugin as unknown as { key: string }).key === HISTORY_PLUGIN_KEY;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function createCursorWidget(user: CollaborationUser): HTMLElement {
+  const caret = document.createElement('span');
+  caret.className = 'collaboration-cursor';
+  caret.style.borderColor = user.color;
+  const label = document.createElement('span');
+  label.className = 'collaboration-cursor-label';
+  label.style.backgroundColor = user.color;
+  label.textContent = user.name;
+  caret.appendChild(label);
+  return caret;
+}
+
+function createSelectionAttrs(user: CollaborationUser): { class: string; style: string } {
+  return {
+    class: 'collaboration-selection',
+    style: `background-color: color-mix(in srgb, ${user.color} 25%, transparent);`,
+  };
+}
+
+export class CollaborationSession {
+  readonly clientID: number;
+  private editor: TipTapEditor;
+  private provider: CollaborationProvider;
+  private user: CollaborationUser;
+  private onChange?: (session: CollaborationSession) => void;
+  private status: CollaborationStatus = 'connecting';
+  private doc = new Y.Doc();
+  private fragment = this.doc.getXmlFragment('prosemirror');
+  private awareness = new Awareness(this.doc);
+  private undoManager: Y.UndoManager;
+  /** Plugins registered: the editor shows the shared document */
+  private joined = false;
+  /** The document came from the room rather than from this editor */
+  private loadedFromRoom = false;
+  /** Peers that asked for the document while this one was joining (with an empty room, the lowest id shares first) */
+  private joiningPeers = new Set<number>();
+  private historyPlugin: Plugin | null = null;
+  private collaboratorsKey = '';
+  private joinTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(editor: TipTapEditor, options: CollaborationOptions) {
+    this.editor = editor;
+    this.provider = options.provider;
+    this.user = options.user;
+    this.onChange = options.onChange;
+    this.clientID = this.doc.clientID;
+    // Only local edits made in the editor (not loading the room, not other peers, not addToHistory: false)
+    this.undoManager = new Y.UndoManager(this.fragment, {
+      trackedOrigins: new Set([ySyncPluginKey]),
+      captureTransaction: (tr) => tr.meta.get('addToHistory') !== false,
+      deleteFilter: (item) => defaultDeleteFilter(item, defaultProtectedNodes),
+    });
+  }
+
+  start(): void {
+    this.awareness.setLocalStateField('user', this.user);
+
+    const onDocUpdate = (update: Uint8Array, origin: unknown) => {
+      // Other peers' updates reach everyone from their author
+      if (origin !== this) this.send({ type: 'update', from: this.clientID, update: toBase64(update) });
+    };
+    this.doc.on('update', onDocUpdate);
+    this.unsubscribers.push(() => this.doc.off('update', onDocUpdate));
+
+    const onAwarenessUpdate = ({ added, updated, removed }: AwarenessChanges) => {
+      if ([...added, ...updated, ...removed].includes(this.clientID)) this.sendAwareness();
+    };
+    this.awareness.on('update', onAwarenessUpdate);
+    this.unsubscribers.push(() => this.awareness.off('update', onAwarenessUpdate));
+
+    const onAwarenessChange = () => this.notifyCollaborators();
+    this.awareness.on('change', onAwarenessChange);
+    this.unsubscribers.push(() => this.awareness.off('change', onAwarenessChange));
+
+    this.unsubscribers.push(this.provider.onMessage((message) => this.handleMessage(message)));
+    this.unsubscribers.push(this.provider.onStatusChange((status) => this.handleProviderStatus(status)));
+
+    const onPageHide = () => removeAwarenessStates(this.awareness, [this.clientID], 'pagehide');
+    window.addEventListener('pagehide', onPageHide);
+    this.unsubscribers.push(() => window.removeEventListener('pagehide', onPageHide));
+
+    if (this.provider.getStatus() === 'connected') {
+      this.join();
+    }
+  }
+
+  getStatus(): CollaborationStatus {
+    return this.status;
+  }
+
+  /** True once other peers share the document (content must then only change through edits) */
+  isShared(): boolean {
+    return this.joined && (this.loadedFromRoom || this.getCollaborators().length > 0);
+  }
+
+  /** True once the editor shows the shared document; undo / redo then go through the session */
+  isJoined(): boolean {
+    return this.joined;
+  }
+
+  /** Other users in the session (that have sent their presence) */
+  getCollaborators(): Collaborator[] {
+    const collaborators: Collaborator[] = [];
+    this.awareness.getStates().forEach((state, clientID) => {
+      const user = state.user as CollaborationUser | undefined;
+      if (clientID !== this.clientID && user) collaborators.push({ clientID, user });
+    });
+    return collaborators;
+  }
+
+  setUser(user: CollaborationUser): void {
+    if (user.name === this.user.name && user.color === this.user.color) return;
+    this.user = user;
+    this.awareness.setLocalStateField('user', user);
+  }
+
+  /** Take back this user's last edit; false when there is none */
+  undo(): boolean {
+    return this.undoManager.undo() !== null;
+  }
+
+  redo(): boolean {
+    return this.undoManager.redo() !== null;
+  }
+
+  /** The next edit starts a new undo step instead of joining the last one */
+  stopCapturing(): void {
+    this.undoManager.stopCapturing();
+  }
+
+  canUndo(): boolean {
+    return this.undoManager.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.undoManager.canRedo();
+  }
+
+  destroy(): void {
+    if (this.joinTimer) clearTimeout(this.joinTimer);
+    // Tell the others this user left before the handlers go away
+    removeAwarenessStates(this.awareness, [this.clientID], 'destroy');
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.joined && !this.editor.isDestroyed) {
+      this.editor.unregisterPlugin([ySyncPluginKey, yCursorPluginKey, collaborationKeymapPluginKey]);
+      if (this.historyPlugin) this.editor.registerPlugin(this.historyPlugin);
+    }
+    this.undoManager.destroy();
+    this.awareness.destroy();
+    this.doc.destroy();
+    this.provider.destroy();
+  }
+
+  // Joining
+
+  /** Exchange state vectors with the room; until joined, wait for the room's document before sharing this one */
+  private join(): void {
+    this.requestSync();
+    this.sendAwareness();
+    if (this.joined) {
+      this.setStatus('connected');
+      return;
+    }
+    this.setStatus('connecting');
+    if (this.joinTimer) clearTimeout(this.joinTimer);
+    this.joinTimer = setTimeout(() => {
+      this.joinTimer = null;
+      if (this.joined || this.provider.getStatus() !== 'connected') return;
+      // Nobody sent a document: of the editors joining at the same time, the lowest id shares its content
+      if (this.fragment.length > 0 || Math.min(this.clientID, ...this.joiningPeers) === this.clientID) {
+        this.finishJoin();
+      } else {
+        this.joiningPeers.clear();
+        this.join();
+      }
+    }, JOIN_TIMEOUT_MS);
+  }
+
+  /** Show the shared document in the editor; an empty room gets this editor's content */
+  private finishJoin(): void {
+    if (this.joinTimer) {
+      clearTimeout(this.joinTimer);
+      this.joinTimer = null;
+    }
+    this.joined = true;
+    this.joiningPeers.clear();
+    if (this.fragment.length === 0) {
+      this.doc.transact(() => prosemirrorToYXmlFragment(this.editor.state.doc, this.fragment));
+    } else {
+      this.loadedFromRoom = true;
+    }
+
+    const keymapPlugin = new Plugin({
+      key: collaborationKeymapPluginKey,
+      props: {
+        handleKeyDown: keydownHandler({
+          'Mod-z': () => this.undo(),
+          'Shift-Mod-z': () => this.redo(),
+          'Mod-y': () => this.redo(),
+        }),
+      },
+    });
+    const plugins = [
+      ySyncPlugin(this.fragment),
+      yCursorPlugin(this.awareness, { cursorBuilder: createCursorWidget, selectionBuilder: createSelectionAttrs }),
+      keymapPlugin,
+    ];
+    // One reconfiguration; the sync plugin replaces the content with the shared document right away
+    this.historyPlugin = this.editor.state.plugins.find(isHistoryPlugin) ?? null;
+    this.editor.registerPlugin(plugins[0], (_plugin, current) => [
+      ...current.filter((plugin) => !isHistoryPlugin(plugin)),
+      ...plugins,
+    ]);
+    this.setStatus('connected');
+  }
+
+  // Messages
+
+  private handleMessage(message: CollaborationMessage): void {
+    if (message.from === this.clientID || (message.to !== undefined && message.to !== this.clientID)) return;
+
+    switch (message.type) {
+      case 'sync-request': {
+        const stateVector = fromBase64(message.stateVector);
+        this.send({
+          type: 'sync-reply',
+          from: this.clientID,
+          to: message.from,
+          update: toBase64(Y.encodeStateAsUpdate(this.doc, stateVector)),
+        });
+        if (message.to === undefined) {
+          // A peer (re)joined: ask back for what it has that this one is missing, e.g. edits made offline
+          this.requestSync(message.from);
+          this.sendAwareness();
+          if (!this.joined) this.joiningPeers.add(message.from);
+        }
+        break;
+      }
+      case 'sync-reply':
+      case 'update':
+        Y.applyUpdate(this.doc, fromBase64(message.update), this);
+        if (!this.joined && this.fragment.length > 0) this.finishJoin();
+        break;
+      case 'awareness':
+        applyAwarenessUpdate(this.awareness, fromBase64(message.update), this);
+        break;
+    }
+  }
+
+  private handleProviderStatus(status: CollaborationProviderStatus): void {
+    if (status === 'connected') {
+      // (Re)connected: sync both ways, which also sends the edits made while offline
+      this.join();
+    } else if (status === 'disconnected') {
+      this.setStatus('disconnected');
+    }
+  }
+
+  private requestSync(to?: number): void {
+    this.send({ type: 'sync-request', from: this.clientID, to, stateVector: toBase64(Y.encodeStateVector(this.doc)) });
+  }
+
+  private sendAwareness(): void {
+    this.send({ type: 'awareness', from: this.clientID, update: toBase64(encodeAwarenessUpdate(this.awareness, [this.clientID])) });
+  }
+
+  /** Nothing is sent while disconnected: the sync after reconnecting carries everything that was missed */
+  private send(message: CollaborationMessage): void {
+    if (this.provider.getStatus() === 'connected') this.provider.send(message);
+  }
+
+  private setStatus(status: CollaborationStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.notify();
+  }
+
+  /** Cursor moves also change the awareness states; only a changed list of users is reported */
+  private notifyCollaborators(): void {
+    const key = JSON.stringify(this.getCollaborators().map((c) => [c.clientID, c.user.name, c.user.color]));
+    if (key === this.collaboratorsKey) return;
+    this.collaboratorsKey = key;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.onChange?.(this);
+  }
+}
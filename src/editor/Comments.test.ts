@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+
+describe('Comments', () => {
+  it('keeps the commented text marked when undoing', () => {
+    const ed = createTestEditor({ content: '<p>Hello world</p>' });
+    ed.getTipTapEditor().commands.setTextSelection({ from: 1, to: 6 });
+    const thread = ed.addComment('Nice', { focus: false });
+    ed.undo({ focus: false });
+
+    expect(ed.getComments()).toMatchObject([{ id: thread?.id, quote: 'Hello' }]);
+  });
+
+  it('does not bring back the mark of a deleted thread', () => {
+    const ed = createTestEditor({ content: '<p>Hello world</p>' });
+    ed.getTipTapEditor().commands.setTextSelection({ from: 1, to: 6 });
+    const thread = ed.addComment('Nice', { focus: false });
+    ed.deleteComment(thread!.id);
+    ed.undo({ focus: false });
+
+    expect(ed.getComments()).toEqual([]);
+    expect(ed.getHTML()).not.toContain('data-comment-id');
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Comments Extension
+ *
+ * Review comments anchored to text ranges:
+ * - A comment mark stores the thread id on the commented text (threads may overlap)
+ * - The threads (author, text, replies, resolved flag) live in plugin state next to the document;
+ *   changing them is not an undoable edit, and neither is adding or removing a thread's mark, so
+ *   undo never leaves a thread without its text highlighted or a mark without its thread
+ * - Commented text is highlighted with decorations (not in the stored HTML); the thread at the cursor is
+ *   emphasized and resolved threads are not highlighted
+ *
+ * Stored HTML: <span data-comment-id="c-lx2k9a-4f7q" class="editor-comment">commented text</span>
+ */
+
+import { Mark, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey, EditorState, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { CommentThread, CommentReply } from '../utils/comments';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    comment: {
+      /**
+       * Comment on the selected text with a new thread
+       */
+      addCommentThread: (thread: CommentThread) => ReturnType;
+      /**
+       * Add a reply to a thread
+       */
+      replyToCommentThread: (threadId: string, reply: CommentReply) => ReturnType;
+      /**
+       * Resolve or reopen a thread
+       */
+      setCommentThreadResolved: (threadId: string, resolved: boolean) => ReturnType;
+      /**
+       * Delete a thread and remove its mark from the text
+       */
+      removeCommentThread: (threadId: string) => ReturnType;
+      /**
+       * Replace all threads (e.g. loaded from Bubble); the marks in the text are not changed
+       */
+      setCommentThreads: (threads: CommentThread[]) => ReturnType;
+    };
+  }
+}
+
+export interface CommentOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+interface CommentsState {
+  threads: CommentThread[];
+  /** Thread of the comment at the cursor */
+  activeThreadId: string | null;
+  decorations: DecorationSet;
+}
+
+interface CommentsMeta {
+  threads: CommentThread[];
+}
+
+const commentsPluginKey = new PluginKey<CommentsState>('comments');
+
+/** Thread ids of the comment marks on a node */
+function threadIdsOf(node: ProseMirrorNode | null | undefined): string[] {
+  if (!node) return [];
+  return node.marks.filter((mark) => mark.type.name === 'comment').map((mark) => mark.attrs.threadId as string);
+}
+
+function findActiveThreadId(state: EditorState, threads: CommentThread[]): string | null {
+  const { $from } = state.selection;
+  const ids = [...threadIdsOf($from.nodeAfter), ...threadIdsOf($from.nodeBefore)];
+  const open = ids.find((id) => threads.some((t) => t.id === id && !t.resolved));
+  return open ?? null;
+}
+
+function buildDecorations(doc: ProseMirrorNode, threads: CommentThread[], activeThreadId: string | null): DecorationSet {
+  const resolved = new Set(threads.filter((t) => t.resolved).map((t) => t.id));
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    const ids = threadIdsOf(node);
+    if (!ids.length) return;
+    // Resolved threads are not highlighted
+    if (ids.every((id) => resolved.has(id))) return;
+    const active = activeThreadId !== null && ids.includes(activeThreadId);
+    decorations.push(Decoration.inline(pos, pos + node.nodeSize, {
+      class: active ? 'editor-comment-highlight is-active' : 'editor-comment-highlight',
+    }));
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/** Threads in document state (empty before the extension is set up) */
+export function getCommentThreads(state: EditorState): CommentThread[] {
+  return commentsPluginKey.getState(state)?.threads ?? [];
+}
+
+export function getActiveCommentThreadId(state: EditorState): string | null {
+  return commentsPluginKey.getState(state)?.activeThreadId ?? null;
+}
+
+/** Commented text per thread id, in document order */
+export function getCommentQuotes(doc: ProseMirrorNode): Map<string, string> {
+  const quotes = new Map<string, string>();
+  doc.descendants((node) => {
+    if (!node.isText) return;
+    threadIdsOf(node).forEach((id) => quotes.set(id, (quotes.get(id) ?? '') + node.text));
+  });
+  return quotes;
+}
+
+/** Range covering every piece of a thread's text, or null when the text is gone */
+export function getCommentRange(doc: ProseMirrorNode, threadId: string): { from: number; to: number } | null {
+  let from = -1;
+  let to = -1;
+  doc.descendants((node, pos) => {
+    if (!node.isText || !threadIdsOf(node).includes(threadId)) return;
+    if (from === -1) from = pos;
+    to = pos + node.nodeSize;
+  });
+  return from === -1 ? null : { from, to };
+}
+
+function setThreads(tr: Transaction, threads: CommentThread[]): Transaction {
+  const meta: CommentsMeta = { threads };
+  return tr.setMeta(commentsPluginKey, meta);
+}
+
+function updateThread(state: EditorState, threadId: string, update: (thread: CommentThread) => CommentThread): CommentThread[] | null {
+  const threads = getCommentThreads(state);
+  if (!threads.some((t) => t.id === threadId)) return null;
+  return threads.map((t) => (t.id === threadId ? update(t) : t));
+}
+
+export const Comment = Mark.create<CommentOptions>({
+  name: 'comment',
+
+  inclusive: false,
+
+  // Different threads may cover the same text
+  excludes: '',
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'editor-comment',
+      },
+    };
+  },
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-comment-id'),
+        renderHTML: (attributes) => ({ 'data-comment-id': attributes.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-comment-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      addCommentThread:
+        (thread) =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection;
+          if (empty) return false;
+          if (dispatch) {
+            tr.addMark(from, to, this.type.create({ threadId: thread.id }));
+            setThreads(tr, [...getCommentThreads(state), thread]).setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      replyToCommentThread:
+        (threadId, reply) =>
+        ({ state, tr, dispatch }) => {
+          const threads = updateThread(state, threadId, (t) => ({ ...t, replies: [...t.replies, reply] }));
+          if (!threads) return false;
+          if (dispatch) setThreads(tr, threads).setMeta('addToHistory', false);
+          return true;
+        },
+      setCommentThreadResolved:
+        (threadId, resolved) =>
+        ({ state, tr, dispatch }) => {
+          const threads = updateThread(state, threadId, (t) => ({ ...t, resolved }));
+          if (!threads) return false;
+          if (dispatch) setThreads(tr, threads).setMeta('addToHistory', false);
+          return true;
+        },
+      removeCommentThread:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          if (dispatch) {
+            tr.removeMark(0, state.doc.content.size, this.type.create({ threadId }));
+            setThreads(tr, getCommentThreads(state).filter((t) => t.id !== threadId)).setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      setCommentThreads:
+        (threads) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) setThreads(tr, threads).setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentsState>({
+        key: commentsPluginKey,
+        state: {
+          init: (_, state) => ({
+            threads: [],
+            activeThreadId: null,
+            decorations: buildDecorations(state.doc, [], null),
+          }),
+          apply: (tr, prev, _oldState, newState) => {
+            const meta = tr.getMeta(commentsPluginKey) as CommentsMeta | undefined;
+            const threads = meta ? meta.threads : prev.threads;
+            const activeThreadId = findActiveThreadId(newState, threads);
+            if (!meta && !tr.docChanged && activeThreadId === prev.activeThreadId) return prev;
+            return {
+              threads,
+              activeThreadId,
+              decorations: buildDecorations(newState.doc, threads, activeThreadId),
+            };
+          },
+        },
+        props: {
+          decorations: (state) => commentsPluginKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
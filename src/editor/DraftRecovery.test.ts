@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentEditor } from './Editor';
+import { DraftRecovery } from './DraftRecovery';
+import { loadDraft, saveDraft } from '../utils/drafts';
+
+let editor: ContentEditor | null = null;
+let drafts: DraftRecovery | null = null;
+let key = 'thing-a';
+
+function setup(content: string): { ed: ContentEditor; recovery: DraftRecovery } {
+  const element = document.createElement('div');
+  document.body.appendChild(element);
+  editor = new ContentEditor({ element, content });
+  drafts = new DraftRecovery({ editor, container: element, getKey: () => key });
+  drafts.markSaved();
+  drafts.check();
+  return { ed: editor, recovery: drafts };
+}
+
+function type(ed: ContentEditor, text: string): void {
+  ed.getTipTapEditor().commands.insertContentAt(1, text);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  localStorage.clear();
+  key = 'thing-a';
+});
+
+afterEach(() => {
+  drafts?.destroy();
+  editor?.destroy();
+  drafts = null;
+  editor = null;
+  document.body.innerHTML = '';
+  vi.useRealTimers();
+});
+
+describe('DraftRecovery', () => {
+  it('saves edits under the key they were made with', () => {
+    const { ed, recovery } = setup('<p>Thing A</p>');
+    type(ed, 'Edited ');
+    key = 'thing-b';
+    vi.advanceTimersByTime(1500);
+
+    expect(loadDraft('thing-a')?.html).toContain('Edited Thing A');
+    expect(loadDraft('thing-b')).toBeNull();
+
+    recovery.check();
+    expect(recovery.isRecoverable()).toBe(false);
+  });
+
+  it('flushes pending edits under the old key when the key changes', () => {
+    const { ed, recovery } = setup('<p>Thing A</p>');
+    type(ed, 'Edited ');
+    key = 'thing-b';
+    recovery.check();
+
+    expect(loadDraft('thing-a')?.html).toContain('Edited Thing A');
+    expect(loadDraft('thing-b')).toBeNull();
+  });
+
+  it('offers a draft of the loaded content', () => {
+    const { ed } = setup('<p>Saved</p>');
+    type(ed, 'Edited ');
+    vi.advanceTimersByTime(1500);
+    drafts?.destroy();
+    editor?.destroy();
+
+    const { recovery } = setup('<p>Saved</p>');
+    expect(recovery.isRecoverable()).toBe(true);
+  });
+
+  it('does not offer a draft of content that was saved again since', () => {
+    const { ed } = setup('<p>Saved</p>');
+    type(ed, 'Edited ');
+    vi.advanceTimersByTime(1500);
+    drafts?.destroy();
+    editor?.destroy();
+
+    const { recovery } = setup('<p>Saved later on another device</p>');
+    expect(recovery.isRecoverable()).toBe(false);
+  });
+
+  it('does not offer drafts made from other content', () => {
+    saveDraft('thing-a', '<p>Old draft</p>', '<p>Something else</p>');
+    const { recovery } = setup('<p>Saved</p>');
+    expect(recovery.isRecoverable()).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * DraftRecovery - keeps unsaved content in a local draft and offers to bring it back.
+ * While a draft key is set, edits are saved to the draft (debounced, and right away when the page is
+ * left), under the key that was set when the edit was made. A draft remembers which saved content it
+ * was edited from: when a draft of the loaded content differs from it, a banner above the content
+ * offers to restore or discard it; nothing is saved over the draft until one is chosen. Drafts of
+ * other content (saved again since, e.g. on another device) are not offered.
+ */
+
+import { ContentEditor } from './Editor';
+import { loadDraft, saveDraft, clearDraft, hashContent, DraftRecord } from '../utils/drafts';
+
+export interface DraftRecoveryConfig {
+  editor: ContentEditor;
+  /** Editor wrapper; the banner is placed at its top */
+  container: HTMLElement;
+  /** Draft key, read on every save and check (empty = no drafts) */
+  getKey: () => string;
+  /** A recoverable draft was found, or restored / discarded / cleared */
+  onRecoverableChange?: (recoverable: boolean) => void;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+export class DraftRecovery {
+  private editor: ContentEditor;
+  private getKey: () => string;
+  private onRecoverableChange?: (recoverable: boolean) => void;
+  private element: HTMLElement;
+  private messageLabel: HTMLElement;
+  /** Content Bubble has (the last loaded content); a draft equal to it is not needed */
+  private savedHtml = '';
+  /** Draft waiting for restore / discard */
+  private pending: DraftRecord | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Draft key when the scheduled save's edits were made */
+  private saveKey = '';
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: DraftRecoveryConfig) {
+    this.editor = config.editor;
+    this.getKey = config.getKey;
+    this.onRecoverableChange = config.onRecoverableChange;
+    this.element = this.createBanner();
+    this.messageLabel = this.element.querySelector('.editor-draft-message') as HTMLElement;
+    config.container.prepend(this.element);
+    this.bindEvents();
+
+    const tipTap = this.editor.getTipTapEditor();
+    const update = () => this.scheduleSave();
+    const flush = () => this.flush();
+    tipTap.on('update', update);
+    window.addEventListener('pagehide', flush);
+    window.addEventListener('beforeunload', flush);
+    this.unsubscribe = () => {
+      tipTap.off('update', update);
+      window.removeEventListener('pagehide', flush);
+      window.removeEventListener('beforeunload', flush);
+    };
+  }
+
+  private createBanner(): HTMLElement {
+    const banner = document.createElement('div');
+    banner.className = 'editor-draft-banner';
+    banner.setAttribute('role', 'alert');
+    banner.style.display = 'none';
+    banner.innerHTML = `
+      <span class="editor-draft-message"></span>
+      <button type="button" class="editor-draft-btn is-primary" data-draft-action="restore">Restore</button>
+      <button type="button" class="editor-draft-btn" data-draft-action="discard">Discard</button>
+    `;
+    return banner;
+  }
+
+  private bindEvents(): void {
+    this.element.addEventListener('click', (e) => {
+      const action = ((e.target as HTMLElement).closest('[data-draft-action]') as HTMLElement | null)?.dataset.draftAction;
+      if (action === 'restore') this.restore();
+      if (action === 'discard') this.discard();
+    });
+  }
+
+  /** The current content is what Bubble has (call after loading saved content, which needs no draft) */
+  markSaved(): void {
+    this.cancelSave();
+    this.savedHtml = this.editor.getHTML();
+  }
+
+  /**
+   * Offer the draft for the current key when it was edited from the loaded content and differs from
+   * the content; a draft equal to it is removed. Call when the key or the loaded content changes:
+   * edits still waiting to be saved go to the draft of the key they were made under first.
+   */
+  check(): void {
+    if (this.saveTimer) this.flush();
+    const key = this.getKey();
+    const draft = key ? loadDraft(key) : null;
+    if (draft && draft.html === this.editor.getHTML()) {
+      clearDraft(key);
+      this.setPending(null);
+      return;
+    }
+    this.setPending(draft && draft.baseHash === hashContent(this.savedHtml) ? draft : null);
+  }
+
+  isRecoverable(): boolean {
+    return this.pending !== null;
+  }
+
+  /** Load the pending draft into the editor (undoable) */
+  restore(): void {
+    if (!this.pending) return;
+    const { html } = this.pending;
+    this.setPending(null);
+    this.editor.setContent(html, { ignoreCharacterLimit: true });
+  }
+
+  /** Drop the pending draft and keep the loaded content */
+  discard(): void {
+    if (!this.pending) return;
+    this.clear();
+  }
+
+  /** Remove the stored draft, e.g. after the content was saved; the current content counts as saved */
+  clear(): void {
+    this.cancelSave();
+    const key = this.getKey();
+    if (key) clearDraft(key);
+    this.markSaved();
+    this.setPending(null);
+  }
+
+  private setPending(draft: DraftRecord | null): void {
+    const was = this.pending !== null;
+    this.pending = draft;
+    if (draft) {
+      const date = draft.savedAt ? new Date(draft.savedAt) : null;
+      const time = date && !isNaN(date.getTime()) ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+      this.messageLabel.textContent = time ? `Unsaved changes from ${time} were found.` : 'Unsaved changes were found.';
+    }
+    this.element.style.display = draft ? '' : 'none';
+    if (was !== (draft !== null)) this.onRecoverableChange?.(draft !== null);
+  }
+
+  private scheduleSave(): void {
+    this.cancelSave();
+    this.saveKey = this.getKey();
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+  }
+
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  /** Save the draft now (a draft that matches the saved content is removed instead) */
+  flush(): void {
+    const key = this.saveTimer ? this.saveKey : this.getKey();
+    this.cancelSave();
+    // Never overwrite a draft the user hasn't decided on yet
+    if (!key || this.pending) return;
+    const html = this.editor.getHTML();
+    if (html === this.savedHtml) {
+      clearDraft(key);
+    } else {
+      saveDraft(key, html, this.savedHtml);
+    }
+  }
+
+  destroy(): void {
+    this.flush();
+    this.unsubscribe?.();
+    this.element.remove();
+  }
+}
@@ -1,6 +1,30 @@
-import { Editor as TipTapEditor, JSONContent } from '@tiptap/core';
+import { Editor as TipTapEditor, JSONContent, createDocument } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { closeHistory } from '@tiptap/pm/history';
 import { createExtensions, ExtensionOptions } from './extensions';
+import type { ImageUploadHandler } from './ImageUpload';
+import { CHARACTER_LIMIT_BYPASS_META, CharacterLimitMode } from './CharacterLimit';
+import { getSearchResults, SearchOptions, SearchPanelMode, SearchResults } from './SearchReplace';
+import { getMentionedUserIds, getAddedMentionIds } from './Mention';
+import type { MentionUser } from '../utils/mentionUsers';
+import { fillMergeFields, MergeData } from '../utils/mergeFields';
+import { getCommentThreads, getActiveCommentThreadId, getCommentQuotes, getCommentRange } from './Comments';
+import { createCommentId, stripComments, CommentThread, CommentReply } from '../utils/comments';
+import { acceptSuggestions } from '../utils/suggestions';
+import { getSuggestions, isSuggesting, Suggestion, SUGGESTION_BYPASS_META } from './Suggestions';
+import { findTablePos, TableColumnAlign } from './TableTools';
+import { getSelectedImage, ImageAlign, ImageAttributes } from './Image';
+import { CollaborationSession, CollaborationOptions, isRemoteChange } from './Collaboration';
+import { serializeToMarkdown, markdownToHTML } from '../utils/markdown';
+import { sanitizeHtml, isAllowedUrl, SanitizeOptions } from '../utils/sanitizeHtml';
+import { cleanPastedHTML, PasteMode } from '../utils/pasteCleanup';
+import { prepareContentForLoad, wrapDocument, markHtmlVersion, DocumentEnvelope, PreparedContent } from '../utils/documentFormat';
+import { createSnapshotId, findSnapshot, DocumentSnapshot } from '../utils/snapshots';
+import { diffDocuments, DiffOptions } from '../utils/documentDiff';
 import { convertToEmailHTML, downloadEmailHTML, copyEmailHTMLToClipboard, EmailExportOptions } from '../utils/emailExport';
+import { analyzeEmail, PreflightIssue } from '../utils/emailPreflight';
+import { convertToEmailText, EmailTextOptions } from '../utils/emailText';
+import { getEmailOptionsFromElement } from '../utils/emailTheme';
 
 export interface EditorConfig {
   element: HTMLElement;
@@ -8,9 +32,47 @@ export interface EditorConfig {
   placeholder?: string;
   /** Dynamic placeholder getter (e.g. from Bubble properties) */
   getPlaceholder?: () => string;
-  content?: string | JSONContent;
+  /** HTML, JSON, a document envelope or a JSON string of either; older versions are migrated on load */
+  content?: string | JSONContent | DocumentEnvelope;
   editable?: boolean;
   characterLimit?: number;
+  /** Dynamic character limit getter (e.g. from Bubble properties); 0 = unlimited */
+  getCharacterLimit?: () => number;
+  /** What happens to pasted / set content that doesn't fit: cut it at the limit or refuse it */
+  getCharacterLimitMode?: () => CharacterLimitMode;
+  onCharacterLimitReached?: (editor: ContentEditor) => void;
+  /** Upload function for local image files; enables the file picker, paste and drop of images */
+  uploadImage?: ImageUploadHandler;
+  onImageUploaded?: (url: string, editor: ContentEditor) => void;
+  /** Sanitizer policy for loaded/pasted HTML and link URLs (read on every use so Bubble can change it); defaults to strict */
+  getSanitizeOptions?: () => SanitizeOptions;
+  /** What pasting rich content does, read on every paste; defaults to clean (Word / Google Docs HTML is normalized) */
+  getPasteMode?: () => PasteMode;
+  /** Hex colors that pasted text colors snap to when close, read on every paste */
+  getColorPalette?: () => string[];
+  /** Called whenever content is loaded, with the version it was stored in */
+  onContentLoaded?: (loaded: PreparedContent, editor: ContentEditor) => void;
+  /** Ids of the "/" menu commands to offer, read each time the menu opens (null = all, empty = menu off) */
+  getSlashCommands?: () => string[] | null;
+  /** Mod-F / Mod-H in the editor: open a find / replace UI */
+  onSearchRequested?: (mode: SearchPanelMode, editor: ContentEditor) => void;
+  /** Users offered by the "@" menu, read each time the menu opens (empty = no menu) */
+  getMentionUsers?: () => MentionUser[];
+  /** A user edit added mentions of users that weren't mentioned before (loading content doesn't count) */
+  onMentionsAdded?: (ids: string[], editor: ContentEditor) => void;
+  /** Field names offered by the "{{" merge field menu, read each time the menu opens */
+  getMergeFieldNames?: () => string[];
+  /** Author name for new comments and replies, read each time one is added */
+  getCommentAuthor?: () => string;
+  /** A comment thread was started, or a reply was added to one (comment is the thread itself or the reply) */
+  onCommentAdded?: (thread: CommentThread, comment: CommentReply, editor: ContentEditor) => void;
+  onCommentResolved?: (thread: CommentThread, editor: ContentEditor) => void;
+  /** Threads were added, replied to, resolved, reopened, deleted or replaced */
+  onCommentsChange?: (editor: ContentEditor) => void;
+  /** Author of new suggestions in suggesting mode, read for each edit */
+  getSuggestionAuthor?: () => string;
+  /** Snapshots were created, deleted or replaced */
+  onSnapshotsChange?: (editor: ContentEditor) => void;
   onUpdate?: (editor: ContentEditor) => void;
   onFocus?: (editor: ContentEditor) => void;
   onBlur?: (editor: ContentEditor) => void;
@@ -20,15 +82,31 @@ export interface EditorConfig {
 export interface EditorStats {
   wordCount: number;
   characterCount: number;
+  /** 0 when there is no limit */
+  characterLimit: number;
   isEmpty: boolean;
 }
 
+export interface SetContentOptions {
+  /** Load content even if it is longer than the character limit (e.g. existing saved content) */
+  ignoreCharacterLimit?: boolean;
+}
+
 /** When false, commands run without focusing the editor (e.g. when invoked from sidebar to avoid showing toolbar). */
 export type EditorCommandOptions = { focus?: boolean };
 
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type TextAlignment = 'left' | 'center' | 'right' | 'justify';
+
 export class ContentEditor {
   private editor: TipTapEditor;
   private config: EditorConfig;
+  private loadedVersion: number | null = null;
+  private collaboration: CollaborationSession | null = null;
+  private snapshots: DocumentSnapshot[] = [];
+  /** Set while pasteText runs so handlePaste lets it through */
+  private pastingPlainText = false;
 
   constructor(config: EditorConfig) {
     this.config = config;
@@ -37,15 +115,41 @@ export class ContentEditor {
       placeholder: config.placeholder,
       getPlaceholder: config.getPlaceholder,
       characterLimit: config.characterLimit,
+      getCharacterLimit: config.getCharacterLimit,
+      getCharacterLimitMode: config.getCharacterLimitMode,
+      onCharacterLimitReached: () => {
+        this.config.onCharacterLimitReached?.(this);
+      },
+      uploadImage: config.uploadImage,
+      onImageUploaded: (url) => {
+        this.config.onImageUploaded?.(url, this);
+      },
+      isAllowedUrl: (url) => isAllowedUrl(url, this.getSanitizeOptions()),
+      getSlashCommands: config.getSlashCommands,
+      onSearchRequested: config.onSearchRequested
+        ? (mode) => this.config.onSearchRequested?.(mode, this)
+        : undefined,
+      getMentionUsers: config.getMentionUsers,
+      getMergeFieldNames: config.getMergeFieldNames,
+      getSuggestionAuthor: config.getSuggestionAuthor,
     };
 
     this.editor = new TipTapEditor({
       element: config.element,
       extensions: createExtensions(extensionOptions),
-      content: config.content || '',
+      content: config.content ? this.prepareContent(config.content) : '',
       editable: config.editable !== false,
-      onUpdate: () => {
+      editorProps: {
+        transformPastedHTML: (html) => this.transformPastedHTML(html),
+        handlePaste: (_view, event) => this.handlePlainTextPaste(event),
+      },
+      onUpdate: ({ transaction }) => {
         this.config.onUpdate?.(this);
+        // Other collaborators' mentions are announced by their own editors
+        if (this.config.onMentionsAdded && !isRemoteChange(transaction)) {
+          const added = getAddedMentionIds(transaction.before, transaction.doc);
+          if (added.length) this.config.onMentionsAdded(added, this);
+        }
       },
       onFocus: () => {
         this.config.onFocus?.(this);
@@ -72,8 +176,100 @@ export class ContentEditor {
     return this.editor.getText();
   }
 
-  setContent(content: string | JSONContent): void {
-    this.editor.commands.setContent(content);
+  /** Migrates older stored versions, then sanitizes HTML before loading (never tracked as a suggestion) */
+  setContent(content: string | JSONContent | DocumentEnvelope, opts?: SetContentOptions): void {
+    const safeContent = this.prepareContent(content);
+    const chain = this.editor.chain().setMeta(SUGGESTION_BYPASS_META, true);
+    if (opts?.ignoreCharacterLimit) chain.setMeta(CHARACTER_LIMIT_BYPASS_META, true);
+    chain.setContent(safeContent).run();
+  }
+
+  getSanitizeOptions(): SanitizeOptions {
+    return this.config.getSanitizeOptions?.() ?? {};
+  }
+
+  getPasteMode(): PasteMode {
+    return this.config.getPasteMode?.() ?? 'clean';
+  }
+
+  private transformPastedHTML(html: string): string {
+    const cleaned = this.getPasteMode() === 'keep'
+      ? html
+      : cleanPastedHTML(html, { palette: this.config.getColorPalette?.() ?? [] });
+    return sanitizeHtml(cleaned, this.getSanitizeOptions());
+  }
+
+  /** In plain paste mode, clipboard text replaces the HTML (files and images still go to their own handlers) */
+  private handlePlainTextPaste(event: ClipboardEvent): boolean {
+    if (this.pastingPlainText || this.getPasteMode() !== 'plain') return false;
+    const text = event.clipboardData?.getData('text/plain');
+    if (!text) return false;
+    return this.insertPlainText(text, event);
+  }
+
+  /** Paste text as the browser would with Mod-Shift-V: paragraphs from blank lines, no formatting */
+  private insertPlainText(text: string, event?: ClipboardEvent): boolean {
+    this.pastingPlainText = true;
+    try {
+      return this.editor.view.pasteText(text, event);
+    } finally {
+      this.pastingPlainText = false;
+    }
+  }
+
+  /**
+   * Paste the clipboard's text without formatting. Reading the clipboard needs the user's permission
+   * (and a click or key press); resolves false when it is denied or empty.
+   */
+  async pasteAsPlainText(opts?: EditorCommandOptions): Promise<boolean> {
+    let text = '';
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (error) {
+      console.warn('[ContentEditor] Clipboard could not be read:', error);
+      return false;
+    }
+    if (!text || !this.editor.isEditable) return false;
+    if (opts?.focus !== false) this.editor.commands.focus();
+    return this.insertPlainText(text);
+  }
+
+  /** Current document in the versioned envelope used for stored JSON */
+  getDocumentJSON(): DocumentEnvelope {
+    return wrapDocument(this.getJSON());
+  }
+
+  /** Version of the last loaded content (null until content is loaded) */
+  getLoadedVersion(): number | null {
+    return this.loadedVersion;
+  }
+
+  /** Migrate to the current document version; HTML then goes through the sanitizer (JSON is constrained by the schema) */
+  private prepareContent(content: string | JSONContent | DocumentEnvelope): string | JSONContent {
+    const prepared = prepareContentForLoad(content);
+    this.loadedVersion = prepared.version;
+    this.config.onContentLoaded?.(prepared, this);
+    return typeof prepared.content === 'string'
+      ? sanitizeHtml(prepared.content, this.getSanitizeOptions())
+      : prepared.content;
+  }
+
+  /** Content as a document of this editor's schema, without loading it (same migrations and sanitizing as setContent) */
+  private toDocument(content: string | JSONContent | DocumentEnvelope): ProseMirrorNode {
+    const prepared = prepareContentForLoad(content);
+    const safe = typeof prepared.content === 'string'
+      ? sanitizeHtml(prepared.content, this.getSanitizeOptions())
+      : prepared.content;
+    return createDocument(safe, this.editor.schema);
+  }
+
+  getMarkdown(): string {
+    return serializeToMarkdown(this.editor.state.doc);
+  }
+
+  setMarkdown(markdown: string): void {
+    // Fresh HTML from markdown-it is already in the current format
+    this.setContent(markHtmlVersion(markdownToHTML(markdown)));
   }
 
   clearContent(): void {
@@ -90,10 +286,16 @@ export class ContentEditor {
     return {
       wordCount: storage?.words() || 0,
       characterCount: storage?.characters() || 0,
+      characterLimit: this.getCharacterLimit(),
       isEmpty: this.editor.isEmpty,
     };
   }
 
+  getCharacterLimit(): number {
+    const limit = this.config.getCharacterLimit?.() ?? this.config.characterLimit ?? 0;
+    return limit > 0 ? limit : 0;
+  }
+
   /** Force placeholder to re-render (e.g. after Bubble property change) */
   refreshPlaceholder(): void {
     this.editor.view.dispatch(this.editor.state.tr);
@@ -167,7 +369,13 @@ export class ContentEditor {
     chain.toggleCodeBlock().run();
   }
 
-  setHeading(level: 1 | 2 | 3, opts?: EditorCommandOptions): void {
+  setHeading(level: HeadingLevel, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setHeading({ level }).run();
+  }
+
+  /** Set the heading level, or turn the block back into a paragraph if it already has it */
+  toggleHeading(level: HeadingLevel, opts?: EditorCommandOptions): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
     chain.toggleHeading({ level }).run();
   }
@@ -177,12 +385,40 @@ export class ContentEditor {
     chain.setParagraph().run();
   }
 
+  setTextAlign(align: TextAlignment, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setTextAlign(align).run();
+  }
+
+  // Text color (Color extension on the textStyle mark; empty/transparent removes it)
+  setTextColor(color: string, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    const c = color.trim();
+    if (!c || c === 'transparent' || c === 'inherit') {
+      chain.unsetColor().run();
+    } else {
+      chain.setColor(c).run();
+    }
+  }
+
+  /** Remove marks and turn the selected blocks back into paragraphs */
+  clearFormatting(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.unsetAllMarks().clearNodes().run();
+  }
+
   // Link (openInNewTab sets target="_blank" and rel="noopener noreferrer" on the <a> tag)
   setLink(
     url: string,
     opts?: EditorCommandOptions & { openInNewTab?: boolean }
   ): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    // A selected image gets the link around it (the link mark only covers text)
+    if (this.getSelectedImage()) {
+      if (!isAllowedUrl(url, this.getSanitizeOptions())) return;
+      chain.setImageLink(url, opts?.openInNewTab ? '_blank' : null).run();
+      return;
+    }
     chain
       .setLink({
         href: url,
@@ -193,6 +429,8 @@ export class ContentEditor {
   }
 
   getLinkAttributes(): { href?: string; target?: string } | null {
+    const image = this.getSelectedImage();
+    if (image) return image.href ? { href: image.href, target: image.target ?? undefined } : null;
     if (!this.editor.isActive('link')) return null;
     return this.editor.getAttributes('link') as { href?: string; target?: string };
   }
@@ -206,6 +444,10 @@ export class ContentEditor {
 
   unsetLink(opts?: EditorCommandOptions): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    if (this.getSelectedImage()) {
+      chain.setImageLink(null).run();
+      return;
+    }
     chain.unsetLink().run();
   }
 
@@ -215,6 +457,55 @@ export class ContentEditor {
     chain.setImage({ src, alt }).run();
   }
 
+  /** Attributes of the selected image (null when the selection isn't an image) */
+  getSelectedImage(): ImageAttributes | null {
+    const image = getSelectedImage(this.editor.state);
+    return image ? (image.attrs as ImageAttributes) : null;
+  }
+
+  /** Align the selected image: left / center / right, or floated with text wrapping around it */
+  setImageAlign(align: ImageAlign, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setImageAlign(align).run();
+  }
+
+  /** Resize the selected image (width in px, height kept in proportion when omitted); null = natural size */
+  setImageSize(width: number | null, height?: number | null, opts?: EditorCommandOptions): void {
+    const image = this.getSelectedImage();
+    if (!image) return;
+    const scaled = height ?? (width && image.width && image.height ? (width * image.height) / image.width : null);
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setImageSize(width, scaled).run();
+  }
+
+  /** Show (string) or remove (null) the selected image's caption */
+  setImageCaption(caption: string | null, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setImageCaption(caption).run();
+  }
+
+  /** Set the selected image's alternative text (empty removes it) */
+  setImageAlt(alt: string, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setImageAlt(alt).run();
+  }
+
+  /** True when an upload function is configured (file picker / paste / drop of local images) */
+  canUploadImages(): boolean {
+    return !!this.config.uploadImage;
+  }
+
+  /** Open the file picker; chosen images upload and replace their placeholders when done */
+  openImagePicker(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.openImagePicker().run();
+  }
+
+  uploadImages(files: File[], opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.uploadImages(files).run();
+  }
+
   // Table
   insertTable(rows = 3, cols = 3, opts?: EditorCommandOptions): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
@@ -249,28 +540,85 @@ export class ContentEditor {
     this.editor.chain().focus().deleteColumn().run();
   }
 
+  /** Merge the selected cells into one (select several cells by dragging across them) */
+  mergeTableCells(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.mergeCells().run();
+  }
+
+  /** Split a merged cell back into single cells */
+  splitTableCell(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.splitCell().run();
+  }
+
+  toggleTableHeaderRow(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.toggleHeaderRow().run();
+  }
+
+  toggleTableHeaderColumn(opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.toggleHeaderColumn().run();
+  }
+
+  /** Align the text of the column(s) the selected cells are in */
+  setTableColumnAlign(align: TableColumnAlign, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.setTableColumnAlign(align).run();
+  }
+
+  isInTable(): boolean {
+    return findTablePos(this.editor.state) !== null;
+  }
+
+  canMergeTableCells(): boolean {
+    return this.editor.can().mergeCells();
+  }
+
+  canSplitTableCell(): boolean {
+    return this.editor.can().splitCell();
+  }
+
   // Undo/Redo
   undo(opts?: EditorCommandOptions): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    const session = this.getHistorySession();
+    if (session) {
+      chain.run();
+      session.undo();
+      return;
+    }
     chain.undo().run();
   }
 
   redo(opts?: EditorCommandOptions): void {
     const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    const session = this.getHistorySession();
+    if (session) {
+      chain.run();
+      session.redo();
+      return;
+    }
     chain.redo().run();
   }
 
+  /** Joined collaboration session, which keeps the undo history (own edits only) instead of prosemirror-history */
+  private getHistorySession(): CollaborationSession | null {
+    return this.collaboration?.isJoined() ? this.collaboration : null;
+  }
+
   // Check active state
   isActive(name: string, attributes?: Record<string, unknown>): boolean {
     return this.editor.isActive(name, attributes);
   }
 
   canUndo(): boolean {
-    return this.editor.can().undo();
+    return this.getHistorySession()?.canUndo() ?? this.editor.can().undo();
   }
 
   canRedo(): boolean {
-    return this.editor.can().redo();
+    return this.getHistorySession()?.canRedo() ?? this.editor.can().redo();
   }
 
   // Horizontal Rule
@@ -334,21 +682,358 @@ export class ContentEditor {
     chain.removeRow().run();
   }
 
+  // Find & Replace (commands don't focus the editor so the search input keeps focus)
+  setSearchQuery(query: string, options?: Partial<SearchOptions>): void {
+    this.editor.commands.setSearchQuery(query, options);
+  }
+
+  setSearchOptions(options: Partial<SearchOptions>): void {
+    this.editor.commands.setSearchOptions(options);
+  }
+
+  findNext(): void {
+    this.editor.commands.nextSearchMatch();
+  }
+
+  findPrevious(): void {
+    this.editor.commands.previousSearchMatch();
+  }
+
+  /** Replace the current match and select the next one */
+  replaceMatch(replacement: string): void {
+    if (this.editor.commands.replaceSearchMatch(replacement)) {
+      this.editor.commands.nextSearchMatch();
+    }
+  }
+
+  /** Replace every match as one undo step; returns how many were replaced */
+  replaceAllMatches(replacement: string): number {
+    const { total } = this.getSearchResults();
+    return this.editor.commands.replaceAllSearchMatches(replacement) ? total : 0;
+  }
+
+  clearSearch(): void {
+    this.editor.commands.clearSearch();
+  }
+
+  getSearchResults(): SearchResults {
+    return getSearchResults(this.editor.state);
+  }
+
+  /** Selected text when it is on a single line (to prefill the search box) */
+  getSelectedText(): string {
+    const { from, to, empty } = this.editor.state.selection;
+    if (empty) return '';
+    const text = this.editor.state.doc.textBetween(from, to, '\n');
+    return text.includes('\n') ? '' : text;
+  }
+
+  // Mentions
+  /** Ids of the users mentioned in the document, in document order */
+  getMentionedUserIds(): string[] {
+    return getMentionedUserIds(this.editor.state.doc);
+  }
+
+  // Merge Fields
+  insertMergeField(name: string, fallback?: string | null, opts?: EditorCommandOptions): void {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    chain.insertMergeField(name, fallback).run();
+  }
+
+  /**
+   * Content HTML with every merge field replaced by its value (or fallback), without comment marks and with
+   * pending suggestions shown as accepted, like the email export; the document is not changed
+   */
+  render(mergeData: MergeData): string {
+    const html = acceptSuggestions(stripComments(this.getHTML()));
+    return sanitizeHtml(fillMergeFields(html, mergeData), this.getSanitizeOptions());
+  }
+
+  // Comments
+  /** Start a thread on the selected text; null when nothing is selected or the text is empty */
+  addComment(text: string, opts?: EditorCommandOptions): CommentThread | null {
+    const body = text.trim();
+    const { from, to } = this.editor.state.selection;
+    if (!body) return null;
+    const thread: CommentThread = {
+      ...this.createCommentEntry(body),
+      resolved: false,
+      replies: [],
+      quote: this.editor.state.doc.textBetween(from, to, ' '),
+    };
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    if (!chain.addCommentThread(thread).run()) return null;
+    this.config.onCommentAdded?.(thread, thread, this);
+    this.config.onCommentsChange?.(this);
+    return thread;
+  }
+
+  replyToComment(threadId: string, text: string): CommentReply | null {
+    const body = text.trim();
+    if (!body) return null;
+    const reply = this.createCommentEntry(body);
+    if (!this.editor.commands.replyToCommentThread(threadId, reply)) return null;
+    const thread = this.getComment(threadId);
+    if (thread) this.config.onCommentAdded?.(thread, reply, this);
+    this.config.onCommentsChange?.(this);
+    return reply;
+  }
+
+  /** Resolve (or reopen with false) a thread; resolved threads keep their mark but are not highlighted */
+  resolveComment(threadId: string, resolved = true): void {
+    const before = this.getComment(threadId);
+    if (!before || before.resolved === resolved) return;
+    this.editor.commands.setCommentThreadResolved(threadId, resolved);
+    const thread = this.getComment(threadId);
+    if (thread && resolved) this.config.onCommentResolved?.(thread, this);
+    this.config.onCommentsChange?.(this);
+  }
+
+  deleteComment(threadId: string): void {
+    if (!this.getComment(threadId)) return;
+    this.editor.commands.removeCommentThread(threadId);
+    this.config.onCommentsChange?.(this);
+  }
+
+  /** Threads in the order they were started, with the currently commented text as quote */
+  getComments(): CommentThread[] {
+    const quotes = getCommentQuotes(this.editor.state.doc);
+    return getCommentThreads(this.editor.state).map((t) => ({ ...t, quote: quotes.get(t.id) ?? '' }));
+  }
+
+  getComment(threadId: string): CommentThread | null {
+    return this.getComments().find((t) => t.id === threadId) ?? null;
+  }
+
+  /** Replace the threads, e.g. with the ones saved in Bubble; the comment marks in the content stay as they are */
+  setComments(threads: CommentThread[]): void {
+    this.editor.commands.setCommentThreads(threads);
+    this.config.onCommentsChange?.(this);
+  }
+
+  /** Thread of the comment at the cursor */
+  getActiveCommentThreadId(): string | null {
+    return getActiveCommentThreadId(this.editor.state);
+  }
+
+  /** Select a thread's text and scroll it into view; false when the text is gone */
+  selectComment(threadId: string, opts?: EditorCommandOptions): boolean {
+    const range = getCommentRange(this.editor.state.doc, threadId);
+    if (!range) return false;
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    return chain.setTextSelection(range).scrollIntoView().run();
+  }
+
+  private createCommentEntry(text: string): CommentReply {
+    return {
+      id: createCommentId(),
+      author: this.config.getCommentAuthor?.() || 'Anonymous',
+      text,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  // Suggestions (track changes)
+  /** In suggesting mode edits become suggestions to accept or reject instead of changing the content */
+  setSuggesting(enabled: boolean): void {
+    if (this.isSuggesting() === enabled) return;
+    this.editor.commands.setSuggesting(enabled);
+  }
+
+  isSuggesting(): boolean {
+    return isSuggesting(this.editor.state);
+  }
+
+  /** Pending suggestions in document order */
+  getSuggestions(): Suggestion[] {
+    return getSuggestions(this.editor.state.doc);
+  }
+
+  /** Apply a suggestion; false when there is no suggestion with this id */
+  acceptSuggestion(id: string, opts?: EditorCommandOptions): boolean {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    return chain.acceptSuggestion(id).run();
+  }
+
+  /** Undo a suggestion, restoring what was there before; false when there is no suggestion with this id */
+  rejectSuggestion(id: string, opts?: EditorCommandOptions): boolean {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    return chain.rejectSuggestion(id).run();
+  }
+
+  acceptAllSuggestions(opts?: EditorCommandOptions): boolean {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    return chain.acceptAllSuggestions().run();
+  }
+
+  rejectAllSuggestions(opts?: EditorCommandOptions): boolean {
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    return chain.rejectAllSuggestions().run();
+  }
+
+  // Snapshots
+  /** Save a named copy of the current document (default name "Snapshot N") */
+  createSnapshot(name?: string): DocumentSnapshot {
+    const snapshot: DocumentSnapshot = {
+      id: createSnapshotId(),
+      name: name?.trim() || `Snapshot ${this.snapshots.length + 1}`,
+      createdAt: new Date().toISOString(),
+      doc: this.getDocumentJSON(),
+    };
+    this.snapshots = [...this.snapshots, snapshot];
+    this.config.onSnapshotsChange?.(this);
+    return snapshot;
+  }
+
+  /** Snapshots in the order they were taken */
+  getSnapshots(): DocumentSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /** By id, else the most recent snapshot with that name */
+  getSnapshot(idOrName: string): DocumentSnapshot | null {
+    return findSnapshot(this.snapshots, idOrName);
+  }
+
+  deleteSnapshot(idOrName: string): void {
+    const snapshot = this.getSnapshot(idOrName);
+    if (!snapshot) return;
+    this.snapshots = this.snapshots.filter((s) => s !== snapshot);
+    this.config.onSnapshotsChange?.(this);
+  }
+
+  /** Replace the snapshots, e.g. with ones saved earlier */
+  setSnapshots(snapshots: DocumentSnapshot[]): void {
+    this.snapshots = [...snapshots];
+    this.config.onSnapshotsChange?.(this);
+  }
+
+  /**
+   * Diff HTML from one snapshot to another, or to the current document when to is omitted;
+   * null when a snapshot doesn't exist
+   */
+  compareSnapshots(fromIdOrName: string, toIdOrName?: string | null, options?: DiffOptions): string | null {
+    const from = this.getSnapshot(fromIdOrName);
+    const to = toIdOrName ? this.getSnapshot(toIdOrName) : null;
+    if (!from || (toIdOrName && !to)) return null;
+    return diffDocuments(this.toDocument(from.doc), to ? this.toDocument(to.doc) : this.editor.state.doc, {
+      beforeLabel: from.name,
+      afterLabel: to ? to.name : 'Current',
+      ...options,
+    });
+  }
+
+  /** Diff HTML between two stored contents (HTML, JSON or versioned envelopes) */
+  compareContent(before: string | JSONContent | DocumentEnvelope, after: string | JSONContent | DocumentEnvelope, options?: DiffOptions): string {
+    return diffDocuments(this.toDocument(before), this.toDocument(after), options);
+  }
+
+  /** Replace the content with a snapshot as one undoable step; false when the snapshot doesn't exist */
+  restoreSnapshot(idOrName: string, opts?: EditorCommandOptions): boolean {
+    const snapshot = this.getSnapshot(idOrName);
+    if (!snapshot) return false;
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    this.closeUndoStep();
+    const restored = chain
+      .setMeta(SUGGESTION_BYPASS_META, true)
+      .setMeta(CHARACTER_LIMIT_BYPASS_META, true)
+      .setContent(this.toDocument(snapshot.doc).toJSON(), true)
+      .run();
+    this.closeUndoStep();
+    return restored;
+  }
+
+  /** Keep the edits before and after this point in separate undo steps, however quickly they follow */
+  private closeUndoStep(): void {
+    const session = this.getHistorySession();
+    if (session) {
+      session.stopCapturing();
+    } else {
+      this.editor.view.dispatch(closeHistory(this.editor.state.tr));
+    }
+  }
+
+  // Collaboration
+  /** Join (or start) a shared editing session; replaces the current one */
+  startCollaboration(options: CollaborationOptions): CollaborationSession {
+    this.stopCollaboration();
+    this.collaboration = new CollaborationSession(this.editor, options);
+    this.collaboration.start();
+    return this.collaboration;
+  }
+
+  stopCollaboration(): void {
+    this.collaboration?.destroy();
+    this.collaboration = null;
+  }
+
+  getCollaboration(): CollaborationSession | null {
+    return this.collaboration;
+  }
+
   // Email Export
   getEmailHTML(options?: EmailExportOptions): string {
-    return convertToEmailHTML(this.getHTML(), options);
+    return convertToEmailHTML(this.getHTML(), this.withSanitizeOptions(options));
+  }
+
+  /** The editor's URL policy for the header and footer, unless the options set their own */
+  private withSanitizeOptions(options?: EmailExportOptions): EmailExportOptions {
+    return { sanitizeOptions: this.getSanitizeOptions(), ...options };
+  }
+
+  /** Export options matching how the content is displayed (font, size, colors, accent); pass them to the email methods */
+  getEmailOptionsFromStyles(): EmailExportOptions {
+    return getEmailOptionsFromElement(this.editor.view.dom);
   }
 
   downloadAsEmail(filename?: string, options?: EmailExportOptions): void {
-    downloadEmailHTML(this.getHTML(), filename, options);
+    downloadEmailHTML(this.getHTML(), filename, this.withSanitizeOptions(options));
   }
 
   async copyEmailToClipboard(options?: EmailExportOptions): Promise<boolean> {
-    return copyEmailHTMLToClipboard(this.getHTML(), options);
+    return copyEmailHTMLToClipboard(this.getHTML(), this.withSanitizeOptions(options));
+  }
+
+  /**
+   * Plain-text alternative of the email (text/plain part), unlike getText() keeping links, lists, tables
+   * and columns readable. Pass the HTML export's options as frame to add the same header, footer and links.
+   */
+  getEmailText(options?: EmailTextOptions, frame?: EmailExportOptions): string {
+    const toFrameDocument = (html?: string) => (html?.trim() ? this.toDocument(html) : null);
+    return convertToEmailText(this.editor.state.doc, {
+      ...(frame && {
+        header: toFrameDocument(frame.headerHTML),
+        footer: toFrameDocument(frame.footerHTML),
+        unsubscribeUrl: frame.unsubscribeUrl,
+        unsubscribeLabel: frame.unsubscribeLabel,
+        viewInBrowserUrl: frame.viewInBrowserUrl,
+        viewInBrowserLabel: frame.viewInBrowserLabel,
+        mergeData: frame.mergeData,
+      }),
+      ...options,
+    });
+  }
+
+  /** What will break or degrade when the content is sent as an email with these options (pass the email HTML when already exported) */
+  getEmailPreflight(options?: EmailExportOptions, emailHTML: string = this.getEmailHTML(options)): PreflightIssue[] {
+    return analyzeEmail(this.editor.state.doc, emailHTML, options);
+  }
+
+  /** Select the node at a position (e.g. an email preflight issue): text by its text, other nodes as a whole */
+  selectNodeAt(pos: number, opts?: EditorCommandOptions): boolean {
+    const { doc } = this.editor.state;
+    if (pos < 0 || pos >= doc.content.size) return false;
+    const node = doc.nodeAt(pos);
+    if (!node) return false;
+    const chain = opts?.focus !== false ? this.editor.chain().focus() : this.editor.chain();
+    if (node.isText) return chain.setTextSelection({ from: pos, to: pos + node.nodeSize }).scrollIntoView().run();
+    if (node.isTextblock) return chain.setTextSelection({ from: pos + 1, to: pos + node.nodeSize - 1 }).scrollIntoView().run();
+    return chain.setNodeSelection(pos).scrollIntoView().run();
   }
 
   // Destroy
   destroy(): void {
+    this.stopCollaboration();
     this.editor.destroy();
   }
 
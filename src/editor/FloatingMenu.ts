@@ -0,0 +1,287 @@
+/**
+ * FloatingMenu - inline formatting controls shown above a text selection.
+ * Works while the sidebar is open (the Toolbar is hidden then): bold, italic, strike, code,
+ * link (shared link popup), text color (shared ColorDropdown + palette) and clear formatting.
+ */
+
+import { TextSelection } from '@tiptap/pm/state';
+import { ContentEditor } from './Editor';
+import { showLinkPopup } from './LinkPopup';
+import { icons } from '../utils/icons';
+import { createColorDropdownHTML } from '../components/ColorDropdown';
+import { normalizeColorPalette, type ColorOption, type BubbleColorThing } from '../utils/colorOptions';
+import { defaultColorPalette } from '../utils/themeApplier';
+
+export interface FloatingMenuConfig {
+  editor: ContentEditor;
+  /** Element the menu is appended to (theme root) */
+  container: HTMLElement;
+  /** List of colors (Bubble option set or ColorOption[] or legacy string[]); normalized like the Sidebar's */
+  colorPalette?: unknown;
+  /** Returns current theme variables (same as the link popup) so the menu matches light/dark */
+  getThemeForPopup?: () => Record<string, string>;
+}
+
+interface FloatingMenuButton {
+  id: string;
+  icon: string;
+  title: string;
+  action: () => void;
+  isActive?: () => boolean;
+}
+
+/** Gap between the selection and the menu */
+const OFFSET = 8;
+
+export class FloatingMenu {
+  private editor: ContentEditor;
+  private container: HTMLElement;
+  private element: HTMLElement;
+  private colorPalette: ColorOption[];
+  private getThemeForPopup?: () => Record<string, string>;
+  private enabled = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: FloatingMenuConfig) {
+    this.editor = config.editor;
+    this.container = config.container;
+    this.getThemeForPopup = config.getThemeForPopup;
+    const normalized = normalizeColorPalette(config.colorPalette as ColorOption[] | string[] | BubbleColorThing[] | undefined | null);
+    this.colorPalette = normalized.length ? normalized : defaultColorPalette;
+    this.element = this.createMenu();
+    this.container.appendChild(this.element);
+    this.setupListeners();
+  }
+
+  private getButtons(): FloatingMenuButton[] {
+    return [
+      {
+        id: 'bold',
+        icon: icons.bold,
+        title: 'Bold (Ctrl+B)',
+        action: () => this.editor.toggleBold(),
+        isActive: () => this.editor.isActive('bold'),
+      },
+      {
+        id: 'italic',
+        icon: icons.italic,
+        title: 'Italic (Ctrl+I)',
+        action: () => this.editor.toggleItalic(),
+        isActive: () => this.editor.isActive('italic'),
+      },
+      {
+        id: 'strike',
+        icon: icons.strike,
+        title: 'Strikethrough',
+        action: () => this.editor.toggleStrike(),
+        isActive: () => this.editor.isActive('strike'),
+      },
+      {
+        id: 'code',
+        icon: icons.code,
+        title: 'Inline Code',
+        action: () => this.editor.toggleCode(),
+        isActive: () => this.editor.isActive('code'),
+      },
+      {
+        id: 'link',
+        icon: icons.link,
+        title: 'Link',
+        action: () => this.handleLinkAction(),
+        isActive: () => this.editor.isActive('link'),
+      },
+      {
+        id: 'clearFormatting',
+        icon: icons.clearFormat,
+        title: 'Clear Formatting',
+        action: () => this.editor.clearFormatting(),
+      },
+    ];
+  }
+
+  private createMenu(): HTMLElement {
+    const menu = document.createElement('div');
+    menu.className = 'editor-floating-menu';
+    menu.setAttribute('role', 'toolbar');
+    menu.setAttribute('aria-label', 'Text formatting');
+    menu.style.display = 'none';
+
+    this.getButtons().forEach((config) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'toolbar-btn';
+      button.dataset.action = config.id;
+      button.title = config.title;
+      button.innerHTML = config.icon;
+      button.addEventListener('click', (e) => {
+        e.preventDefault();
+        config.action();
+      });
+      menu.appendChild(button);
+    });
+
+    const color = document.createElement('div');
+    color.className = 'editor-floating-menu-color';
+    color.title = 'Text Color';
+    menu.appendChild(color);
+    this.renderColorDropdown(color);
+
+    // Keep the selection (and editor focus) while using the menu
+    menu.addEventListener('mousedown', (e) => e.preventDefault());
+    menu.addEventListener('click', (e) => this.handleColorClick(e));
+
+    return menu;
+  }
+
+  private renderColorDropdown(target: HTMLElement = this.element.querySelector('.editor-floating-menu-color') as HTMLElement): void {
+    if (!target) return;
+    target.innerHTML = createColorDropdownHTML({
+      target: 'textColor',
+      colors: this.colorPalette,
+      value: this.editor.getCurrentTextColor(),
+      label: '',
+      includeTransparent: true,
+      transparentLabel: 'Default',
+    });
+  }
+
+  private handleColorClick(e: MouseEvent): void {
+    const targetEl = e.target as HTMLElement;
+    const dropdown = this.element.querySelector('.bp-color-dropdown') as HTMLElement | null;
+    if (!dropdown) return;
+
+    if (targetEl.closest('.bp-color-dropdown-trigger')) {
+      e.preventDefault();
+      const open = !dropdown.classList.contains('bp-color-dropdown-open');
+      dropdown.classList.toggle('bp-color-dropdown-open', open);
+      dropdown.querySelector('.bp-color-dropdown-trigger')?.setAttribute('aria-expanded', String(open));
+      return;
+    }
+
+    const option = targetEl.closest('.bp-color-dropdown-option') as HTMLElement | null;
+    if (option?.dataset.value != null) {
+      e.preventDefault();
+      this.editor.setTextColor(option.dataset.value);
+      this.renderColorDropdown();
+    }
+  }
+
+  private handleLinkAction(): void {
+    const attrs = this.editor.getLinkAttributes();
+    this.hide();
+    showLinkPopup(this.editor, {
+      initialUrl: attrs?.href ?? '',
+      initialOpenInNewTab: attrs?.target === '_blank',
+      isEdit: attrs !== null,
+      noFocus: false,
+      themeRoot: this.container,
+      themeVariables: this.getThemeForPopup?.(),
+    });
+  }
+
+  private setupListeners(): void {
+    const tipTap = this.editor.getTipTapEditor();
+    const update = () => this.update();
+    const onBlur = () => this.hide();
+    tipTap.on('selectionUpdate', update);
+    tipTap.on('transaction', update);
+    tipTap.on('focus', update);
+    tipTap.on('blur', onBlur);
+    // Fixed to the viewport, so it follows the selection when the page or a scroll container moves
+    const onScroll = () => {
+      if (this.element.style.display !== 'none') this.position();
+    };
+    window.addEventListener('scroll', onScroll, true);
+    this.unsubscribe = () => {
+      tipTap.off('selectionUpdate', update);
+      tipTap.off('transaction', update);
+      tipTap.off('focus', update);
+      tipTap.off('blur', onBlur);
+      window.removeEventListener('scroll', onScroll, true);
+    };
+  }
+
+  /** Show for a non-empty text selection in an editable, focused editor (not inside code blocks) */
+  private shouldShow(): boolean {
+    if (!this.enabled || !this.editor.isEditable() || !this.editor.isFocused()) return false;
+    const { selection } = this.editor.getTipTapEditor().state;
+    if (!(selection instanceof TextSelection) || selection.empty) return false;
+    return !this.editor.isActive('codeBlock');
+  }
+
+  private update(): void {
+    if (!this.shouldShow()) {
+      this.hide();
+      return;
+    }
+    const wasHidden = this.element.style.display === 'none';
+    this.element.style.display = '';
+    if (wasHidden) {
+      this.applyTheme();
+      this.renderColorDropdown();
+    }
+    this.updateButtonStates();
+    this.position();
+  }
+
+  private applyTheme(): void {
+    const vars = this.getThemeForPopup?.();
+    if (!vars) return;
+    for (const [key, value] of Object.entries(vars)) {
+      if (value) this.element.style.setProperty(key, value);
+    }
+  }
+
+  private updateButtonStates(): void {
+    this.getButtons().forEach((config) => {
+      if (!config.isActive) return;
+      const btn = this.element.querySelector(`[data-action="${config.id}"]`);
+      btn?.classList.toggle('active', config.isActive());
+    });
+  }
+
+  /** Centered above the selection (below it when there is no room), kept inside the viewport */
+  private position(): void {
+    const view = this.editor.getTipTapEditor().view;
+    const { from, to } = view.state.selection;
+    const start = view.coordsAtPos(from);
+    const end = view.coordsAtPos(to);
+    const menuWidth = this.element.offsetWidth;
+    const menuHeight = this.element.offsetHeight;
+
+    const selectionTop = Math.min(start.top, end.top);
+    const selectionBottom = Math.max(start.bottom, end.bottom);
+    // Multi-line selections center on the first line
+    const center = start.top === end.top ? (start.left + end.right) / 2 : start.left;
+
+    const top = selectionTop - menuHeight - OFFSET >= 0
+      ? selectionTop - menuHeight - OFFSET
+      : selectionBottom + OFFSET;
+    const left = Math.max(OFFSET, Math.min(center - menuWidth / 2, window.innerWidth - menuWidth - OFFSET));
+    this.element.style.top = `${top}px`;
+    this.element.style.left = `${left}px`;
+  }
+
+  /** Turn the menu on or off (Bubble "Formatting controls" property) */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.update();
+  }
+
+  refreshColorPalette(raw: unknown): void {
+    const normalized = normalizeColorPalette(raw as ColorOption[] | string[] | BubbleColorThing[] | undefined | null);
+    if (!normalized.length) return;
+    this.colorPalette = normalized;
+    this.renderColorDropdown();
+  }
+
+  hide(): void {
+    this.element.style.display = 'none';
+    this.element.querySelector('.bp-color-dropdown')?.classList.remove('bp-color-dropdown-open');
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.element.remove();
+  }
+}
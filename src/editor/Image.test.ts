@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+function imageDoc(href: string) {
+  return {
+    type: 'doc',
+    content: [{ type: 'image', attrs: { src: 'https://x.com/a.png', alt: 'A', href, target: '_blank' } }],
+  };
+}
+
+describe('Image links', () => {
+  it('drops a disallowed link loaded from JSON', () => {
+    const ed = createTestEditor({ content: imageDoc('javascript:alert(1)') });
+
+    expect(ed.getHTML()).not.toContain('javascript:');
+    expect(ed.getHTML()).toContain('src="https://x.com/a.png"');
+    expect(ed.getEmailHTML()).not.toContain('javascript:');
+  });
+
+  it('follows the editor\'s URL policy', () => {
+    const ed = createTestEditor({
+      content: imageDoc('ftp://files.example.com/a'),
+      getSanitizeOptions: () => ({ allowedProtocols: ['https'] }),
+    });
+    expect(ed.getHTML()).not.toContain('ftp:');
+
+    ed.setContent(imageDoc('https://example.com'));
+    expect(ed.getHTML()).toContain('<a href="https://example.com" target="_blank"');
+  });
+});
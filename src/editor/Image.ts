@@ -0,0 +1,392 @@
+/**
+ * Image Extension
+ *
+ * The block image with a stored size (width / height in px, set by dragging the handles),
+ * alignment (left / center / right, or floated left / right with text wrapping around it),
+ * an optional caption and an optional link.
+ *
+ * An image with only a size is saved as a plain <img>; alignment, caption or link wrap it in
+ * <figure data-type="image" data-align="..."> with an <a> around the image and a <figcaption>.
+ * Link URLs go through the isAllowedUrl option when loaded and when rendered, like the Link mark's.
+ */
+
+import BaseImage, { type ImageOptions as BaseImageOptions } from '@tiptap/extension-image';
+import type { CommandProps, Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { NodeSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import type { NodeView } from '@tiptap/pm/view';
+import { isAllowedUrl } from '../utils/sanitizeHtml';
+
+export type ImageAlign = 'left' | 'center' | 'right' | 'float-left' | 'float-right';
+
+export const IMAGE_ALIGNS: ImageAlign[] = ['left', 'center', 'right', 'float-left', 'float-right'];
+
+export interface ImageOptions extends BaseImageOptions {
+  /** Link URL check; defaults to the sanitizer's default policy */
+  isAllowedUrl: (url: string) => boolean;
+}
+
+export interface ImageAttributes {
+  src: string;
+  alt: string | null;
+  title: string | null;
+  width: number | null;
+  height: number | null;
+  /** null = left (the default) */
+  align: ImageAlign | null;
+  /** null = no caption; '' = caption shown but empty */
+  caption: string | null;
+  href: string | null;
+  target: string | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    imageBlock: {
+      /**
+       * Align the selected image (floats let text wrap around it)
+       */
+      setImageAlign: (align: ImageAlign) => ReturnType;
+      /**
+       * Set the selected image's size in px (null = natural size)
+       */
+      setImageSize: (width: number | null, height?: number | null) => ReturnType;
+      /**
+       * Show (string) or remove (null) the selected image's caption
+       */
+      setImageCaption: (caption: string | null) => ReturnType;
+      /**
+       * Set the selected image's alternative text
+       */
+      setImageAlt: (alt: string) => ReturnType;
+      /**
+       * Wrap the selected image in a link (null = remove the link)
+       */
+      setImageLink: (href: string | null, target?: string | null) => ReturnType;
+    };
+  }
+}
+
+/** Smallest width the handles resize to */
+const MIN_WIDTH = 32;
+
+/** The selected image, when the selection is an image node */
+export function getSelectedImage(state: EditorState): ProseMirrorNode | null {
+  const { selection } = state;
+  return selection instanceof NodeSelection && selection.node.type.name === 'image' ? selection.node : null;
+}
+
+function normalizeAlign(value: unknown): ImageAlign | null {
+  return IMAGE_ALIGNS.includes(value as ImageAlign) && value !== 'left' ? (value as ImageAlign) : null;
+}
+
+/** Attribute steps keep the node (and a node selection of it), unlike setNodeMarkup on a leaf */
+function setImageAttributes(tr: Transaction, pos: number, attrs: Partial<ImageAttributes>): Transaction {
+  Object.entries(attrs).forEach(([name, value]) => tr.setNodeAttribute(pos, name, value));
+  return tr;
+}
+
+function parseSize(value: string | null | undefined): number | null {
+  const size = parseInt(value ?? '', 10);
+  return Number.isFinite(size) && size > 0 ? size : null;
+}
+
+/** The <img> of a parsed element (the element itself, or the image inside a figure / link) */
+function findImage(element: HTMLElement): HTMLImageElement | null {
+  if (element.tagName === 'IMG') return element as HTMLImageElement;
+  return element.querySelector('img[src]');
+}
+
+/** The link around a parsed image (the element itself or one inside a figure) */
+function findLink(element: HTMLElement): HTMLAnchorElement | null {
+  if (element.tagName === 'A') return element as HTMLAnchorElement;
+  if (element.tagName === 'FIGURE') return element.querySelector('a[href]');
+  return null;
+}
+
+/** True when an element holds nothing but an image (and, for figures, a link and caption) */
+function isImageWrapper(element: HTMLElement, allowed: string[]): boolean {
+  if (!findImage(element)) return false;
+  const hasText = Array.from(element.childNodes).some(
+    (child) => child.nodeType === 3 && (child.textContent ?? '').trim() !== ''
+  );
+  return !hasText && Array.from(element.children).every((child) => allowed.includes(child.tagName));
+}
+
+class ImageView implements NodeView {
+  dom: HTMLElement;
+  private node: ProseMirrorNode;
+  private editor: Editor;
+  private getPos: () => number | undefined;
+  private frame: HTMLElement;
+  private img: HTMLImageElement;
+  private caption: HTMLElement;
+  private handles: HTMLElement[];
+  private stopResize: (() => void) | null = null;
+
+  constructor(node: ProseMirrorNode, editor: Editor, getPos: () => number | undefined, htmlAttributes: Record<string, unknown>) {
+    this.node = node;
+    this.editor = editor;
+    this.getPos = getPos;
+
+    this.dom = document.createElement('div');
+    this.dom.className = 'editor-image-view';
+
+    this.frame = document.createElement('div');
+    this.frame.className = 'editor-image-frame';
+    // Dragging the image moves the node; the caption stays selectable
+    this.frame.draggable = true;
+
+    this.img = document.createElement('img');
+    const className = htmlAttributes.class;
+    if (typeof className === 'string') this.img.className = className;
+    this.img.draggable = false;
+
+    this.handles = (['left', 'right'] as const).map((side) => {
+      const handle = document.createElement('span');
+      handle.className = `editor-image-handle editor-image-handle-${side}`;
+      handle.setAttribute('aria-hidden', 'true');
+      handle.addEventListener('mousedown', (e) => this.startResize(e, side));
+      return handle;
+    });
+    this.frame.append(this.img, ...this.handles);
+
+    this.caption = document.createElement('figcaption');
+    this.caption.className = 'editor-image-caption';
+    this.caption.dataset.placeholder = 'Add a caption';
+    this.caption.addEventListener('beforeinput', (e) => {
+      if (!this.editor.isEditable) e.preventDefault();
+    });
+    this.caption.addEventListener('input', () => this.setAttributes({ caption: this.caption.textContent ?? '' }));
+    this.caption.addEventListener('keydown', (e) => {
+      // Captions are a single line of plain text
+      if (e.key === 'Enter' || e.key === 'Escape') {
+        e.preventDefault();
+        this.caption.blur();
+        this.editor.commands.focus();
+      }
+    });
+    this.caption.addEventListener('paste', (e) => {
+      e.preventDefault();
+      const text = (e.clipboardData?.getData('text/plain') ?? '').replace(/\s+/g, ' ');
+      document.execCommand('insertText', false, text);
+    });
+
+    this.dom.append(this.frame, this.caption);
+    this.render();
+  }
+
+  private render(): void {
+    const attrs = this.node.attrs as ImageAttributes;
+    if (this.img.getAttribute('src') !== attrs.src) this.img.src = attrs.src;
+    this.img.alt = attrs.alt ?? '';
+    if (attrs.title) this.img.title = attrs.title;
+    else this.img.removeAttribute('title');
+    this.img.style.width = attrs.width ? `${attrs.width}px` : '';
+
+    this.dom.dataset.align = attrs.align ?? 'left';
+    this.dom.classList.toggle('has-link', !!attrs.href);
+    this.dom.title = attrs.href ? `Links to ${attrs.href}` : '';
+
+    this.caption.style.display = attrs.caption === null ? 'none' : '';
+    this.caption.contentEditable = this.editor.isEditable ? 'true' : 'false';
+    // Leave the text alone while it's being typed (it is where the update came from)
+    if (document.activeElement !== this.caption && this.caption.textContent !== (attrs.caption ?? '')) {
+      this.caption.textContent = attrs.caption ?? '';
+    }
+  }
+
+  private setAttributes(attrs: Partial<ImageAttributes>): void {
+    const pos = this.getPos();
+    if (typeof pos !== 'number' || !this.editor.isEditable) return;
+    this.editor.view.dispatch(setImageAttributes(this.editor.state.tr, pos, attrs));
+  }
+
+  /** Drag a handle to resize; the width is kept within the editor and the aspect ratio is kept */
+  private startResize(event: MouseEvent, side: 'left' | 'right'): void {
+    if (!this.editor.isEditable) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = this.img.getBoundingClientRect().width;
+    // Floated images shrink-wrap, so the limit is the width of the block they sit in
+    const maxWidth = (this.dom.parentElement ?? this.dom).clientWidth || startWidth;
+    // Centered images grow on both sides, so the handle moves half as far
+    const factor = this.node.attrs.align === 'center' ? 2 : 1;
+    let width = startWidth;
+
+    const onMove = (e: MouseEvent) => {
+      const delta = (e.clientX - startX) * (side === 'right' ? 1 : -1) * factor;
+      width = Math.round(Math.max(MIN_WIDTH, Math.min(maxWidth, startWidth + delta)));
+      this.img.style.width = `${width}px`;
+    };
+    const onUp = () => {
+      this.stopResize?.();
+      const { naturalWidth, naturalHeight } = this.img;
+      const height = naturalWidth > 0 ? Math.round((width * naturalHeight) / naturalWidth) : null;
+      this.setAttributes({ width, height });
+    };
+    this.dom.classList.add('is-resizing');
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+    this.stopResize = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      this.dom.classList.remove('is-resizing');
+      this.stopResize = null;
+    };
+  }
+
+  update(node: ProseMirrorNode): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  /** The caption and the handles handle their own events */
+  stopEvent(event: Event): boolean {
+    const target = event.target as Node;
+    return this.caption.contains(target) || this.handles.some((handle) => handle.contains(target));
+  }
+
+  ignoreMutation(): boolean {
+    return true;
+  }
+
+  destroy(): void {
+    this.stopResize?.();
+  }
+}
+
+export const Image = BaseImage.extend<ImageOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      isAllowedUrl: (url: string) => isAllowedUrl(url),
+    };
+  },
+
+  addAttributes() {
+    return {
+      src: {
+        default: null,
+        parseHTML: (element) => findImage(element)?.getAttribute('src') ?? null,
+      },
+      alt: {
+        default: null,
+        parseHTML: (element) => findImage(element)?.getAttribute('alt') ?? null,
+      },
+      title: {
+        default: null,
+        parseHTML: (element) => findImage(element)?.getAttribute('title') ?? null,
+      },
+      width: {
+        default: null,
+        parseHTML: (element) => parseSize(findImage(element)?.getAttribute('width')),
+      },
+      height: {
+        default: null,
+        parseHTML: (element) => parseSize(findImage(element)?.getAttribute('height')),
+      },
+      align: {
+        default: null,
+        rendered: false,
+        parseHTML: (element) => {
+          if (element.tagName === 'FIGURE') return normalizeAlign(element.getAttribute('data-align'));
+          // Legacy <img align="left|right"> floats
+          const legacy = findImage(element)?.getAttribute('align')?.toLowerCase();
+          return legacy === 'left' || legacy === 'right' ? `float-${legacy}` : null;
+        },
+      },
+      caption: {
+        default: null,
+        rendered: false,
+        parseHTML: (element) =>
+          element.tagName === 'FIGURE' ? element.querySelector('figcaption')?.textContent?.trim() ?? null : null,
+      },
+      href: {
+        default: null,
+        rendered: false,
+        parseHTML: (element) => {
+          const href = findLink(element)?.getAttribute('href');
+          return href && this.options.isAllowedUrl(href) ? href : null;
+        },
+      },
+      target: {
+        default: null,
+        rendered: false,
+        parseHTML: (element) => findLink(element)?.getAttribute('target') || null,
+      },
+    };
+  },
+
+  parseHTML() {
+    const allowSrc = (element: HTMLElement) =>
+      this.options.allowBase64 || !(findImage(element)?.getAttribute('src') ?? '').startsWith('data:');
+    return [
+      {
+        tag: 'figure',
+        priority: 60,
+        getAttrs: (element) =>
+          isImageWrapper(element as HTMLElement, ['IMG', 'A', 'FIGCAPTION', 'PICTURE']) && allowSrc(element as HTMLElement)
+            ? null
+            : false,
+      },
+      {
+        // Before the Link mark, which would otherwise take the <a> and drop the image's link
+        tag: 'a[href]',
+        priority: 60,
+        getAttrs: (element) =>
+          isImageWrapper(element as HTMLElement, ['IMG']) && allowSrc(element as HTMLElement) ? null : false,
+      },
+      {
+        tag: this.options.allowBase64 ? 'img[src]' : 'img[src]:not([src^="data:"])',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const img: [string, Record<string, unknown>] = ['img', { ...this.options.HTMLAttributes, ...HTMLAttributes }];
+    const { align, caption, target } = node.attrs as ImageAttributes;
+    // JSON content is loaded without the sanitizer
+    const href = node.attrs.href && this.options.isAllowedUrl(node.attrs.href) ? (node.attrs.href as string) : null;
+    if (!align && caption === null && !href) return img;
+
+    const media = href
+      ? ['a', { href, target, rel: target === '_blank' ? 'noopener noreferrer' : null }, img]
+      : img;
+    return [
+      'figure',
+      { class: 'editor-image-figure', 'data-type': 'image', 'data-align': align },
+      media,
+      ...(caption !== null ? [['figcaption', {}, caption]] : []),
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, editor, getPos, HTMLAttributes }) =>
+      new ImageView(node, editor, getPos as () => number | undefined, HTMLAttributes);
+  },
+
+  addCommands() {
+    const update =
+      (attrs: Partial<ImageAttributes>) =>
+      ({ state, tr, dispatch }: CommandProps) => {
+        if (!getSelectedImage(state)) return false;
+        if (dispatch) dispatch(setImageAttributes(tr, state.selection.from, attrs));
+        return true;
+      };
+
+    return {
+      ...this.parent?.(),
+      setImageAlign: (align: ImageAlign) => update({ align: normalizeAlign(align) }),
+      setImageSize: (width: number | null, height: number | null = null) =>
+        update({ width: width && width > 0 ? Math.round(width) : null, height: width && height && height > 0 ? Math.round(height) : null }),
+      setImageCaption: (caption: string | null) => update({ caption }),
+      setImageAlt: (alt: string) => update({ alt: alt.trim() || null }),
+      setImageLink: (href: string | null, target: string | null = null) =>
+        update({ href: href?.trim() || null, target: href?.trim() ? target : null }),
+    };
+  },
+});
@@ -0,0 +1,313 @@
+/**
+ * ImageToolbar - contextual image controls shown above the selected image.
+ * Alignment and float, caption on / off, alternative text, link and original size.
+ * Resizing is done with the handles on the image itself (see Image.ts).
+ */
+
+import { ContentEditor } from './Editor';
+import type { ImageAlign } from './Image';
+import { showLinkPopup } from './LinkPopup';
+import { icons } from '../utils/icons';
+
+export interface ImageToolbarConfig {
+  editor: ContentEditor;
+  /** Element the toolbar is appended to (theme root) */
+  container: HTMLElement;
+  /** Returns current theme variables (same as the link popup) so the toolbar matches light/dark */
+  getThemeForPopup?: () => Record<string, string>;
+}
+
+interface ImageToolbarButton {
+  id: string;
+  icon: string;
+  title: string;
+  action: () => void;
+  isActive?: () => boolean;
+  isEnabled?: () => boolean;
+}
+
+/** Gap between the image and the toolbar */
+const OFFSET = 8;
+
+export class ImageToolbar {
+  private editor: ContentEditor;
+  private container: HTMLElement;
+  private element: HTMLElement;
+  private altPanel: HTMLElement;
+  private altInput: HTMLInputElement;
+  private getThemeForPopup?: () => Record<string, string>;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: ImageToolbarConfig) {
+    this.editor = config.editor;
+    this.container = config.container;
+    this.getThemeForPopup = config.getThemeForPopup;
+    this.element = this.createToolbar();
+    this.altPanel = this.createAltPanel();
+    this.altInput = this.altPanel.querySelector('input') as HTMLInputElement;
+    this.element.appendChild(this.altPanel);
+    this.container.appendChild(this.element);
+    this.setupListeners();
+  }
+
+  private getButtonGroups(): ImageToolbarButton[][] {
+    const image = () => this.editor.getSelectedImage();
+    const alignButton = (align: ImageAlign, icon: string, title: string): ImageToolbarButton => ({
+      id: `align-${align}`,
+      icon,
+      title,
+      action: () => this.editor.setImageAlign(align),
+      isActive: () => (image()?.align ?? 'left') === align,
+    });
+
+    return [
+      [
+        alignButton('left', icons.alignLeft, 'Align left'),
+        alignButton('center', icons.alignCenter, 'Align center'),
+        alignButton('right', icons.alignRight, 'Align right'),
+      ],
+      [
+        alignButton('float-left', icons.imageFloatLeft, 'Float left (text wraps on the right)'),
+        alignButton('float-right', icons.imageFloatRight, 'Float right (text wraps on the left)'),
+      ],
+      [
+        {
+          id: 'caption',
+          icon: icons.imageCaption,
+          title: 'Caption',
+          action: () => this.toggleCaption(),
+          isActive: () => image()?.caption != null,
+        },
+        {
+          id: 'alt',
+          icon: icons.imageAlt,
+          title: 'Alternative text',
+          action: () => this.toggleAltPanel(),
+          isActive: () => !!image()?.alt,
+        },
+        {
+          id: 'link',
+          icon: icons.link,
+          title: 'Link',
+          action: () => this.openLinkPopup(),
+          isActive: () => !!image()?.href,
+        },
+      ],
+      [
+        {
+          id: 'resetSize',
+          icon: icons.imageResetSize,
+          title: 'Original size',
+          action: () => this.editor.setImageSize(null),
+          isEnabled: () => !!image()?.width,
+        },
+      ],
+    ];
+  }
+
+  private createToolbar(): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'editor-image-toolbar';
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.setAttribute('aria-label', 'Image');
+    toolbar.style.display = 'none';
+
+    const row = document.createElement('div');
+    row.className = 'editor-image-toolbar-row';
+    this.getButtonGroups().forEach((group, index) => {
+      if (index > 0) {
+        const divider = document.createElement('span');
+        divider.className = 'editor-image-toolbar-divider';
+        row.appendChild(divider);
+      }
+      group.forEach((config) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'toolbar-btn';
+        button.dataset.action = config.id;
+        button.title = config.title;
+        button.innerHTML = config.icon;
+        button.addEventListener('click', (e) => {
+          e.preventDefault();
+          config.action();
+        });
+        row.appendChild(button);
+      });
+    });
+    toolbar.appendChild(row);
+
+    // Keep the selection (and editor focus) while using the toolbar; the alt text field takes focus
+    toolbar.addEventListener('mousedown', (e) => {
+      if (!(e.target as HTMLElement).closest('input')) e.preventDefault();
+    });
+
+    return toolbar;
+  }
+
+  private createAltPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.className = 'editor-image-toolbar-alt';
+    panel.style.display = 'none';
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'editor-image-toolbar-input';
+    input.placeholder = 'Describe the image';
+    input.setAttribute('aria-label', 'Alternative text');
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.saveAlt();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.closeAltPanel(true);
+      }
+    });
+
+    const save = document.createElement('button');
+    save.type = 'button';
+    save.className = 'bp-btn bp-btn-primary';
+    save.textContent = 'Save';
+    save.addEventListener('click', () => this.saveAlt());
+
+    panel.append(input, save);
+    return panel;
+  }
+
+  private toggleCaption(): void {
+    const image = this.editor.getSelectedImage();
+    if (!image) return;
+    if (image.caption !== null) {
+      this.editor.setImageCaption(null);
+      return;
+    }
+    this.editor.setImageCaption('');
+    // Put the cursor in the new caption
+    const view = this.editor.getTipTapEditor().view;
+    const dom = view.nodeDOM(view.state.selection.from) as HTMLElement | null;
+    (dom?.querySelector?.('figcaption') as HTMLElement | null)?.focus();
+  }
+
+  private toggleAltPanel(): void {
+    if (this.altPanel.style.display !== 'none') {
+      this.closeAltPanel(true);
+      return;
+    }
+    this.altInput.value = this.editor.getSelectedImage()?.alt ?? '';
+    this.altPanel.style.display = '';
+    this.position();
+    this.altInput.focus();
+    this.altInput.select();
+  }
+
+  private saveAlt(): void {
+    this.editor.setImageAlt(this.altInput.value);
+    this.closeAltPanel(false);
+  }
+
+  private closeAltPanel(refocus: boolean): void {
+    this.altPanel.style.display = 'none';
+    if (refocus) this.editor.focus();
+    this.position();
+  }
+
+  private openLinkPopup(): void {
+    const attrs = this.editor.getLinkAttributes();
+    this.hide();
+    showLinkPopup(this.editor, {
+      initialUrl: attrs?.href ?? '',
+      initialOpenInNewTab: attrs?.target === '_blank',
+      isEdit: attrs !== null,
+      noFocus: false,
+      themeRoot: this.container,
+      themeVariables: this.getThemeForPopup?.(),
+    });
+  }
+
+  private setupListeners(): void {
+    const tipTap = this.editor.getTipTapEditor();
+    const update = () => this.update();
+    const onBlur = ({ event }: { event: FocusEvent }) => {
+      // Focus moving into the alt text field keeps the toolbar open
+      if (event.relatedTarget instanceof Node && this.element.contains(event.relatedTarget)) return;
+      this.hide();
+    };
+    tipTap.on('selectionUpdate', update);
+    tipTap.on('transaction', update);
+    tipTap.on('focus', update);
+    tipTap.on('blur', onBlur);
+    const onScroll = () => {
+      if (this.element.style.display !== 'none') this.position();
+    };
+    window.addEventListener('scroll', onScroll, true);
+    this.unsubscribe = () => {
+      tipTap.off('selectionUpdate', update);
+      tipTap.off('transaction', update);
+      tipTap.off('focus', update);
+      tipTap.off('blur', onBlur);
+      window.removeEventListener('scroll', onScroll, true);
+    };
+  }
+
+  private shouldShow(): boolean {
+    const focused = this.editor.isFocused() || this.element.contains(document.activeElement);
+    return this.editor.isEditable() && focused && this.editor.getSelectedImage() !== null;
+  }
+
+  private update(): void {
+    if (!this.shouldShow()) {
+      this.hide();
+      return;
+    }
+    const wasHidden = this.element.style.display === 'none';
+    this.element.style.display = '';
+    if (wasHidden) this.applyTheme();
+    this.updateButtonStates();
+    this.position();
+  }
+
+  private applyTheme(): void {
+    const vars = this.getThemeForPopup?.();
+    if (!vars) return;
+    for (const [key, value] of Object.entries(vars)) {
+      if (value) this.element.style.setProperty(key, value);
+    }
+  }
+
+  private updateButtonStates(): void {
+    this.getButtonGroups().flat().forEach((config) => {
+      const btn = this.element.querySelector(`[data-action="${config.id}"]`) as HTMLButtonElement | null;
+      if (!btn) return;
+      if (config.isActive) btn.classList.toggle('active', config.isActive());
+      if (config.isEnabled) btn.disabled = !config.isEnabled();
+    });
+  }
+
+  /** Above the image's left edge (below its top when there is no room), kept inside the viewport */
+  private position(): void {
+    const view = this.editor.getTipTapEditor().view;
+    const dom = view.nodeDOM(view.state.selection.from) as HTMLElement | null;
+    const img = dom?.querySelector?.('img') ?? null;
+    if (!img) return;
+    const rect = img.getBoundingClientRect();
+    const toolbarWidth = this.element.offsetWidth;
+    const toolbarHeight = this.element.offsetHeight;
+
+    const top = rect.top - toolbarHeight - OFFSET >= 0
+      ? rect.top - toolbarHeight - OFFSET
+      : Math.min(Math.max(OFFSET, rect.top + OFFSET), rect.bottom - toolbarHeight);
+    const left = Math.max(OFFSET, Math.min(rect.left, window.innerWidth - toolbarWidth - OFFSET));
+    this.element.style.top = `${top}px`;
+    this.element.style.left = `${left}px`;
+  }
+
+  hide(): void {
+    this.element.style.display = 'none';
+    this.altPanel.style.display = 'none';
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.element.remove();
+  }
+}
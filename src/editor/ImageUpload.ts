@@ -0,0 +1,290 @@
+/**
+ * ImageUpload Extension
+ *
+ * Uploads local image files (file picker, paste, OS file drop) through a host-provided
+ * upload function (Bubble's file uploader in the plugin, object URLs in the mock).
+ * While a file uploads, an `imageUpload` placeholder node shows its progress or error;
+ * once the upload resolves, the placeholder is replaced with a regular image node.
+ */
+
+import { Node, mergeAttributes, Editor as TipTapEditor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+
+/** Upload a file and resolve with its public URL. Call onProgress with 0-100 when the host can report it. */
+export type ImageUploadHandler = (file: File, onProgress: (percent: number) => void) => Promise<string>;
+
+export interface ImageUploadOptions {
+  /** Upload function; when null, paste/drop of files falls through to the default behaviour */
+  upload: ImageUploadHandler | null;
+  /** Called after an upload finished and the image was inserted */
+  onUploaded: ((url: string, file: File) => void) | null;
+  /** Accept filter for the file picker */
+  accept: string;
+  /** Max file size in bytes (0 = unlimited) */
+  maxFileSize: number;
+  HTMLAttributes: Record<string, unknown>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    imageUpload: {
+      /**
+       * Upload image files and insert them at a position (defaults to the selection)
+       */
+      uploadImages: (files: File[], pos?: number) => ReturnType;
+      /**
+       * Open the file picker and upload the chosen images
+       */
+      openImagePicker: (pos?: number) => ReturnType;
+    };
+  }
+}
+
+const imageUploadPluginKey = new PluginKey('imageUpload');
+
+let uploadCounter = 0;
+
+function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+function createUploadId(): string {
+  uploadCounter += 1;
+  return `upload-${Date.now()}-${uploadCounter}`;
+}
+
+/** Find the placeholder for an upload; it may have moved (or been deleted) while the file was uploading. */
+function findPlaceholder(editor: TipTapEditor, uploadId: string): { pos: number; attrs: Record<string, unknown> } | null {
+  let found: { pos: number; attrs: Record<string, unknown> } | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (found) return false;
+    if (node.type.name === 'imageUpload' && node.attrs.uploadId === uploadId) {
+      found = { pos, attrs: node.attrs };
+      return false;
+    }
+    return true;
+  });
+  return found;
+}
+
+function updatePlaceholder(editor: TipTapEditor, uploadId: string, attrs: Record<string, unknown>): void {
+  if (editor.isDestroyed) return;
+  const placeholder = findPlaceholder(editor, uploadId);
+  if (!placeholder) return;
+  // Progress updates are not user edits; keep them out of the undo stack
+  const tr = editor.state.tr
+    .setNodeMarkup(placeholder.pos, undefined, { ...placeholder.attrs, ...attrs })
+    .setMeta('addToHistory', false);
+  editor.view.dispatch(tr);
+}
+
+function runUpload(editor: TipTapEditor, options: ImageUploadOptions, file: File, uploadId: string): void {
+  if (!options.upload) return;
+
+  options
+    .upload(file, (percent) => {
+      updatePlaceholder(editor, uploadId, { progress: Math.max(0, Math.min(100, Math.round(percent))) });
+    })
+    .then((url) => {
+      if (editor.isDestroyed) return;
+      const placeholder = findPlaceholder(editor, uploadId);
+      // Placeholder was removed while uploading: the user no longer wants the image
+      if (!placeholder) return;
+      const image = editor.schema.nodes.image.create({ src: url, alt: file.name.replace(/\.[^.]+$/, '') });
+      editor.view.dispatch(editor.state.tr.replaceWith(placeholder.pos, placeholder.pos + 1, image));
+      options.onUploaded?.(url, file);
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error || 'Upload failed');
+      console.error('[ImageUpload] Upload failed:', error);
+      updatePlaceholder(editor, uploadId, { error: message || 'Upload failed' });
+    });
+}
+
+export const ImageUpload = Node.create<ImageUploadOptions>({
+  name: 'imageUpload',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: false,
+
+  addOptions() {
+    return {
+      upload: null,
+      onUploaded: null,
+      accept: 'image/*',
+      maxFileSize: 0,
+      HTMLAttributes: {
+        class: 'editor-image-upload',
+      },
+    };
+  },
+
+  addAttributes() {
+    return {
+      uploadId: { default: null, rendered: false },
+      fileName: { default: '', rendered: false },
+      progress: { default: 0, rendered: false },
+      error: { default: null, rendered: false },
+    };
+  },
+
+  // Never parsed back from saved HTML: an interrupted upload has nothing to resume
+  parseHTML() {
+    return [];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        'data-type': 'image-upload',
+        'data-upload-id': node.attrs.uploadId,
+      }),
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const dom = document.createElement('div');
+      dom.className = 'editor-image-upload';
+      dom.contentEditable = 'false';
+
+      const label = document.createElement('div');
+      label.className = 'editor-image-upload-label';
+
+      const track = document.createElement('div');
+      track.className = 'editor-image-upload-track';
+      const bar = document.createElement('div');
+      bar.className = 'editor-image-upload-bar';
+      track.appendChild(bar);
+
+      const dismiss = document.createElement('button');
+      dismiss.type = 'button';
+      dismiss.className = 'editor-image-upload-dismiss';
+      dismiss.title = 'Remove';
+      dismiss.textContent = '×';
+      dismiss.addEventListener('mousedown', (e) => e.preventDefault());
+      dismiss.addEventListener('click', () => {
+        const pos = typeof getPos === 'function' ? getPos() : undefined;
+        if (typeof pos !== 'number') return;
+        editor.view.dispatch(editor.state.tr.delete(pos, pos + 1));
+      });
+
+      dom.append(label, track, dismiss);
+
+      const render = (attrs: Record<string, unknown>) => {
+        const error = attrs.error as string | null;
+        const progress = (attrs.progress as number) || 0;
+        const fileName = (attrs.fileName as string) || 'image';
+        dom.classList.toggle('is-error', !!error);
+        label.textContent = error
+          ? `Couldn't upload ${fileName}: ${error}`
+          : `Uploading ${fileName}… ${progress}%`;
+        bar.style.width = `${error ? 100 : progress}%`;
+      };
+      render(node.attrs);
+
+      return {
+        dom,
+        update: (updatedNode) => {
+          if (updatedNode.type.name !== this.name) return false;
+          render(updatedNode.attrs);
+          return true;
+        },
+        ignoreMutation: () => true,
+      };
+    };
+  },
+
+  addCommands() {
+    return {
+      uploadImages:
+        (files: File[], pos?: number) =>
+        ({ editor, commands, dispatch }) => {
+          const images = files.filter(isImageFile);
+          if (!this.options.upload || images.length === 0) return false;
+
+          const maxFileSize = this.options.maxFileSize;
+          const uploads = images.map((file) => ({
+            file,
+            uploadId: createUploadId(),
+            tooLarge: maxFileSize > 0 && file.size > maxFileSize,
+          }));
+          const content = uploads.map(({ file, uploadId, tooLarge }) => ({
+            type: this.name,
+            attrs: {
+              uploadId,
+              fileName: file.name,
+              error: tooLarge ? `File is larger than ${Math.round(maxFileSize / 1024 / 1024)} MB` : null,
+            },
+          }));
+
+          const inserted = pos === undefined
+            ? commands.insertContent(content)
+            : commands.insertContentAt(Math.min(pos, editor.state.doc.content.size), content);
+          if (!inserted || !dispatch) return inserted;
+
+          // Start after this command's transaction is dispatched so the placeholders exist
+          Promise.resolve().then(() => {
+            uploads
+              .filter((u) => !u.tooLarge)
+              .forEach(({ file, uploadId }) => runUpload(editor, this.options, file, uploadId));
+          });
+          return true;
+        },
+      openImagePicker:
+        (pos?: number) =>
+        ({ editor, dispatch }) => {
+          if (!this.options.upload) return false;
+          if (!dispatch) return true;
+
+          const input = document.createElement('input');
+          input.type = 'file';
+          input.accept = this.options.accept;
+          input.multiple = true;
+          input.addEventListener('change', () => {
+            const files = Array.from(input.files ?? []);
+            if (files.length > 0) {
+              editor.commands.uploadImages(files, pos);
+            }
+          });
+          input.click();
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+    const options = this.options;
+
+    return [
+      new Plugin({
+        key: imageUploadPluginKey,
+        props: {
+          handlePaste(_view, event) {
+            if (!options.upload) return false;
+            const files = Array.from(event.clipboardData?.files ?? []).filter(isImageFile);
+            if (files.length === 0) return false;
+            // Images copied from a web page or document also carry HTML; let the normal paste handle those
+            if (event.clipboardData?.getData('text/html')) return false;
+            return editor.commands.uploadImages(files);
+          },
+          handleDrop(view, event, _slice, moved) {
+            if (!options.upload || moved) return false;
+            const files = Array.from(event.dataTransfer?.files ?? []).filter(isImageFile);
+            if (files.length === 0) return false;
+            const coords = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            event.preventDefault();
+            return editor.commands.uploadImages(files, coords?.pos);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,179 @@
+/**
+ * Mention Extension
+ *
+ * Typing "@" at the start of a line (or after a space) opens a menu of users:
+ * - The users are read through a getter so the Bubble list can change at runtime
+ * - Typing after the "@" filters by name (then id)
+ * - The chosen user is inserted as an inline atom chip that stores the user's id and display name
+ *
+ * Stored HTML: <span data-type="mention" data-id="..." data-label="..." class="editor-mention">@Name</span>
+ */
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { createSuggestionPlugin, SuggestionItem, SuggestionState } from './SuggestionMenu';
+import type { MentionUser } from '../utils/mentionUsers';
+
+export interface MentionOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /** Users offered by the "@" menu */
+  getUsers: () => MentionUser[];
+}
+
+interface MentionItem extends SuggestionItem {
+  user: MentionUser;
+}
+
+const mentionPluginKey = new PluginKey<SuggestionState>('mention');
+
+/** Most users listed in the menu at once */
+const MAX_ITEMS = 8;
+
+function escapeAttr(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  const letters = parts.length > 1 ? parts[0][0] + parts[parts.length - 1][0] : (parts[0] ?? '?').slice(0, 2);
+  return escapeAttr(letters.toUpperCase());
+}
+
+function avatarHTML(user: MentionUser): string {
+  return user.avatar ? `<img src="${escapeAttr(user.avatar)}" alt="" />` : initials(user.name);
+}
+
+function filterUsers(users: MentionUser[], query: string): MentionItem[] {
+  const q = query.toLowerCase();
+  // Names starting with the query first, then names / ids containing it
+  const starts: MentionUser[] = [];
+  const contains: MentionUser[] = [];
+  users.forEach((user) => {
+    const name = user.name.toLowerCase();
+    if (!q || name.startsWith(q) || name.split(/\s+/).some((word) => word.startsWith(q))) {
+      starts.push(user);
+    } else if (name.includes(q) || user.id.toLowerCase().includes(q)) {
+      contains.push(user);
+    }
+  });
+  return [...starts, ...contains].slice(0, MAX_ITEMS).map((user) => ({
+    id: user.id,
+    title: user.name,
+    icon: avatarHTML(user),
+    user,
+  }));
+}
+
+/**
+ * Ids of the users mentioned in the document (document order, no duplicates)
+ */
+export function getMentionedUserIds(doc: ProseMirrorNode): string[] {
+  const ids: string[] = [];
+  doc.descendants((node) => {
+    if (node.type.name === 'mention' && node.attrs.id && !ids.includes(node.attrs.id)) {
+      ids.push(node.attrs.id);
+    }
+    return true;
+  });
+  return ids;
+}
+
+/**
+ * Ids mentioned in `after` that weren't mentioned in `before` (e.g. the document before and after a transaction)
+ */
+export function getAddedMentionIds(before: ProseMirrorNode, after: ProseMirrorNode): string[] {
+  const previous = getMentionedUserIds(before);
+  return getMentionedUserIds(after).filter((id) => !previous.includes(id));
+}
+
+export const Mention = Node.create<MentionOptions>({
+  name: 'mention',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'editor-mention',
+      },
+      getUsers: () => [],
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-id'),
+        renderHTML: (attributes) => (attributes.id ? { 'data-id': attributes.id } : {}),
+      },
+      label: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-label') ?? element.textContent?.replace(/^@/, '') ?? null,
+        renderHTML: (attributes) => (attributes.label ? { 'data-label': attributes.label } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="mention"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-type': 'mention' }, this.options.HTMLAttributes, HTMLAttributes),
+      `@${node.attrs.label ?? node.attrs.id ?? ''}`,
+    ];
+  },
+
+  renderText({ node }) {
+    return `@${node.attrs.label ?? node.attrs.id ?? ''}`;
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      // Backspace right after a chip turns it back into "@" so the menu reopens
+      Backspace: () =>
+        this.editor.commands.command(({ tr, state }) => {
+          const { selection } = state;
+          if (!selection.empty) return false;
+          const before = selection.$from.nodeBefore;
+          if (!before || before.type.name !== this.name) return false;
+          tr.insertText('@', selection.from - before.nodeSize, selection.from);
+          return true;
+        }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      createSuggestionPlugin<MentionItem>({
+        pluginKey: mentionPluginKey,
+        editor: this.editor,
+        char: '@',
+        className: 'editor-mention-menu',
+        getItems: (query) => filterUsers(options.getUsers(), query),
+        onSelect: (editor, item, range) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, [
+              { type: 'mention', attrs: { id: item.user.id, label: item.user.name } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,165 @@
+/**
+ * MergeField Extension
+ *
+ * Template variables such as {{first_name}} for email and document templates:
+ * - Typing "{{" opens a menu of the field names (read through a getter so Bubble can change the list)
+ * - Typing a complete {{name}} or {{name|fallback}} converts it to a field
+ * - Fields are inline, non-editable chips; double-click one to change its fallback
+ * - Values are filled in when rendering (ContentEditor.render, email export with mergeData)
+ *
+ * Stored HTML: <span data-type="merge-field" data-name="first_name" data-fallback="there" class="editor-merge-field">{{first_name}}</span>
+ */
+
+import { Node, InputRule, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { createSuggestionPlugin, SuggestionItem, SuggestionState } from './SuggestionMenu';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mergeField: {
+      /**
+       * Insert a merge field at the cursor
+       */
+      insertMergeField: (name: string, fallback?: string | null) => ReturnType;
+      /**
+       * Set the fallback of the selected merge field (empty removes it)
+       */
+      setMergeFieldFallback: (fallback: string | null) => ReturnType;
+    };
+  }
+}
+
+export interface MergeFieldOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /** Field names offered by the "{{" menu */
+  getFieldNames: () => string[];
+}
+
+const mergeFieldPluginKey = new PluginKey<SuggestionState>('mergeField');
+const mergeFieldEditPluginKey = new PluginKey('mergeFieldEdit');
+
+/** {{name}} or {{name|fallback}} just typed */
+const MERGE_FIELD_INPUT_REGEX = /\{\{\s*([\w.-]+)\s*(?:\|([^{}]*))?\}\}$/;
+
+/** Most fields listed in the menu at once */
+const MAX_ITEMS = 10;
+
+function filterFieldNames(names: string[], query: string): SuggestionItem[] {
+  const q = query.toLowerCase();
+  const matching = q ? names.filter((name) => name.toLowerCase().includes(q)) : names;
+  // Names starting with the query first
+  const sorted = [...matching].sort((a, b) => Number(!a.toLowerCase().startsWith(q)) - Number(!b.toLowerCase().startsWith(q)));
+  return sorted.slice(0, MAX_ITEMS).map((name) => ({ id: name, title: `{{${name}}}` }));
+}
+
+export const MergeField = Node.create<MergeFieldOptions>({
+  name: 'mergeField',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {
+        class: 'editor-merge-field',
+      },
+      getFieldNames: () => [],
+    };
+  },
+
+  addAttributes() {
+    return {
+      name: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-name') ?? '',
+        renderHTML: (attributes) => ({ 'data-name': attributes.name }),
+      },
+      fallback: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-fallback'),
+        renderHTML: (attributes) => (attributes.fallback ? { 'data-fallback': attributes.fallback } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="merge-field"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-type': 'merge-field' }, this.options.HTMLAttributes, HTMLAttributes),
+      `{{${node.attrs.name}}}`,
+    ];
+  },
+
+  renderText({ node }) {
+    return `{{${node.attrs.name}}}`;
+  },
+
+  addCommands() {
+    return {
+      insertMergeField:
+        (name, fallback) =>
+        ({ commands }) => {
+          const trimmed = name.trim();
+          if (!trimmed) return false;
+          return commands.insertContent({ type: this.name, attrs: { name: trimmed, fallback: fallback || null } });
+        },
+      setMergeFieldFallback:
+        (fallback) =>
+        ({ commands }) => commands.updateAttributes(this.name, { fallback: fallback || null }),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: MERGE_FIELD_INPUT_REGEX,
+        handler: ({ state, range, match }) => {
+          const fallback = match[2]?.trim();
+          state.tr.replaceWith(range.from, range.to, this.type.create({ name: match[1], fallback: fallback || null }));
+        },
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      createSuggestionPlugin<SuggestionItem>({
+        pluginKey: mergeFieldPluginKey,
+        editor: this.editor,
+        char: '{{',
+        className: 'editor-merge-field-menu',
+        getItems: (query) => filterFieldNames(options.getFieldNames(), query),
+        onSelect: (editor, item, range) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, { type: this.name, attrs: { name: item.id } })
+            .run();
+        },
+      }),
+      new Plugin({
+        key: mergeFieldEditPluginKey,
+        props: {
+          handleDoubleClickOn: (view, pos, node) => {
+            if (node.type.name !== this.name || !view.editable) return false;
+            const fallback = window.prompt(`Fallback for {{${node.attrs.name}}} (used when there is no value):`, node.attrs.fallback ?? '');
+            if (fallback === null) return true;
+            view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, fallback: fallback.trim() || null }));
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
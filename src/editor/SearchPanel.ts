@@ -0,0 +1,181 @@
+/**
+ * SearchPanel - find / replace bar in the top-right corner of the editor (Mod-F / Mod-H).
+ * Enter / Shift+Enter step through matches, Escape closes and clears the highlights.
+ */
+
+import { ContentEditor } from './Editor';
+import type { SearchOptions, SearchPanelMode } from './SearchReplace';
+import { icons } from '../utils/icons';
+
+export interface SearchPanelConfig {
+  editor: ContentEditor;
+  /** Editor wrapper the panel is positioned in */
+  container: HTMLElement;
+}
+
+const OPTION_TOGGLES: { option: keyof SearchOptions; label: string; title: string }[] = [
+  { option: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { option: 'wholeWord', label: 'W', title: 'Whole word' },
+  { option: 'regex', label: '.*', title: 'Regular expression' },
+];
+
+export class SearchPanel {
+  private editor: ContentEditor;
+  private container: HTMLElement;
+  private element: HTMLElement;
+  private queryInput: HTMLInputElement;
+  private replaceInput: HTMLInputElement;
+  private countLabel: HTMLElement;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: SearchPanelConfig) {
+    this.editor = config.editor;
+    this.container = config.container;
+    this.element = this.createPanel();
+    this.queryInput = this.element.querySelector('[data-search-input="query"]') as HTMLInputElement;
+    this.replaceInput = this.element.querySelector('[data-search-input="replacement"]') as HTMLInputElement;
+    this.countLabel = this.element.querySelector('.editor-search-count') as HTMLElement;
+    this.container.appendChild(this.element);
+    this.bindEvents();
+
+    const tipTap = this.editor.getTipTapEditor();
+    const update = () => this.updateResults();
+    tipTap.on('transaction', update);
+    this.unsubscribe = () => tipTap.off('transaction', update);
+  }
+
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.className = 'editor-search-panel';
+    panel.setAttribute('role', 'search');
+    panel.style.display = 'none';
+    panel.innerHTML = `
+      <div class="editor-search-row">
+        <input type="text" class="editor-search-input" data-search-input="query" placeholder="Find" aria-label="Find" spellcheck="false" />
+        ${OPTION_TOGGLES.map((t) => `<button type="button" class="editor-search-toggle" data-search-option="${t.option}" title="${t.title}" aria-pressed="false">${t.label}</button>`).join('')}
+        <span class="editor-search-count" aria-live="polite"></span>
+        <button type="button" class="toolbar-btn" data-search-action="previous" title="Previous match (Shift+Enter)">${icons.chevronUp}</button>
+        <button type="button" class="toolbar-btn" data-search-action="next" title="Next match (Enter)">${icons.chevronDown}</button>
+        <button type="button" class="toolbar-btn" data-search-action="close" title="Close (Escape)">${icons.close}</button>
+      </div>
+      <div class="editor-search-row editor-search-replace-row">
+        <input type="text" class="editor-search-input" data-search-input="replacement" placeholder="Replace" aria-label="Replace" spellcheck="false" />
+        <button type="button" class="editor-search-btn" data-search-action="replace">Replace</button>
+        <button type="button" class="editor-search-btn" data-search-action="replaceAll">Replace all</button>
+      </div>
+    `;
+    return panel;
+  }
+
+  private bindEvents(): void {
+    this.queryInput.addEventListener('input', () => {
+      this.editor.setSearchQuery(this.queryInput.value);
+    });
+
+    this.element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.close();
+      } else if (e.key === 'Enter' && e.target === this.queryInput) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.editor.findPrevious();
+        } else {
+          this.editor.findNext();
+        }
+      } else if (e.key === 'Enter' && e.target === this.replaceInput) {
+        e.preventDefault();
+        this.editor.replaceMatch(this.replaceInput.value);
+      }
+    });
+
+    this.element.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const toggle = target.closest('[data-search-option]') as HTMLElement | null;
+      if (toggle) {
+        const option = toggle.dataset.searchOption as keyof SearchOptions;
+        const current = this.editor.getSearchResults().options[option];
+        this.editor.setSearchOptions({ [option]: !current });
+        return;
+      }
+
+      const action = (target.closest('[data-search-action]') as HTMLElement | null)?.dataset.searchAction;
+      switch (action) {
+        case 'previous':
+          this.editor.findPrevious();
+          break;
+        case 'next':
+          this.editor.findNext();
+          break;
+        case 'replace':
+          this.editor.replaceMatch(this.replaceInput.value);
+          break;
+        case 'replaceAll':
+          this.editor.replaceAllMatches(this.replaceInput.value);
+          break;
+        case 'close':
+          this.close();
+          break;
+      }
+    });
+  }
+
+  /** Show the panel (replace row only in replace mode), prefilled with the selected text */
+  open(mode: SearchPanelMode = 'find'): void {
+    this.element.style.display = '';
+    this.element.classList.toggle('is-replace', mode === 'replace');
+
+    const selected = this.editor.getSelectedText();
+    if (selected) {
+      this.queryInput.value = selected;
+    }
+    if (this.queryInput.value !== this.editor.getSearchResults().query) {
+      this.editor.setSearchQuery(this.queryInput.value);
+    }
+    this.updateResults();
+    this.queryInput.focus();
+    this.queryInput.select();
+  }
+
+  close(): void {
+    if (!this.isOpen()) return;
+    this.element.style.display = 'none';
+    this.editor.clearSearch();
+    this.editor.focus();
+  }
+
+  isOpen(): boolean {
+    return this.element.style.display !== 'none';
+  }
+
+  private updateResults(): void {
+    if (!this.isOpen()) return;
+    const results = this.editor.getSearchResults();
+
+    this.element.querySelectorAll('[data-search-option]').forEach((el) => {
+      const option = (el as HTMLElement).dataset.searchOption as keyof SearchOptions;
+      el.classList.toggle('active', results.options[option]);
+      el.setAttribute('aria-pressed', String(results.options[option]));
+    });
+
+    this.queryInput.classList.toggle('has-error', !!results.error);
+    this.queryInput.title = results.error ?? '';
+    if (!results.query) {
+      this.countLabel.textContent = '';
+    } else if (results.error) {
+      this.countLabel.textContent = 'Invalid';
+    } else {
+      this.countLabel.textContent = results.total ? `${results.current} of ${results.total}` : 'No results';
+    }
+
+    const noMatches = results.total === 0;
+    this.element.querySelectorAll('[data-search-action="previous"], [data-search-action="next"], [data-search-action="replace"], [data-search-action="replaceAll"]').forEach((el) => {
+      (el as HTMLButtonElement).disabled = noMatches;
+    });
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.element.remove();
+  }
+}
@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+describe('Regular expression replacements', () => {
+  it('expands groups from the match in its paragraph', () => {
+    const ed = createTestEditor({ content: '<p>Pay $5 or $12 now</p>' });
+    ed.setSearchQuery('(?<=\\$)(\\d+)', { regex: true });
+
+    expect(ed.replaceAllMatches('$1.00')).toBe(2);
+    expect(ed.getText()).toBe('Pay $5.00 or $12.00 now');
+  });
+
+  it('expands named groups and the text around the match', () => {
+    const ed = createTestEditor({ content: '<p>Ada Lovelace</p>' });
+    ed.setSearchQuery('(?<first>\\w+) (?<last>\\w+)', { regex: true });
+
+    ed.replaceMatch("$<last>, $<first> ($$, $&, [$`|$'])");
+    expect(ed.getText()).toBe('Lovelace, Ada ($, Ada Lovelace, [|])');
+  });
+
+  it('inserts the replacement as-is without the regex option', () => {
+    const ed = createTestEditor({ content: '<p>a.b a.b</p>' });
+    ed.setSearchQuery('a.b');
+
+    ed.replaceAllMatches('$1');
+    expect(ed.getText()).toBe('$1 $1');
+  });
+});
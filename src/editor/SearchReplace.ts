@@ -0,0 +1,365 @@
+/**
+ * SearchReplace Extension
+ *
+ * Find and replace across the whole document (every textblock, including columns, div blocks
+ * and table cells):
+ * - Match case, whole word and regular expression options
+ * - All matches are highlighted with decorations; the current one is selected and scrolled to
+ * - Replace all runs as a single transaction, so one undo restores everything
+ * - Mod-F / Mod-H ask the host to open its find / replace UI
+ */
+
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey, EditorState, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    searchReplace: {
+      /**
+       * Set the search text (and optionally the options); the first match after the cursor becomes current
+       */
+      setSearchQuery: (query: string, options?: Partial<SearchOptions>) => ReturnType;
+      /**
+       * Change match case / whole word / regex options
+       */
+      setSearchOptions: (options: Partial<SearchOptions>) => ReturnType;
+      /**
+       * Select the next match (wraps around)
+       */
+      nextSearchMatch: () => ReturnType;
+      /**
+       * Select the previous match (wraps around)
+       */
+      previousSearchMatch: () => ReturnType;
+      /**
+       * Replace the current match; the following match becomes current
+       */
+      replaceSearchMatch: (replacement: string) => ReturnType;
+      /**
+       * Replace every match in one transaction
+       */
+      replaceAllSearchMatches: (replacement: string) => ReturnType;
+      /**
+       * Clear the search text and highlights
+       */
+      clearSearch: () => ReturnType;
+    };
+  }
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Treat the query as a regular expression; replacements may use $1, $2, ... */
+  regex: boolean;
+}
+
+export type SearchPanelMode = 'find' | 'replace';
+
+export interface SearchReplaceOptions {
+  /** Called for Mod-F / Mod-H; without it the browser's own shortcuts are left alone */
+  onOpenPanel: ((mode: SearchPanelMode) => void) | null;
+}
+
+export interface SearchResults {
+  query: string;
+  options: SearchOptions;
+  total: number;
+  /** 1-based index of the current match (0 when there is none) */
+  current: number;
+  /** Invalid regular expression message */
+  error: string | null;
+}
+
+interface SearchMatch {
+  from: number;
+  to: number;
+  /** The match within its textblock's text, for expanding $1, $<name>, $` ... in replacements */
+  result: RegExpExecArray;
+}
+
+interface SearchState {
+  query: string;
+  options: SearchOptions;
+  matches: SearchMatch[];
+  currentIndex: number;
+  error: string | null;
+  decorations: DecorationSet;
+}
+
+interface SearchMeta {
+  query?: string;
+  options?: Partial<SearchOptions>;
+  currentIndex?: number;
+}
+
+const searchReplacePluginKey = new PluginKey<SearchState>('searchReplace');
+
+/** Stop collecting matches past this many (a one-letter query in a long document) */
+const MAX_MATCHES = 5000;
+
+const DEFAULT_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildRegExp(query: string, options: SearchOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+function findMatches(doc: ProseMirrorNode, regex: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (matches.length >= MAX_MATCHES) return false;
+    if (!node.isTextblock) return true;
+
+    // One character per position: text as-is, inline leaves (hard breaks, ...) as a placeholder that never matches words
+    let text = '';
+    node.forEach((child) => {
+      text += child.isText ? child.text ?? '' : '\ufffc'.repeat(child.nodeSize);
+    });
+
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null && matches.length < MAX_MATCHES) {
+      if (match[0].length === 0) {
+        regex.lastIndex += 1;
+        continue;
+      }
+      const from = pos + 1 + match.index;
+      matches.push({ from, to: from + match[0].length, result: match });
+    }
+    return false;
+  });
+  return matches;
+}
+
+function buildDecorations(doc: ProseMirrorNode, matches: SearchMatch[], currentIndex: number): DecorationSet {
+  if (matches.length === 0) return DecorationSet.empty;
+  return DecorationSet.create(
+    doc,
+    matches.map((m, i) =>
+      Decoration.inline(m.from, m.to, {
+        class: i === currentIndex ? 'editor-search-match is-current' : 'editor-search-match',
+      })
+    )
+  );
+}
+
+/** Index of the first match starting at or after pos (wrapping to the first match) */
+function indexFrom(matches: SearchMatch[], pos: number): number {
+  if (matches.length === 0) return -1;
+  const index = matches.findIndex((m) => m.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+function search(doc: ProseMirrorNode, query: string, options: SearchOptions): { matches: SearchMatch[]; error: string | null } {
+  if (!query) return { matches: [], error: null };
+  try {
+    return { matches: findMatches(doc, buildRegExp(query, options)), error: null };
+  } catch (err) {
+    return { matches: [], error: (err as Error).message };
+  }
+}
+
+const EMPTY_STATE: SearchState = {
+  query: '',
+  options: DEFAULT_OPTIONS,
+  matches: [],
+  currentIndex: -1,
+  error: null,
+  decorations: DecorationSet.empty,
+};
+
+function applySearch(tr: Transaction, prev: SearchState, newState: EditorState): SearchState {
+  const meta = tr.getMeta(searchReplacePluginKey) as SearchMeta | undefined;
+
+  if (meta && (meta.query !== undefined || meta.options)) {
+    const query = meta.query ?? prev.query;
+    const options = { ...prev.options, ...meta.options };
+    const { matches, error } = search(newState.doc, query, options);
+    const currentIndex = indexFrom(matches, newState.selection.from);
+    return { query, options, matches, currentIndex, error, decorations: buildDecorations(newState.doc, matches, currentIndex) };
+  }
+
+  if (meta?.currentIndex !== undefined) {
+    const currentIndex = prev.matches.length ? meta.currentIndex : -1;
+    return { ...prev, currentIndex, decorations: buildDecorations(newState.doc, prev.matches, currentIndex) };
+  }
+
+  if (tr.docChanged && prev.query) {
+    const { matches, error } = search(newState.doc, prev.query, prev.options);
+    // Stay on the match at (or after) where the current one was
+    const previous = prev.matches[prev.currentIndex];
+    const currentIndex = previous ? indexFrom(matches, tr.mapping.map(previous.from)) : indexFrom(matches, 0);
+    return { ...prev, matches, currentIndex, error, decorations: buildDecorations(newState.doc, matches, currentIndex) };
+  }
+
+  return prev;
+}
+
+function getSearchState(state: EditorState): SearchState {
+  return searchReplacePluginKey.getState(state) ?? EMPTY_STATE;
+}
+
+export function getSearchResults(state: EditorState): SearchResults {
+  const search = getSearchState(state);
+  return {
+    query: search.query,
+    options: search.options,
+    total: search.matches.length,
+    current: search.currentIndex + 1,
+    error: search.error,
+  };
+}
+
+/** Expand $$, $&, $`, $', $1 ... $99 and $<name> the way String.prototype.replace does */
+function expandReplacement(result: RegExpExecArray, replacement: string): string {
+  const captures = result.length - 1;
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return result[0];
+    if (ref === '`') return result.input.slice(0, result.index);
+    if (ref === "'") return result.input.slice(result.index + result[0].length);
+    if (name !== undefined) return result.groups ? result.groups[name] ?? '' : token;
+    // $12 refers to group 12 when there is one, otherwise to group 1 followed by "2"
+    const two = parseInt(ref, 10);
+    if (ref.length === 2 && two >= 1 && two <= captures) return result[two] ?? '';
+    const one = parseInt(ref[0], 10);
+    if (one >= 1 && one <= captures) return (result[one] ?? '') + ref.slice(1);
+    return token;
+  });
+}
+
+/** Text for one replacement: regex replacements may reference groups ($1 ...) */
+function replacementFor(search: SearchState, match: SearchMatch, replacement: string): string {
+  return search.options.regex ? expandReplacement(match.result, replacement) : replacement;
+}
+
+function replaceRange(tr: Transaction, from: number, to: number, text: string): void {
+  if (text) {
+    tr.insertText(text, from, to);
+  } else {
+    tr.delete(from, to);
+  }
+}
+
+export const SearchReplace = Extension.create<SearchReplaceOptions>({
+  name: 'searchReplace',
+
+  addOptions() {
+    return {
+      onOpenPanel: null,
+    };
+  },
+
+  addCommands() {
+    const selectMatch = (tr: Transaction, index: number, match: SearchMatch) => {
+      tr.setMeta(searchReplacePluginKey, { currentIndex: index } as SearchMeta)
+        .setSelection(TextSelection.create(tr.doc, match.from, match.to))
+        .scrollIntoView();
+    };
+
+    return {
+      setSearchQuery:
+        (query, options) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(searchReplacePluginKey, { query, options } as SearchMeta);
+          return true;
+        },
+      setSearchOptions:
+        (options) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(searchReplacePluginKey, { options } as SearchMeta);
+          return true;
+        },
+      nextSearchMatch:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (search.matches.length === 0) return false;
+          // The current match is already selected the first time; move on from there afterwards
+          const selected = search.matches[search.currentIndex];
+          const isSelected = selected && state.selection.from === selected.from && state.selection.to === selected.to;
+          const index = isSelected ? (search.currentIndex + 1) % search.matches.length : Math.max(search.currentIndex, 0);
+          if (dispatch) selectMatch(tr, index, search.matches[index]);
+          return true;
+        },
+      previousSearchMatch:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (search.matches.length === 0) return false;
+          const index = (search.currentIndex - 1 + search.matches.length) % search.matches.length;
+          if (dispatch) selectMatch(tr, index, search.matches[index]);
+          return true;
+        },
+      replaceSearchMatch:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          const match = search.matches[search.currentIndex];
+          if (!match) return false;
+          if (dispatch) {
+            replaceRange(tr, match.from, match.to, replacementFor(search, match, replacement));
+          }
+          return true;
+        },
+      replaceAllSearchMatches:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state);
+          if (search.matches.length === 0) return false;
+          if (dispatch) {
+            // Back to front so earlier positions stay valid
+            for (let i = search.matches.length - 1; i >= 0; i--) {
+              const match = search.matches[i];
+              replaceRange(tr, match.from, match.to, replacementFor(search, match, replacement));
+            }
+          }
+          return true;
+        },
+      clearSearch:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(searchReplacePluginKey, { query: '' } as SearchMeta);
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-f': () => {
+        if (!this.options.onOpenPanel) return false;
+        this.options.onOpenPanel('find');
+        return true;
+      },
+      'Mod-h': () => {
+        if (!this.options.onOpenPanel) return false;
+        this.options.onOpenPanel('replace');
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchReplacePluginKey,
+        state: {
+          init: () => EMPTY_STATE,
+          apply: (tr, prev, _oldState, newState) => applySearch(tr, prev, newState),
+        },
+        props: {
+          decorations: (state) => getSearchState(state).decorations,
+        },
+      }),
+    ];
+  },
+});
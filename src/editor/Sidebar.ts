@@ -9,12 +9,19 @@
  * - Padding controls with ALL toggle
  */
 
-import { ContentEditor, EditorCommandOptions } from './Editor';
+import { CellSelection } from '@tiptap/pm/tables';
+import { ContentEditor, EditorCommandOptions, HeadingLevel } from './Editor';
 import { showLinkPopup } from './LinkPopup';
+import type { SearchOptions } from './SearchReplace';
+import type { CommentThread, CommentReply } from '../utils/comments';
+import type { Suggestion } from './Suggestions';
+import type { PreflightIssue } from '../utils/emailPreflight';
 import { defaultColorPalette } from '../utils/themeApplier';
 
 /** Run editor commands without focusing (keeps toolbar hidden when sidebar is open). */
 const NO_FOCUS: EditorCommandOptions = { focus: false };
+/** Pause after the last edit before the email check runs again (ms) */
+const EMAIL_CHECK_DELAY = 600;
 import { icons } from '../utils/icons';
 import { DragDropManager, DragData } from '../utils/DragDropManager';
 import { createLinkAllControlHTML } from '../components/LinkAllControl';
@@ -28,6 +35,10 @@ export { SIDEBAR_SECTION_IDS } from '../components/CollapsibleSection';
 import { parseLengthInput, lengthToPxForDemo } from '../utils/parseLength';
 import { normalizeColorPalette, normalizeColorToHex, type ColorOption, type BubbleColorThing } from '../utils/colorOptions';
 
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 export interface SidebarConfig {
   editor: ContentEditor;
   container: HTMLElement;
@@ -99,6 +110,11 @@ export class Sidebar {
 
   private visibleSections: SidebarSectionId[];
   private defaultCollapsedSet: Set<SidebarSectionId>;
+  /** Threads last rendered in the comments section */
+  private commentsSignature = '';
+  /** Suggestions last rendered in the suggestions section */
+  private suggestionsSignature = '';
+  private emailCheckTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(config: SidebarConfig) {
     this.editor = config.editor;
@@ -174,6 +190,10 @@ export class Sidebar {
     borders: 'Borders & corners',
     backgrounds: 'Backgrounds',
     layout: 'Layout',
+    search: 'Find & replace',
+    comments: 'Comments',
+    suggestions: 'Suggestions',
+    email: 'Email check',
   };
 
   private buildSectionsHTML(): string {
@@ -196,6 +216,10 @@ export class Sidebar {
       case 'borders': return this.getBordersBody();
       case 'backgrounds': return this.getBackgroundsBody();
       case 'layout': return this.getLayoutBody();
+      case 'search': return this.getSearchBody();
+      case 'comments': return this.getCommentsBody();
+      case 'suggestions': return this.getSuggestionsBody();
+      case 'email': return this.getEmailCheckBody();
       default: return '';
     }
   }
@@ -552,6 +576,72 @@ export class Sidebar {
     `;
   }
 
+  private getSearchBody(): string {
+    return `
+        <div class="bp-control-group">
+          <input type="text" class="bp-input" data-search="query" placeholder="Find" aria-label="Find" spellcheck="false" />
+          <div class="bp-btn-row">
+            <button class="bp-btn" data-action="searchOption" data-search-option="caseSensitive" title="Match case">Aa</button>
+            <button class="bp-btn" data-action="searchOption" data-search-option="wholeWord" title="Whole word">W</button>
+            <button class="bp-btn" data-action="searchOption" data-search-option="regex" title="Regular expression">.*</button>
+            <span class="bp-search-count" data-search-count></span>
+            <button class="bp-btn bp-btn-icon" data-action="searchPrevious" title="Previous match">
+              ${icons.chevronUp}
+            </button>
+            <button class="bp-btn bp-btn-icon" data-action="searchNext" title="Next match">
+              ${icons.chevronDown}
+            </button>
+          </div>
+        </div>
+        <div class="bp-control-group">
+          <input type="text" class="bp-input" data-search="replacement" placeholder="Replace with" aria-label="Replace with" spellcheck="false" />
+          <div class="bp-btn-row">
+            <button class="bp-btn" data-action="replaceMatch" title="Replace the current match">Replace</button>
+            <button class="bp-btn" data-action="replaceAll" title="Replace every match (one undo step)">Replace all</button>
+          </div>
+        </div>
+    `;
+  }
+
+  private getCommentsBody(): string {
+    return `
+        <div class="bp-control-group">
+          <input type="text" class="bp-input" data-comment="new" placeholder="Comment on the selected text" aria-label="New comment" />
+          <div class="bp-btn-row">
+            <button class="bp-btn" data-action="addComment" title="Comment on the selected text">Comment</button>
+          </div>
+        </div>
+        <div class="bp-comment-list" data-comment-list></div>
+    `;
+  }
+
+  private getSuggestionsBody(): string {
+    return `
+        <div class="bp-control-group">
+          <div class="bp-btn-row">
+            <button class="bp-btn" data-action="toggleSuggesting" title="Record edits as suggestions to accept or reject">Suggesting</button>
+            <span class="bp-search-count" data-suggestion-count></span>
+          </div>
+          <div class="bp-btn-row">
+            <button class="bp-btn" data-action="acceptAllSuggestions" title="Apply every suggestion">Accept all</button>
+            <button class="bp-btn" data-action="rejectAllSuggestions" title="Undo every suggestion">Reject all</button>
+          </div>
+        </div>
+        <div class="bp-suggestion-list" data-suggestion-list></div>
+    `;
+  }
+
+  private getEmailCheckBody(): string {
+    return `
+        <div class="bp-control-group">
+          <div class="bp-btn-row">
+            <span class="bp-search-count" data-email-issue-count></span>
+          </div>
+        </div>
+        <div class="bp-email-issue-list" data-email-issue-list></div>
+    `;
+  }
+
   private bindEvents(sidebar: HTMLElement): void {
     // Button clicks - stop propagation so parent/editor focus handlers don't run (keeps toolbar hidden)
     sidebar.addEventListener('click', (e) => {
@@ -607,6 +697,26 @@ export class Sidebar {
       if (target.dataset.input) {
         this.handleInputChange(target);
       }
+      if (target.dataset.search === 'query') {
+        this.editor.setSearchQuery(target.value);
+      }
+    });
+    sidebar.addEventListener('keydown', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (e.key === 'Enter' && target.dataset.comment) {
+        e.preventDefault();
+        this.submitCommentInput(target);
+        return;
+      }
+      if (e.key !== 'Enter' || !target.dataset.search) return;
+      e.preventDefault();
+      if (target.dataset.search === 'replacement') {
+        this.editor.replaceMatch(target.value);
+      } else if (e.shiftKey) {
+        this.editor.findPrevious();
+      } else {
+        this.editor.findNext();
+      }
     });
     sidebar.addEventListener('blur', (e) => {
       const target = e.target as HTMLInputElement;
@@ -731,8 +841,8 @@ export class Sidebar {
         this.editor.redo(NO_FOCUS);
         break;
       case 'heading':
-        const level = parseInt(btn.dataset.level || '1', 10) as 1 | 2 | 3 | 4 | 5 | 6;
-        this.editor.setHeading(level as 1 | 2 | 3, NO_FOCUS);
+        const level = parseInt(btn.dataset.level || '1', 10) as HeadingLevel;
+        this.editor.toggleHeading(level, NO_FOCUS);
         break;
       case 'paragraph':
         this.editor.setParagraph(NO_FOCUS);
@@ -774,6 +884,60 @@ export class Sidebar {
       case 'clearFormatting':
         this.clearFormatting();
         break;
+      case 'searchOption': {
+        const option = btn.dataset.searchOption as keyof SearchOptions;
+        this.editor.setSearchOptions({ [option]: !this.editor.getSearchResults().options[option] });
+        break;
+      }
+      case 'searchNext':
+        this.editor.findNext();
+        break;
+      case 'searchPrevious':
+        this.editor.findPrevious();
+        break;
+      case 'replaceMatch':
+        this.editor.replaceMatch(this.getSearchInputValue('replacement'));
+        break;
+      case 'replaceAll':
+        this.editor.replaceAllMatches(this.getSearchInputValue('replacement'));
+        break;
+      case 'addComment': {
+        const input = this.element.querySelector('[data-comment="new"]') as HTMLInputElement | null;
+        if (input) this.submitCommentInput(input);
+        break;
+      }
+      case 'replyComment': {
+        const input = this.element.querySelector(`[data-comment="reply"][data-thread-id="${btn.dataset.threadId}"]`) as HTMLInputElement | null;
+        if (input) this.submitCommentInput(input);
+        break;
+      }
+      case 'selectComment':
+        this.editor.selectComment(btn.dataset.threadId ?? '', NO_FOCUS);
+        break;
+      case 'resolveComment':
+        this.editor.resolveComment(btn.dataset.threadId ?? '', btn.dataset.resolved !== 'true');
+        break;
+      case 'deleteComment':
+        this.editor.deleteComment(btn.dataset.threadId ?? '');
+        break;
+      case 'toggleSuggesting':
+        this.editor.setSuggesting(!this.editor.isSuggesting());
+        break;
+      case 'acceptSuggestion':
+        this.editor.acceptSuggestion(btn.dataset.suggestionId ?? '', NO_FOCUS);
+        break;
+      case 'rejectSuggestion':
+        this.editor.rejectSuggestion(btn.dataset.suggestionId ?? '', NO_FOCUS);
+        break;
+      case 'acceptAllSuggestions':
+        this.editor.acceptAllSuggestions(NO_FOCUS);
+        break;
+      case 'rejectAllSuggestions':
+        this.editor.rejectAllSuggestions(NO_FOCUS);
+        break;
+      case 'selectEmailIssue':
+        this.editor.selectNodeAt(Number(btn.dataset.pos), NO_FOCUS);
+        break;
       case 'table':
         this.editor.insertTable(3, 3, NO_FOCUS);
         break;
@@ -1380,7 +1544,7 @@ export class Sidebar {
   private updateContainerTargetLabel(): void {
     const tipTap = this.editor.getTipTapEditor();
     const { selection } = tipTap.state;
-    const containerTypes = ['columnGrid', 'columnLayout', 'column', 'divBlock'];
+    const containerTypes = ['columnGrid', 'columnLayout', 'column', 'divBlock', 'tableCell', 'tableHeader'];
     
     let containerName = 'None';
     let containerNode = null;
@@ -1391,7 +1555,10 @@ export class Sidebar {
     const isWholeNodeSelected = hasNode && 
       selection.from + (selection as any).node.nodeSize === selection.to;
     
-    if (isWholeNodeSelected && containerTypes.includes((selection as any).node.type.name)) {
+    if (selection instanceof CellSelection) {
+      // Selected cells are styled together; show the first one's styles
+      containerNode = selection.$anchorCell.nodeAfter;
+    } else if (isWholeNodeSelected && containerTypes.includes((selection as any).node.type.name)) {
       // Explicitly selected container block
       containerNode = (selection as any).node;
     } else {
@@ -1403,6 +1570,11 @@ export class Sidebar {
       while (depth > 0) {
         const node = selection.$from.node(depth);
         if (containerTypes.includes(node.type.name)) {
+          // The table's cell is nearer than anything the table sits in
+          if (node.type.name === 'tableCell' || node.type.name === 'tableHeader') {
+            if (!nearestNode) nearestNode = node;
+            break;
+          }
           if (node.type.name === 'columnGrid') {
             gridNode = node;
           } else if (!nearestNode) {
@@ -1434,6 +1606,12 @@ export class Sidebar {
         case 'divBlock':
           containerName = 'Div Block';
           break;
+        case 'tableCell':
+          containerName = 'Table Cell';
+          break;
+        case 'tableHeader':
+          containerName = 'Header Cell';
+          break;
       }
     }
     
@@ -1576,13 +1754,12 @@ export class Sidebar {
   }
 
   private clearFormatting(): void {
-    const tipTap = this.editor.getTipTapEditor();
-    tipTap.chain().unsetAllMarks().clearNodes().run();
+    this.editor.clearFormatting(NO_FOCUS);
   }
 
   private handleLinkAction(): void {
-    const isEdit = this.editor.isActive('link');
     const attrs = this.editor.getLinkAttributes();
+    const isEdit = attrs !== null;
     showLinkPopup(this.editor, {
       initialUrl: attrs?.href ?? '',
       initialOpenInNewTab: attrs?.target === '_blank',
@@ -1594,6 +1771,10 @@ export class Sidebar {
   }
 
   private handleImageAction(): void {
+    if (this.editor.canUploadImages()) {
+      this.editor.openImagePicker(NO_FOCUS);
+      return;
+    }
     const url = prompt('Enter image URL:');
     if (url) {
       this.editor.insertImage(url, undefined, NO_FOCUS);
@@ -1729,9 +1910,13 @@ export class Sidebar {
     const tipTap = this.editor.getTipTapEditor();
     
     // Update on both transaction and selection changes
-    tipTap.on('transaction', () => {
+    tipTap.on('transaction', ({ transaction }) => {
       this.updateButtonStates();
       this.updateContainerTargetLabel();
+      this.updateSearchResults();
+      this.updateComments();
+      this.updateSuggestions();
+      if (transaction.docChanged) this.scheduleEmailCheck();
     });
     
     tipTap.on('selectionUpdate', () => {
@@ -1746,6 +1931,9 @@ export class Sidebar {
     
     // Initial update
     this.updateContainerTargetLabel();
+    this.updateComments();
+    this.updateSuggestions();
+    this.updateEmailCheck();
   }
 
   private updateButtonStates(): void {
@@ -1784,6 +1972,162 @@ export class Sidebar {
     });
   }
 
+  private getSearchInputValue(kind: 'query' | 'replacement'): string {
+    return (this.element.querySelector(`[data-search="${kind}"]`) as HTMLInputElement | null)?.value ?? '';
+  }
+
+  /** Match count and option states; the query input follows searches started elsewhere (Mod-F panel) */
+  private updateSearchResults(): void {
+    const countEl = this.element.querySelector('[data-search-count]');
+    if (!countEl) return;
+    const results = this.editor.getSearchResults();
+
+    const queryInput = this.element.querySelector('[data-search="query"]') as HTMLInputElement | null;
+    if (queryInput && document.activeElement !== queryInput && queryInput.value !== results.query) {
+      queryInput.value = results.query;
+    }
+    this.element.querySelectorAll('[data-search-option]').forEach((el) => {
+      const option = (el as HTMLElement).dataset.searchOption as keyof SearchOptions;
+      el.classList.toggle('active', results.options[option]);
+    });
+
+    if (!results.query) {
+      countEl.textContent = '';
+    } else if (results.error) {
+      countEl.textContent = 'Invalid';
+    } else {
+      countEl.textContent = results.total ? `${results.current} of ${results.total}` : 'No results';
+    }
+  }
+
+  /** New thread on the selection, or a reply (the input keeps its text when nothing is selected) */
+  private submitCommentInput(input: HTMLInputElement): void {
+    const added = input.dataset.comment === 'reply'
+      ? this.editor.replyToComment(input.dataset.threadId ?? '', input.value)
+      : this.editor.addComment(input.value, NO_FOCUS);
+    if (added) input.value = '';
+  }
+
+  /** Re-render the thread list only when the threads change, so a reply being typed survives cursor moves */
+  private updateComments(): void {
+    const list = this.element.querySelector('[data-comment-list]');
+    if (!list) return;
+    const threads = this.editor.getComments();
+    const signature = JSON.stringify(threads);
+    if (signature !== this.commentsSignature) {
+      this.commentsSignature = signature;
+      list.innerHTML = threads.length
+        ? threads.map((thread) => this.getCommentThreadHTML(thread)).join('')
+        : '<p class="bp-comment-empty">No comments yet. Select text to comment on it.</p>';
+    }
+    const activeId = this.editor.getActiveCommentThreadId();
+    list.querySelectorAll('.bp-comment-thread').forEach((el) => {
+      el.classList.toggle('is-active', (el as HTMLElement).dataset.threadId === activeId);
+    });
+  }
+
+  private getCommentThreadHTML(thread: CommentThread): string {
+    const id = escapeHtml(thread.id);
+    const quote = thread.quote
+      ? `<button class="bp-comment-quote" data-action="selectComment" data-thread-id="${id}" title="Show in the text">${escapeHtml(thread.quote)}</button>`
+      : '<p class="bp-comment-quote is-removed">Commented text was removed</p>';
+    const reply = thread.resolved
+      ? ''
+      : `<div class="bp-comment-reply">
+          <input type="text" class="bp-input" data-comment="reply" data-thread-id="${id}" placeholder="Reply" aria-label="Reply" />
+          <button class="bp-btn" data-action="replyComment" data-thread-id="${id}">Reply</button>
+        </div>`;
+    return `
+      <div class="bp-comment-thread${thread.resolved ? ' is-resolved' : ''}" data-thread-id="${id}">
+        ${quote}
+        ${[thread, ...thread.replies].map((comment) => this.getCommentHTML(comment)).join('')}
+        ${reply}
+        <div class="bp-btn-row">
+          <button class="bp-btn" data-action="resolveComment" data-thread-id="${id}" data-resolved="${thread.resolved}">${thread.resolved ? 'Reopen' : 'Resolve'}</button>
+          <button class="bp-btn" data-action="deleteComment" data-thread-id="${id}">Delete</button>
+          ${thread.resolved ? '<span class="bp-comment-badge">Resolved</span>' : ''}
+        </div>
+      </div>`;
+  }
+
+  private getCommentHTML(comment: CommentReply): string {
+    const date = comment.createdAt ? new Date(comment.createdAt) : null;
+    const time = date && !isNaN(date.getTime()) ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+    return `
+        <div class="bp-comment">
+          <div class="bp-comment-meta">
+            <span class="bp-comment-author">${escapeHtml(comment.author || 'Anonymous')}</span>
+            <span class="bp-comment-time">${escapeHtml(time)}</span>
+          </div>
+          <p class="bp-comment-text">${escapeHtml(comment.text)}</p>
+        </div>`;
+  }
+
+  /** Mode toggle, count and the list (re-rendered only when the suggestions change) */
+  private updateSuggestions(): void {
+    const list = this.element.querySelector('[data-suggestion-list]');
+    if (!list) return;
+    this.element.querySelector('[data-action="toggleSuggesting"]')?.classList.toggle('active', this.editor.isSuggesting());
+    const suggestions = this.editor.getSuggestions();
+    const signature = JSON.stringify(suggestions);
+    if (signature === this.suggestionsSignature) return;
+    this.suggestionsSignature = signature;
+    const countEl = this.element.querySelector('[data-suggestion-count]');
+    if (countEl) countEl.textContent = suggestions.length ? `${suggestions.length} pending` : '';
+    list.innerHTML = suggestions.length
+      ? suggestions.map((suggestion) => this.getSuggestionHTML(suggestion)).join('')
+      : '<p class="bp-comment-empty">No suggestions. Turn on Suggesting to record edits for review.</p>';
+  }
+
+  /** The check exports the whole email, so it runs once typing pauses rather than on every keystroke */
+  private scheduleEmailCheck(): void {
+    if (!this.element.querySelector('[data-email-issue-list]')) return;
+    if (this.emailCheckTimer) clearTimeout(this.emailCheckTimer);
+    this.emailCheckTimer = setTimeout(() => {
+      this.emailCheckTimer = null;
+      this.updateEmailCheck();
+    }, EMAIL_CHECK_DELAY);
+  }
+
+  private updateEmailCheck(): void {
+    const list = this.element.querySelector('[data-email-issue-list]');
+    if (!list) return;
+    // Checked against the content's displayed colors and font, as exported with getEmailOptionsFromStyles()
+    const issues = this.editor.getEmailPreflight(this.editor.getEmailOptionsFromStyles());
+    const countEl = this.element.querySelector('[data-email-issue-count]');
+    if (countEl) countEl.textContent = issues.length ? `${issues.length} ${issues.length === 1 ? 'issue' : 'issues'}` : '';
+    list.innerHTML = issues.length
+      ? issues.map((issue) => this.getEmailIssueHTML(issue)).join('')
+      : '<p class="bp-comment-empty">No problems found for email clients.</p>';
+  }
+
+  private getEmailIssueHTML(issue: PreflightIssue): string {
+    const label = issue.severity === 'error' ? 'Error' : issue.severity === 'warning' ? 'Warning' : 'Note';
+    const content = `<span class="bp-email-issue-label">${label}</span> <span class="bp-email-issue-message">${escapeHtml(issue.message)}</span>`;
+    return issue.pos === null
+      ? `<p class="bp-email-issue is-${issue.severity}">${content}</p>`
+      : `<button type="button" class="bp-email-issue is-${issue.severity}" data-action="selectEmailIssue" data-pos="${issue.pos}" title="Select in the text">${content}</button>`;
+  }
+
+  private getSuggestionHTML(suggestion: Suggestion): string {
+    const id = escapeHtml(suggestion.id);
+    const label = suggestion.type === 'insert' ? 'Added' : suggestion.type === 'delete' ? 'Deleted' : 'Formatted';
+    const date = suggestion.createdAt ? new Date(suggestion.createdAt) : null;
+    const time = date && !isNaN(date.getTime()) ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+    return `
+      <div class="bp-suggestion is-${suggestion.type}" data-suggestion-id="${id}">
+        <div class="bp-comment-meta">
+          <span class="bp-comment-author">${escapeHtml(suggestion.author || 'Anonymous')}</span>
+          <span class="bp-comment-time">${escapeHtml(time)}</span>
+        </div>
+        <p class="bp-suggestion-text"><span class="bp-suggestion-label">${label}</span> <span class="bp-suggestion-content">${escapeHtml(suggestion.text)}</span></p>
+        <div class="bp-btn-row">
+          <button class="bp-btn" data-action="acceptSuggestion" data-suggestion-id="${id}">Accept</button>
+          <button class="bp-btn" data-action="rejectSuggestion" data-suggestion-id="${id}">Reject</button>
+        </div>
+      </div>`;
+  }
+
   show(): void {
     this.element.style.display = '';
   }
@@ -1793,6 +2137,7 @@ export class Sidebar {
   }
 
   destroy(): void {
+    if (this.emailCheckTimer) clearTimeout(this.emailCheckTimer);
     this.element.remove();
   }
 
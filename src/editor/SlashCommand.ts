@@ -0,0 +1,208 @@
+/**
+ * SlashCommand Extension
+ *
+ * Typing "/" at the start of a line (or after a space) opens a block menu at the cursor:
+ * - Typing after the slash filters the items (title, id and keywords)
+ * - Arrow keys / Enter / Tab pick an item, Escape closes the menu for that slash
+ * - The chosen item replaces the "/query" text with the block
+ * - Which items are offered is read through a getter so Bubble can hide commands at runtime
+ */
+
+import { Extension, Editor as TipTapEditor, Range } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import { icons } from '../utils/icons';
+import { createSuggestionPlugin, SuggestionState } from './SuggestionMenu';
+
+export interface SlashCommandItem {
+  id: string;
+  title: string;
+  description: string;
+  /** Extra words matched by the filter */
+  keywords: string[];
+  /** SVG markup */
+  icon: string;
+  /** Replace the "/query" range with the block */
+  run: (editor: TipTapEditor, range: Range) => void;
+}
+
+export interface SlashCommandOptions {
+  items: SlashCommandItem[];
+  /** Ids of the items to offer, in menu order (null = all items) */
+  getEnabledCommands: () => string[] | null;
+}
+
+const slashCommandPluginKey = new PluginKey<SuggestionState>('slashCommand');
+
+export const SLASH_COMMAND_ITEMS: SlashCommandItem[] = [
+  {
+    id: 'heading1',
+    title: 'Heading 1',
+    description: 'Large section heading',
+    keywords: ['h1', 'title'],
+    icon: icons.h1,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 1 }).run(),
+  },
+  {
+    id: 'heading2',
+    title: 'Heading 2',
+    description: 'Medium section heading',
+    keywords: ['h2', 'subtitle'],
+    icon: icons.h2,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 2 }).run(),
+  },
+  {
+    id: 'heading3',
+    title: 'Heading 3',
+    description: 'Small section heading',
+    keywords: ['h3'],
+    icon: icons.h3,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 3 }).run(),
+  },
+  {
+    id: 'bulletList',
+    title: 'Bullet list',
+    description: 'Simple bulleted list',
+    keywords: ['ul', 'unordered', 'bullets'],
+    icon: icons.bulletList,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    id: 'orderedList',
+    title: 'Numbered list',
+    description: 'List with numbering',
+    keywords: ['ol', 'ordered', 'numbers'],
+    icon: icons.orderedList,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    id: 'taskList',
+    title: 'Task list',
+    description: 'List with checkboxes',
+    keywords: ['todo', 'checkbox', 'checklist'],
+    icon: icons.taskList,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+  },
+  {
+    id: 'table',
+    title: 'Table',
+    description: '3 × 3 table with a header row',
+    keywords: ['grid', 'rows'],
+    icon: icons.table,
+    run: (editor, range) =>
+      editor.chain().focus().deleteRange(range).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+  },
+  {
+    id: 'codeBlock',
+    title: 'Code block',
+    description: 'Code with syntax highlighting',
+    keywords: ['code', 'pre', 'snippet'],
+    icon: icons.codeBlock,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setCodeBlock().run(),
+  },
+  {
+    id: 'blockquote',
+    title: 'Quote',
+    description: 'Quoted text',
+    keywords: ['blockquote', 'citation'],
+    icon: icons.quote,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setBlockquote().run(),
+  },
+  {
+    id: 'horizontalRule',
+    title: 'Divider',
+    description: 'Horizontal line between sections',
+    keywords: ['hr', 'rule', 'separator', 'line'],
+    icon: icons.horizontalRule,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  },
+  {
+    id: 'divBlock',
+    title: 'Div block',
+    description: 'Container you can style',
+    keywords: ['div', 'container', 'box', 'section'],
+    icon: icons.divBlock,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setDivBlock().run(),
+  },
+  {
+    id: 'columns2',
+    title: '2 columns',
+    description: 'Two side-by-side columns',
+    keywords: ['columns', 'layout', 'grid'],
+    icon: icons.col2,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).insertColumnLayout(2).run(),
+  },
+  {
+    id: 'columns3',
+    title: '3 columns',
+    description: 'Three side-by-side columns',
+    keywords: ['columns', 'layout', 'grid'],
+    icon: icons.col3,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).insertColumnLayout(3).run(),
+  },
+  {
+    id: 'columns4',
+    title: '4 columns',
+    description: 'Four side-by-side columns',
+    keywords: ['columns', 'layout', 'grid'],
+    icon: icons.col4,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).insertColumnLayout(4).run(),
+  },
+  {
+    id: 'image',
+    title: 'Image',
+    description: 'Upload an image or embed one by URL',
+    keywords: ['picture', 'photo', 'img'],
+    icon: icons.image,
+    run: (editor, range) => {
+      editor.chain().focus().deleteRange(range).run();
+      // The picker needs an upload handler; without one fall back to a URL, like the toolbar
+      if (editor.commands.openImagePicker()) return;
+      const url = prompt('Enter image URL:');
+      if (url) {
+        editor.chain().focus().setImage({ src: url }).run();
+      }
+    },
+  },
+];
+
+function filterItems(items: SlashCommandItem[], enabled: string[] | null, query: string): SlashCommandItem[] {
+  const available = enabled
+    ? enabled
+        .map((id) => items.find((item) => item.id.toLowerCase() === id.toLowerCase()))
+        .filter((item): item is SlashCommandItem => !!item)
+    : items;
+  const q = query.toLowerCase();
+  if (!q) return available;
+  return available.filter(
+    (item) =>
+      item.title.toLowerCase().includes(q) ||
+      item.id.toLowerCase().includes(q) ||
+      item.keywords.some((keyword) => keyword.includes(q))
+  );
+}
+
+export const SlashCommand = Extension.create<SlashCommandOptions>({
+  name: 'slashCommand',
+
+  addOptions() {
+    return {
+      items: SLASH_COMMAND_ITEMS,
+      getEnabledCommands: () => null,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      createSuggestionPlugin<SlashCommandItem>({
+        pluginKey: slashCommandPluginKey,
+        editor: this.editor,
+        char: '/',
+        className: 'editor-slash-menu',
+        getItems: (query) => filterItems(options.items, options.getEnabledCommands(), query),
+        onSelect: (editor, item, range) => item.run(editor, range),
+      }),
+    ];
+  },
+});
@@ -0,0 +1,248 @@
+/**
+ * Suggestion menu shared by the "/" block menu and "@" mentions.
+ *
+ * Typing the trigger at the start of a block (or after a space) opens a popup at the cursor:
+ * - Text typed after the trigger is the query the items are filtered with
+ * - Arrow keys / Enter / Tab pick an item, Escape closes the menu for that trigger
+ * - The popup uses fixed positioning so the editor's overflow can't clip it
+ */
+
+import { Editor as TipTapEditor, Range } from '@tiptap/core';
+import { Plugin, PluginKey, EditorState } from '@tiptap/pm/state';
+import { EditorView } from '@tiptap/pm/view';
+
+export interface SuggestionItem {
+  id: string;
+  title: string;
+  description?: string;
+  /** Icon markup (SVG, avatar image, initials) */
+  icon?: string;
+}
+
+export interface SuggestionPluginOptions<T extends SuggestionItem> {
+  pluginKey: PluginKey<SuggestionState>;
+  editor: TipTapEditor;
+  /** Trigger characters ("/", "@" or "{{") */
+  char: string;
+  /** Extra class on the popup (e.g. editor-slash-menu) */
+  className: string;
+  /** Items for the current query (read each time it changes) */
+  getItems: (query: string) => T[];
+  /** Replace the trigger + query range with the chosen item */
+  onSelect: (editor: TipTapEditor, item: T, range: Range) => void;
+}
+
+export interface SuggestionState {
+  active: boolean;
+  range: Range;
+  query: string;
+  /** Start of a trigger the user closed with Escape; stays closed until the trigger is removed */
+  dismissedAt: number | null;
+}
+
+const INACTIVE: SuggestionState = { active: false, range: { from: 0, to: 0 }, query: '', dismissedAt: null };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findQuery(state: EditorState, pattern: RegExp, triggerLength: number): { range: Range; query: string } | null {
+  const { selection } = state;
+  if (!selection.empty) return null;
+
+  const { $from } = selection;
+  if (!$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+
+  // Leaf nodes count as one character so offsets line up with document positions
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+  const match = pattern.exec(textBefore);
+  if (!match) return null;
+
+  const query = match[1];
+  const from = $from.pos - query.length - triggerLength;
+  return { range: { from, to: $from.pos }, query };
+}
+
+class SuggestionMenu<T extends SuggestionItem> {
+  private options: SuggestionPluginOptions<T>;
+  private view: EditorView | null = null;
+  private element: HTMLElement;
+  private items: T[] = [];
+  private selectedIndex = 0;
+  private range: Range = { from: 0, to: 0 };
+  private lastQuery: string | null = null;
+
+  constructor(options: SuggestionPluginOptions<T>) {
+    this.options = options;
+    this.element = document.createElement('div');
+    this.element.className = `editor-suggestion-menu ${options.className}`;
+    this.element.setAttribute('role', 'listbox');
+    this.element.style.display = 'none';
+    // Keep focus (and the selection) in the editor while clicking items
+    this.element.addEventListener('mousedown', (e) => e.preventDefault());
+  }
+
+  attach(view: EditorView): void {
+    this.view = view;
+    (view.dom.parentElement ?? document.body).appendChild(this.element);
+    view.dom.addEventListener('blur', this.handleBlur);
+    this.update(view);
+  }
+
+  update(view: EditorView): void {
+    const state = this.options.pluginKey.getState(view.state);
+    if (!state?.active || !view.editable) {
+      this.hide();
+      return;
+    }
+
+    this.range = state.range;
+    this.items = this.options.getItems(state.query);
+    if (this.items.length === 0) {
+      this.hide();
+      return;
+    }
+    if (state.query !== this.lastQuery) {
+      this.selectedIndex = 0;
+      this.lastQuery = state.query;
+    }
+    this.selectedIndex = Math.min(this.selectedIndex, this.items.length - 1);
+    this.render();
+    this.position(view);
+  }
+
+  isOpen(): boolean {
+    return this.element.style.display !== 'none';
+  }
+
+  handleKeyDown(event: KeyboardEvent): boolean {
+    if (!this.isOpen() || !this.view) return false;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.select((this.selectedIndex + 1) % this.items.length);
+        return true;
+      case 'ArrowUp':
+        this.select((this.selectedIndex - 1 + this.items.length) % this.items.length);
+        return true;
+      case 'Enter':
+      case 'Tab':
+        this.execute(this.selectedIndex);
+        return true;
+      case 'Escape':
+        this.view.dispatch(this.view.state.tr.setMeta(this.options.pluginKey, { dismiss: true }));
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  destroy(): void {
+    this.view?.dom.removeEventListener('blur', this.handleBlur);
+    this.element.remove();
+    this.view = null;
+  }
+
+  private handleBlur = (): void => {
+    this.hide();
+  };
+
+  private hide(): void {
+    this.element.style.display = 'none';
+    this.lastQuery = null;
+  }
+
+  private select(index: number): void {
+    this.selectedIndex = index;
+    this.element.querySelectorAll('.editor-suggestion-menu-item').forEach((el, i) => {
+      el.classList.toggle('is-selected', i === index);
+      el.setAttribute('aria-selected', String(i === index));
+      if (i === index) (el as HTMLElement).scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  private execute(index: number): void {
+    const item = this.items[index];
+    if (!item) return;
+    this.hide();
+    this.options.onSelect(this.options.editor, item, this.range);
+  }
+
+  private render(): void {
+    this.element.innerHTML = '';
+    this.items.forEach((item, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'editor-suggestion-menu-item';
+      button.setAttribute('role', 'option');
+      button.dataset.id = item.id;
+      button.innerHTML = `
+        ${item.icon ? `<span class="editor-suggestion-menu-icon">${item.icon}</span>` : ''}
+        <span class="editor-suggestion-menu-text">
+          <span class="editor-suggestion-menu-title"></span>
+          ${item.description ? '<span class="editor-suggestion-menu-description"></span>' : ''}
+        </span>
+      `;
+      (button.querySelector('.editor-suggestion-menu-title') as HTMLElement).textContent = item.title;
+      const description = button.querySelector('.editor-suggestion-menu-description');
+      if (description) description.textContent = item.description ?? '';
+      button.addEventListener('mouseenter', () => this.select(index));
+      button.addEventListener('click', () => this.execute(index));
+      this.element.appendChild(button);
+    });
+    this.element.style.display = 'block';
+    this.select(this.selectedIndex);
+  }
+
+  private position(view: EditorView): void {
+    const coords = view.coordsAtPos(this.range.from);
+    const menuHeight = this.element.offsetHeight;
+    const menuWidth = this.element.offsetWidth;
+    const spaceBelow = window.innerHeight - coords.bottom;
+    // Open above the line when there isn't room below
+    const top = spaceBelow < menuHeight + 8 && coords.top > menuHeight + 8
+      ? coords.top - menuHeight - 4
+      : coords.bottom + 4;
+    const left = Math.max(8, Math.min(coords.left, window.innerWidth - menuWidth - 8));
+    this.element.style.top = `${top}px`;
+    this.element.style.left = `${left}px`;
+  }
+}
+
+/**
+ * ProseMirror plugin that tracks "<char>query" before the cursor and shows the suggestion popup
+ */
+export function createSuggestionPlugin<T extends SuggestionItem>(options: SuggestionPluginOptions<T>): Plugin<SuggestionState> {
+  const char = escapeRegExp(options.char);
+  const pattern = new RegExp(`(?:^|\\s)${char}([^\\s${char}]{0,30})$`);
+  const menu = new SuggestionMenu(options);
+
+  return new Plugin<SuggestionState>({
+    key: options.pluginKey,
+    state: {
+      init: () => INACTIVE,
+      apply: (tr, prev, _oldState, newState) => {
+        const found = findQuery(newState, pattern, options.char.length);
+        if (!found) return INACTIVE;
+
+        const meta = tr.getMeta(options.pluginKey) as { dismiss?: boolean } | undefined;
+        let dismissedAt = prev.dismissedAt !== null ? tr.mapping.map(prev.dismissedAt) : null;
+        if (meta?.dismiss) dismissedAt = found.range.from;
+        if (dismissedAt === found.range.from) {
+          return { ...INACTIVE, dismissedAt };
+        }
+        return { active: true, range: found.range, query: found.query, dismissedAt: null };
+      },
+    },
+    props: {
+      handleKeyDown: (_view, event) => menu.handleKeyDown(event),
+    },
+    view: (view) => {
+      menu.attach(view);
+      return {
+        update: (updatedView) => menu.update(updatedView),
+        destroy: () => menu.destroy(),
+      };
+    },
+  });
+}
@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { NodeSelection } from '@tiptap/pm/state';
+import type { ContentEditor } from './Editor';
+import { createTestEditor } from '../test/createTestEditor';
+
+const NO_FOCUS = { focus: false };
+const IMAGE = '<img src="https://x.com/a.png" alt="Logo">';
+
+function createEditor(content: string): ContentEditor {
+  const editor = createTestEditor({ content, getSuggestionAuthor: () => 'Ada' });
+  editor.setSuggesting(true);
+  return editor;
+}
+
+function blockTypes(ed: ContentEditor): string[] {
+  return ed.getJSON().content?.map((node) => node.type ?? '') ?? [];
+}
+
+/** Select the first image and delete it, as the Delete key does */
+function deleteImage(ed: ContentEditor): void {
+  const tipTap = ed.getTipTapEditor();
+  let imagePos = -1;
+  tipTap.state.doc.descendants((node, pos) => {
+    if (node.type.name === 'image' && imagePos === -1) imagePos = pos;
+  });
+  const state = tipTap.state;
+  tipTap.view.dispatch(state.tr.setSelection(NodeSelection.create(state.doc, imagePos)).deleteSelection());
+}
+
+describe('Block suggestions', () => {
+  it('records an inserted image and removes it on reject', () => {
+    const ed = createEditor('<p>Text</p>');
+    ed.getTipTapEditor().commands.setTextSelection(5);
+    ed.insertImage('https://x.com/b.png', 'Chart', NO_FOCUS);
+
+    expect(blockTypes(ed)).toContain('image');
+    expect(ed.getSuggestions()).toMatchObject([{ type: 'insert', author: 'Ada', text: '[Image: Chart]' }]);
+
+    ed.rejectAllSuggestions(NO_FOCUS);
+    expect(blockTypes(ed)).not.toContain('image');
+    expect(ed.getSuggestions()).toEqual([]);
+  });
+
+  it('keeps a deleted image until the deletion is accepted', () => {
+    const ed = createEditor(`<p>Before</p>${IMAGE}<p>After</p>`);
+    deleteImage(ed);
+
+    expect(blockTypes(ed)).toEqual(['paragraph', 'image', 'paragraph']);
+    expect(ed.getSuggestions()).toMatchObject([{ type: 'delete', text: '[Image: Logo]' }]);
+    expect(ed.getEmailHTML()).not.toContain('a.png');
+
+    ed.rejectAllSuggestions(NO_FOCUS);
+    expect(blockTypes(ed)).toEqual(['paragraph', 'image', 'paragraph']);
+    expect(ed.getSuggestions()).toEqual([]);
+
+    deleteImage(ed);
+    ed.acceptAllSuggestions(NO_FOCUS);
+    expect(blockTypes(ed)).toEqual(['paragraph', 'paragraph']);
+  });
+
+  it('drops an inserted image that is deleted again', () => {
+    const ed = createEditor('<p>Text</p>');
+    ed.getTipTapEditor().commands.setTextSelection(5);
+    ed.insertImage('https://x.com/b.png', 'Chart', NO_FOCUS);
+    deleteImage(ed);
+
+    expect(blockTypes(ed)).not.toContain('image');
+    expect(ed.getSuggestions()).toEqual([]);
+  });
+
+  it('records an inserted table as one change', () => {
+    const ed = createEditor('<p>Text</p>');
+    ed.getTipTapEditor().commands.setTextSelection(5);
+    ed.insertTable(2, 2, NO_FOCUS);
+
+    expect(ed.getSuggestions()).toMatchObject([{ type: 'insert', text: '[Table]' }]);
+    ed.rejectAllSuggestions(NO_FOCUS);
+    expect(blockTypes(ed)).not.toContain('table');
+  });
+
+  it('keeps the flag in stored HTML', () => {
+    const ed = createEditor(`<p>Before</p>${IMAGE}<p>After</p>`);
+    deleteImage(ed);
+    const html = ed.getHTML();
+    ed.setContent(html);
+    expect(ed.getSuggestions()).toMatchObject([{ type: 'delete' }]);
+  });
+});
+
+describe('Rendering with merge data', () => {
+  it('shows pending suggestions as accepted and leaves out comment marks', () => {
+    const ed = createEditor('<p>Hello world</p>');
+    const tipTap = ed.getTipTapEditor();
+    tipTap.commands.setTextSelection({ from: 1, to: 6 });
+    ed.addComment('Nice', NO_FOCUS);
+    tipTap.chain().setTextSelection({ from: 7, to: 12 }).insertContent('there ').run();
+    ed.insertMergeField('first_name', null, NO_FOCUS);
+    expect(ed.getHTML()).toContain('<del');
+
+    const html = ed.render({ first_name: 'Ada' });
+    expect(html).not.toMatch(/<del|<ins|data-suggestion-id|data-comment-id/);
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    expect(container.textContent).toBe('Hello there Ada');
+  });
+});
@@ -0,0 +1,724 @@
+/**
+ * Suggestions Extension (track changes)
+ *
+ * In suggesting mode, edits are recorded instead of applied:
+ * - Typed / pasted content gets an insertion mark; deleted text stays in place with a deletion mark
+ *   (deleting your own or anyone's pending insertion removes it for good)
+ * - Block attribute changes (BlockStyle, text alignment) keep the previous attributes on the block, and
+ *   text size changes keep the previous size on the text, so style edits can be reviewed too
+ * - Inserted or deleted blocks without text of their own (images, tables, rules, div blocks, column
+ *   layouts) are flagged on the block; a deleted block stays in place until the deletion is accepted
+ * - Consecutive edits by the same author join one change; every change has an id, an author and a date
+ * - Accepting applies a change, rejecting restores what was there (per change or all at once)
+ *
+ * Only user edits are tracked: undo/redo, remote collaboration steps, loaded content and other
+ * transactions that skip the undo history are applied as they are. Other structural edits
+ * (splitting or joining paragraphs, wrapping in lists) are not tracked.
+ *
+ * Stored HTML:
+ * - <ins data-suggestion-id="..." data-author="Ada" data-created="2024-05-01T10:00:00.000Z">added</ins>
+ * - <del data-suggestion-id="..." data-author="Ada" data-created="...">removed</del>
+ * - <span data-format-suggestion-id="..." data-author="Ada" data-created="..." data-before-size="large">resized</span>
+ * - <p data-format-suggestion='{"id":"...","author":"Ada","createdAt":"...","before":{...}}'>restyled block</p>
+ * - <img data-block-suggestion='{"id":"...","type":"insert","author":"Ada","createdAt":"..."}' src="..."> (or "delete")
+ */
+
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey, EditorState, Transaction, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Mark as ProseMirrorMark, MarkType, Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { Mapping, ReplaceStep, ReplaceAroundStep, AddMarkStep, RemoveMarkStep, AttrStep } from '@tiptap/pm/transform';
+import { CHARACTER_LIMIT_BYPASS_META } from './CharacterLimit';
+import { pickCollaboratorColor } from './Collaboration';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    suggestions: {
+      /**
+       * Turn suggesting mode (track changes) on or off
+       */
+      setSuggesting: (enabled: boolean) => ReturnType;
+      /**
+       * Apply a suggested change
+       */
+      acceptSuggestion: (id: string) => ReturnType;
+      /**
+       * Undo a suggested change
+       */
+      rejectSuggestion: (id: string) => ReturnType;
+      acceptAllSuggestions: () => ReturnType;
+      rejectAllSuggestions: () => ReturnType;
+    };
+  }
+}
+
+export type SuggestionType = 'insert' | 'delete' | 'format';
+
+/** One suggested change as listed for review */
+export interface Suggestion {
+  id: string;
+  type: SuggestionType;
+  author: string;
+  /** ISO date */
+  createdAt: string;
+  /** Inserted / deleted / restyled text (a block's text for block style changes) */
+  text: string;
+}
+
+export interface SuggestionsOptions {
+  /** Author of new suggestions, read for each edit */
+  getAuthor: () => string;
+  /** Blocks whose attribute changes are tracked */
+  types: string[];
+  /** Blocks whose insertion and deletion are tracked as a whole */
+  blockTypes: string[];
+  /** Mark whose changes are tracked on text (its previous `size` attribute is kept) */
+  textSizeMark: string;
+}
+
+/** Previous attributes of a restyled block */
+interface FormatSuggestionAttr {
+  id: string;
+  author: string;
+  createdAt: string;
+  before: Record<string, unknown>;
+}
+
+/** An inserted or deleted block */
+interface BlockSuggestionAttr {
+  id: string;
+  type: 'insert' | 'delete';
+  author: string;
+  createdAt: string;
+}
+
+interface SuggestionsState {
+  enabled: boolean;
+  decorations: DecorationSet;
+}
+
+interface SuggestionsMeta {
+  enabled: boolean;
+}
+
+/** Set this meta on a transaction to apply it without tracking (accept / reject, loading content). */
+export const SUGGESTION_BYPASS_META = 'suggestionBypass';
+
+const suggestionsPluginKey = new PluginKey<SuggestionsState>('suggestions');
+
+const INSERTION = 'insertion';
+const DELETION = 'deletion';
+const FORMAT_CHANGE = 'formatChange';
+const FORMAT_ATTR = 'formatSuggestion';
+const BLOCK_ATTR = 'blockSuggestion';
+
+/** Attributes shared by the suggestion marks */
+function suggestionMarkAttributes() {
+  return {
+    id: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-suggestion-id'),
+      renderHTML: (attributes: Record<string, unknown>) => ({ 'data-suggestion-id': attributes.id }),
+    },
+    author: {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-author') ?? '',
+      renderHTML: (attributes: Record<string, unknown>) => ({ 'data-author': attributes.author }),
+    },
+    createdAt: {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute('data-created') ?? '',
+      renderHTML: (attributes: Record<string, unknown>) => ({ 'data-created': attributes.createdAt }),
+    },
+  };
+}
+
+export function createSuggestionId(): string {
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function isSuggesting(state: EditorState): boolean {
+  return suggestionsPluginKey.getState(state)?.enabled ?? false;
+}
+
+function suggestionMarkOf(node: ProseMirrorNode, name: string): ProseMirrorMark | undefined {
+  return node.marks.find((mark) => mark.type.name === name);
+}
+
+function parseFormatAttr(value: unknown): FormatSuggestionAttr | null {
+  if (!value) return null;
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return parsed && typeof parsed.id === 'string' ? (parsed as FormatSuggestionAttr) : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseBlockAttr(value: unknown): BlockSuggestionAttr | null {
+  if (!value) return null;
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return parsed && typeof parsed.id === 'string' && (parsed.type === 'insert' || parsed.type === 'delete')
+      ? (parsed as BlockSuggestionAttr)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Node attributes without the suggestions themselves (what a reject restores) */
+function plainAttrs(node: ProseMirrorNode): Record<string, unknown> {
+  const { [FORMAT_ATTR]: _format, [BLOCK_ATTR]: _block, ...rest } = node.attrs;
+  return rest;
+}
+
+/** Flag the outermost tracked blocks that lie entirely inside from..to */
+function flagBlocks(tr: Transaction, doc: ProseMirrorNode, from: number, to: number, blockTypes: string[], value: BlockSuggestionAttr): void {
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (pos < from || pos + node.nodeSize > to || !blockTypes.includes(node.type.name)) return true;
+    if (!parseBlockAttr(node.attrs[BLOCK_ATTR])) tr.setNodeAttribute(pos, BLOCK_ATTR, JSON.stringify(value));
+    return false;
+  });
+}
+
+function sameAttrs(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+}
+
+/**
+ * Suggested changes in document order (one entry per id)
+ */
+export function getSuggestions(doc: ProseMirrorNode): Suggestion[] {
+  const byId = new Map<string, Suggestion>();
+  const add = (id: string, type: SuggestionType, author: string, createdAt: string, text: string) => {
+    const existing = byId.get(id);
+    if (existing) {
+      existing.text += text;
+    } else {
+      byId.set(id, { id, type, author, createdAt, text });
+    }
+  };
+  doc.descendants((node) => {
+    const format = parseFormatAttr(node.attrs[FORMAT_ATTR]);
+    if (format) add(format.id, 'format', format.author, format.createdAt, node.textContent);
+    const block = parseBlockAttr(node.attrs[BLOCK_ATTR]);
+    if (block) {
+      // The block's text is listed with its own marks; blocks without text are named instead
+      add(block.id, block.type, block.author, block.createdAt, node.textContent ? '' : describeBlock(node));
+    }
+    if (!node.isInline) return;
+    const text = node.isText ? node.text ?? '' : node.type.spec.leafText?.(node) ?? '';
+    [INSERTION, DELETION, FORMAT_CHANGE].forEach((name) => {
+      const mark = suggestionMarkOf(node, name);
+      if (!mark?.attrs.id) return;
+      const type: SuggestionType = name === INSERTION ? 'insert' : name === DELETION ? 'delete' : 'format';
+      add(mark.attrs.id, type, mark.attrs.author, mark.attrs.createdAt, text);
+    });
+  });
+  return Array.from(byId.values());
+}
+
+/** Short name for a block without text, e.g. "[Image: Logo]" */
+function describeBlock(node: ProseMirrorNode): string {
+  const name = node.type.name === 'horizontalRule'
+    ? 'Divider'
+    : node.type.name.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+  const alt = typeof node.attrs.alt === 'string' && node.attrs.alt ? `: ${node.attrs.alt}` : '';
+  return `[${name}${alt}]`;
+}
+
+/** Inline ranges carrying a suggestion mark with this id (or any id), merged when only block boundaries separate them */
+function findMarkedRanges(doc: ProseMirrorNode, markName: string, id: string | null): { from: number; to: number }[] {
+  const ranges: { from: number; to: number }[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    const mark = suggestionMarkOf(node, markName);
+    if (!mark || (id !== null && mark.attrs.id !== id)) return;
+    const last = ranges[ranges.length - 1];
+    if (last && (last.to === pos || doc.textBetween(last.to, pos, '', '￼') === '')) {
+      last.to = pos + node.nodeSize;
+    } else {
+      ranges.push({ from: pos, to: pos + node.nodeSize });
+    }
+  });
+  return ranges;
+}
+
+/** Id of a same-author suggestion mark right before or after a range, so consecutive edits form one change */
+function adjacentSuggestionId(doc: ProseMirrorNode, from: number, to: number, markName: string, author: string): string | null {
+  const before = doc.resolve(from).nodeBefore;
+  const after = doc.resolve(to).nodeAfter;
+  for (const node of [before, after]) {
+    const mark = node ? suggestionMarkOf(node, markName) : undefined;
+    if (mark && mark.attrs.author === author && mark.attrs.id) return mark.attrs.id as string;
+  }
+  return null;
+}
+
+/**
+ * Apply (accept) or undo (reject) the suggestions with this id, or all of them when id is null
+ */
+function resolveSuggestions(state: EditorState, tr: Transaction, id: string | null, accept: boolean, textSizeMark: string): boolean {
+  const { schema, doc } = state;
+  let found = false;
+  const removals: { from: number; to: number }[] = [];
+
+  // Whole blocks: removing one also takes the suggestions inside it
+  const blockRemovals: { from: number; to: number }[] = [];
+  doc.descendants((node, pos) => {
+    const block = parseBlockAttr(node.attrs[BLOCK_ATTR]);
+    if (!block || (id !== null && block.id !== id)) return true;
+    found = true;
+    if ((block.type === 'insert') !== accept) {
+      blockRemovals.push({ from: pos, to: pos + node.nodeSize });
+      return false;
+    }
+    tr.setNodeAttribute(pos, BLOCK_ATTR, null);
+    return true;
+  });
+  const insideRemovedBlock = (range: { from: number; to: number }) =>
+    blockRemovals.some((block) => range.from >= block.from && range.to <= block.to);
+
+  // Marks and block attributes first (no position changes), then the deletions from the end
+  [INSERTION, DELETION].forEach((name) => {
+    const type = schema.marks[name];
+    findMarkedRanges(doc, name, id).forEach((range) => {
+      found = true;
+      const remove = (name === INSERTION) !== accept;
+      if (insideRemovedBlock(range)) return;
+      if (remove) {
+        removals.push(range);
+      } else {
+        removeMarkWithId(tr, doc, range, type, id);
+      }
+    });
+  });
+
+  const formatType = schema.marks[FORMAT_CHANGE];
+  const sizeType = schema.marks[textSizeMark];
+  doc.descendants((node, pos) => {
+    const format = parseFormatAttr(node.attrs[FORMAT_ATTR]);
+    if (format && (id === null || format.id === id)) {
+      found = true;
+      const restored = { ...format.before, [FORMAT_ATTR]: null, ...(BLOCK_ATTR in node.attrs ? { [BLOCK_ATTR]: tr.doc.nodeAt(pos)?.attrs[BLOCK_ATTR] ?? null } : {}) };
+      tr.setNodeMarkup(pos, undefined, accept ? { ...tr.doc.nodeAt(pos)?.attrs, [FORMAT_ATTR]: null } : restored);
+    }
+    if (!node.isText || !formatType) return;
+    const mark = suggestionMarkOf(node, FORMAT_CHANGE);
+    if (!mark || (id !== null && mark.attrs.id !== id)) return;
+    found = true;
+    const to = pos + node.nodeSize;
+    tr.removeMark(pos, to, mark);
+    if (!accept && sizeType) {
+      const before = mark.attrs.before as string | null;
+      if (before) {
+        tr.addMark(pos, to, sizeType.create({ size: before }));
+      } else {
+        tr.removeMark(pos, to, sizeType);
+      }
+    }
+  });
+
+  // Mapped through the earlier deletions, since text ranges can reach into a removed block
+  const start = tr.mapping.maps.length;
+  [...removals, ...blockRemovals]
+    .sort((a, b) => b.from - a.from)
+    .forEach((range) => {
+      const mapping = tr.mapping.slice(start);
+      tr.delete(mapping.map(range.from), mapping.map(range.to));
+    });
+
+  if (found) tr.setMeta(SUGGESTION_BYPASS_META, true);
+  return found;
+}
+
+function removeMarkWithId(tr: Transaction, doc: ProseMirrorNode, range: { from: number; to: number }, type: MarkType, id: string | null): void {
+  doc.nodesBetween(range.from, range.to, (node, pos) => {
+    const mark = node.isInline ? node.marks.find((m) => m.type === type && (id === null || m.attrs.id === id)) : undefined;
+    if (mark) tr.removeMark(Math.max(pos, range.from), Math.min(pos + node.nodeSize, range.to), mark);
+  });
+}
+
+/** What the user's transactions changed, in positions of the final document */
+interface TrackedEdits {
+  insertions: { from: number; to: number }[];
+  deletions: { pos: number; slice: Slice; cursor: 'start' | 'end' | null }[];
+  blockChanges: { pos: number; before: Record<string, unknown> }[];
+  sizeChanges: { from: number; to: number; before: string | null }[];
+}
+
+function shouldTrack(tr: Transaction): boolean {
+  return (
+    tr.docChanged &&
+    !tr.getMeta(SUGGESTION_BYPASS_META) &&
+    tr.getMeta('addToHistory') !== false &&
+    // Undo / redo
+    !tr.getMeta('history$')
+  );
+}
+
+function collectEdits(trs: readonly Transaction[], oldState: EditorState, textSizeMark: string): TrackedEdits {
+  const edits: TrackedEdits = { insertions: [], deletions: [], blockChanges: [], sizeChanges: [] };
+  const maps = trs.flatMap((tr) => tr.mapping.maps);
+  let index = 0;
+
+  trs.forEach((tr, t) => {
+    const tracked = shouldTrack(tr);
+    tr.steps.forEach((step, i) => {
+      const stepIndex = index++;
+      if (!tracked) return;
+      const toFinal = new Mapping(maps.slice(stepIndex + 1));
+      const docBefore = tr.docs[i];
+
+      if (step instanceof ReplaceStep) {
+        const { from, to, slice } = step;
+        if (slice.size > 0) {
+          const start = toFinal.map(from, 1);
+          const end = toFinal.map(from + slice.size, -1);
+          if (end > start) edits.insertions.push({ from: start, to: end });
+        }
+        if (to > from) {
+          // Backspace leaves the cursor before the deleted text, Delete after it
+          const selection = oldState.selection;
+          const first = t === 0 && i === 0 && selection.empty && slice.size === 0;
+          const cursor = first && selection.head === to ? 'start' : first && selection.head === from ? 'end' : null;
+          edits.deletions.push({ pos: toFinal.map(from, -1), slice: docBefore.slice(from, to), cursor });
+        }
+      } else if (step instanceof ReplaceAroundStep) {
+        // setNodeMarkup: the same node with new attributes
+        const s = step;
+        const node = docBefore.nodeAt(s.from);
+        const replacement = s.slice.content.firstChild;
+        if (node && replacement && s.gapFrom === s.from + 1 && s.gapTo === s.to - 1 && s.insert === 1 && replacement.type === node.type) {
+          edits.blockChanges.push({ pos: toFinal.map(s.from, 1), before: plainAttrs(node) });
+        }
+      } else if (step instanceof AttrStep) {
+        const s = step;
+        const node = docBefore.nodeAt(s.pos);
+        if (node && s.attr !== FORMAT_ATTR && s.attr !== BLOCK_ATTR) edits.blockChanges.push({ pos: toFinal.map(s.pos, 1), before: plainAttrs(node) });
+      } else if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) {
+        const s = step;
+        if (s.mark.type.name !== textSizeMark) return;
+        docBefore.nodesBetween(s.from, s.to, (node, pos) => {
+          if (!node.isText) return;
+          const size = suggestionMarkOf(node, textSizeMark)?.attrs.size ?? null;
+          const from = toFinal.map(Math.max(pos, s.from), 1);
+          const to = toFinal.map(Math.min(pos + node.nodeSize, s.to), -1);
+          if (to > from) edits.sizeChanges.push({ from, to, before: size });
+        });
+      }
+    });
+  });
+  return edits;
+}
+
+/**
+ * True when the slice has inline content or tracked blocks that aren't pending insertions (only those
+ * need to stay as a deletion)
+ */
+function hasTrackableContent(slice: Slice, blockTypes: string[]): boolean {
+  let trackable = false;
+  slice.content.descendants((node) => {
+    if (trackable) return false;
+    if (parseBlockAttr(node.attrs[BLOCK_ATTR])?.type === 'insert') return false;
+    if (node.isInline ? !suggestionMarkOf(node, INSERTION) : blockTypes.includes(node.type.name)) trackable = true;
+    return !trackable;
+  });
+  return trackable;
+}
+
+/**
+ * Turn the user's edits into suggestions: mark insertions, put deleted text back as deletions,
+ * and remember previous block attributes / text sizes
+ */
+function trackEdits(trs: readonly Transaction[], oldState: EditorState, newState: EditorState, options: SuggestionsOptions): Transaction | null {
+  if (!trs.some(shouldTrack)) return null;
+  const edits = collectEdits(trs, oldState, options.textSizeMark);
+  const { schema } = newState;
+  const insertionType = schema.marks[INSERTION];
+  const deletionType = schema.marks[DELETION];
+  const formatType = schema.marks[FORMAT_CHANGE];
+  const sizeType = schema.marks[options.textSizeMark];
+  const author = options.getAuthor() || 'Anonymous';
+  const createdAt = new Date().toISOString();
+  const tr = newState.tr;
+  const doc = newState.doc;
+
+  edits.insertions.forEach(({ from, to }) => {
+    const id = adjacentSuggestionId(doc, from, to, INSERTION, author) ?? createSuggestionId();
+    tr.removeMark(from, to, deletionType);
+    tr.addMark(from, to, insertionType.create({ id, author, createdAt }));
+    flagBlocks(tr, doc, from, to, options.blockTypes, { id, type: 'insert', author, createdAt });
+  });
+
+  edits.sizeChanges.forEach(({ from, to, before }) => {
+    if (!formatType) return;
+    const id = adjacentSuggestionId(doc, from, to, FORMAT_CHANGE, author) ?? createSuggestionId();
+    doc.nodesBetween(from, to, (node, pos) => {
+      // Restyling your own pending insertion needs no review
+      if (!node.isText || suggestionMarkOf(node, INSERTION)) return;
+      const start = Math.max(pos, from);
+      const end = Math.min(pos + node.nodeSize, to);
+      const existing = suggestionMarkOf(node, FORMAT_CHANGE);
+      const original = existing ? (existing.attrs.before as string | null) : before;
+      const current = sizeType ? suggestionMarkOf(node, options.textSizeMark)?.attrs.size ?? null : null;
+      if (current === original) {
+        if (existing) tr.removeMark(start, end, formatType);
+      } else if (!existing) {
+        tr.addMark(start, end, formatType.create({ id, author, createdAt, before: original }));
+      }
+    });
+  });
+
+  edits.blockChanges.forEach(({ pos, before }) => {
+    const node = doc.nodeAt(pos);
+    if (!node || !options.types.includes(node.type.name)) return;
+    const existing = parseFormatAttr(node.attrs[FORMAT_ATTR]);
+    const original = existing ? existing.before : before;
+    if (sameAttrs(plainAttrs(node), original)) {
+      if (existing) tr.setNodeAttribute(pos, FORMAT_ATTR, null);
+    } else if (!existing) {
+      const value: FormatSuggestionAttr = { id: createSuggestionId(), author, createdAt, before: original };
+      tr.setNodeAttribute(pos, FORMAT_ATTR, JSON.stringify(value));
+    }
+  });
+
+  [...edits.deletions]
+    .sort((a, b) => b.pos - a.pos)
+    .forEach(({ pos, slice, cursor }) => {
+      if (!hasTrackableContent(slice, options.blockTypes)) return;
+      const sizeBefore = tr.doc.content.size;
+      try {
+        tr.replace(pos, pos, slice);
+      } catch {
+        return;
+      }
+      const end = pos + (tr.doc.content.size - sizeBefore);
+
+      // Pending insertions that were deleted stay deleted
+      const gone: { from: number; to: number }[] = [];
+      tr.doc.nodesBetween(pos, end, (node, nodePos) => {
+        const inserted = parseBlockAttr(node.attrs[BLOCK_ATTR])?.type === 'insert' && nodePos >= pos && nodePos + node.nodeSize <= end;
+        if (inserted || (node.isInline && suggestionMarkOf(node, INSERTION))) {
+          gone.push({ from: nodePos, to: nodePos + node.nodeSize });
+          return false;
+        }
+        return true;
+      });
+      gone.reverse().forEach((range) => tr.delete(range.from, range.to));
+      const deletedEnd = tr.mapping.slice(tr.mapping.maps.length - gone.length).map(end);
+
+      const id = adjacentSuggestionId(tr.doc, pos, deletedEnd, DELETION, author) ?? createSuggestionId();
+      const mark = deletionType.create({ id, author, createdAt });
+      tr.doc.nodesBetween(pos, deletedEnd, (node, nodePos) => {
+        if (node.isInline && !suggestionMarkOf(node, DELETION)) {
+          tr.addMark(Math.max(nodePos, pos), Math.min(nodePos + node.nodeSize, deletedEnd), mark);
+        }
+      });
+      flagBlocks(tr, tr.doc, pos, deletedEnd, options.blockTypes, { id, type: 'delete', author, createdAt });
+
+      if (cursor) tr.setSelection(TextSelection.create(tr.doc, cursor === 'start' ? pos : deletedEnd));
+    });
+
+  if (!tr.docChanged) return null;
+  return tr.setMeta(SUGGESTION_BYPASS_META, true).setMeta(CHARACTER_LIMIT_BYPASS_META, true);
+}
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    const format = parseFormatAttr(node.attrs[FORMAT_ATTR]);
+    if (format) {
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, {
+        class: 'editor-suggestion-block',
+        style: `--suggestion-color: ${pickCollaboratorColor(format.author)}`,
+      }));
+    }
+    const block = parseBlockAttr(node.attrs[BLOCK_ATTR]);
+    if (block) {
+      decorations.push(Decoration.node(pos, pos + node.nodeSize, {
+        class: `editor-suggestion-node is-${block.type}`,
+        style: `--suggestion-color: ${pickCollaboratorColor(block.author)}`,
+      }));
+    }
+    if (!node.isInline) return;
+    [INSERTION, DELETION, FORMAT_CHANGE].forEach((name) => {
+      const mark = suggestionMarkOf(node, name);
+      if (!mark) return;
+      const kind = name === INSERTION ? 'is-insert' : name === DELETION ? 'is-delete' : 'is-format';
+      decorations.push(Decoration.inline(pos, pos + node.nodeSize, {
+        class: `editor-suggestion ${kind}`,
+        style: `--suggestion-color: ${pickCollaboratorColor(mark.attrs.author)}`,
+      }));
+    });
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+export const Insertion = Mark.create({
+  name: INSERTION,
+
+  inclusive: false,
+
+  excludes: INSERTION,
+
+  addAttributes() {
+    return suggestionMarkAttributes();
+  },
+
+  parseHTML() {
+    return [{ tag: 'ins[data-suggestion-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ins', mergeAttributes({ class: 'editor-suggestion-insert' }, HTMLAttributes), 0];
+  },
+});
+
+export const Deletion = Mark.create({
+  name: DELETION,
+
+  inclusive: false,
+
+  excludes: DELETION,
+
+  addAttributes() {
+    return suggestionMarkAttributes();
+  },
+
+  parseHTML() {
+    return [{ tag: 'del[data-suggestion-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['del', mergeAttributes({ class: 'editor-suggestion-delete' }, HTMLAttributes), 0];
+  },
+});
+
+export const FormatChange = Mark.create({
+  name: FORMAT_CHANGE,
+
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      ...suggestionMarkAttributes(),
+      id: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-format-suggestion-id'),
+        renderHTML: (attributes: Record<string, unknown>) => ({ 'data-format-suggestion-id': attributes.id }),
+      },
+      before: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-before-size'),
+        renderHTML: (attributes: Record<string, unknown>) => (attributes.before ? { 'data-before-size': attributes.before } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-format-suggestion-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'editor-suggestion-format' }, HTMLAttributes), 0];
+  },
+});
+
+export const Suggestions = Extension.create<SuggestionsOptions>({
+  name: 'suggestions',
+
+  addOptions() {
+    return {
+      getAuthor: () => '',
+      types: [],
+      blockTypes: [],
+      textSizeMark: 'textSize',
+    };
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          [FORMAT_ATTR]: {
+            default: null,
+            parseHTML: (element) => element.getAttribute('data-format-suggestion'),
+            renderHTML: (attributes) =>
+              attributes[FORMAT_ATTR] ? { 'data-format-suggestion': attributes[FORMAT_ATTR] } : {},
+          },
+        },
+      },
+      {
+        types: this.options.blockTypes,
+        attributes: {
+          [BLOCK_ATTR]: {
+            default: null,
+            // Linked or captioned images keep it on the <img> inside their <figure>
+            parseHTML: (element) =>
+              element.getAttribute('data-block-suggestion') ??
+              (element.tagName === 'FIGURE' || element.tagName === 'A'
+                ? element.querySelector('img')?.getAttribute('data-block-suggestion') ?? null
+                : null),
+            renderHTML: (attributes) =>
+              attributes[BLOCK_ATTR] ? { 'data-block-suggestion': attributes[BLOCK_ATTR] } : {},
+          },
+        },
+      },
+    ];
+  },
+
+  addCommands() {
+    return {
+      setSuggesting:
+        (enabled) =>
+        ({ tr, dispatch }) => {
+          const meta: SuggestionsMeta = { enabled };
+          if (dispatch) tr.setMeta(suggestionsPluginKey, meta).setMeta('addToHistory', false);
+          return true;
+        },
+      acceptSuggestion:
+        (id) =>
+        ({ state, tr }) => resolveSuggestions(state, tr, id, true, this.options.textSizeMark),
+      rejectSuggestion:
+        (id) =>
+        ({ state, tr }) => resolveSuggestions(state, tr, id, false, this.options.textSizeMark),
+      acceptAllSuggestions:
+        () =>
+        ({ state, tr }) => resolveSuggestions(state, tr, null, true, this.options.textSizeMark),
+      rejectAllSuggestions:
+        () =>
+        ({ state, tr }) => resolveSuggestions(state, tr, null, false, this.options.textSizeMark),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      new Plugin<SuggestionsState>({
+        key: suggestionsPluginKey,
+        state: {
+          init: (_, state) => ({ enabled: false, decorations: buildDecorations(state.doc) }),
+          apply: (tr, prev, _oldState, newState) => {
+            const meta = tr.getMeta(suggestionsPluginKey) as SuggestionsMeta | undefined;
+            if (!meta && !tr.docChanged) return prev;
+            return {
+              enabled: meta ? meta.enabled : prev.enabled,
+              decorations: tr.docChanged ? buildDecorations(newState.doc) : prev.decorations,
+            };
+          },
+        },
+        appendTransaction: (trs, oldState, newState) => {
+          if (!isSuggesting(newState)) return null;
+          return trackEdits(trs, oldState, newState, options);
+        },
+        props: {
+          decorations: (state) => suggestionsPluginKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,246 @@
+/**
+ * TableToolbar - contextual table controls shown above the table the cursor is in.
+ * Rows and columns, merge / split, header row / column, column alignment and delete table.
+ * Cell background and border use the sidebar's block style controls (the cell is the container there).
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ContentEditor } from './Editor';
+import { findTablePos, TableColumnAlign } from './TableTools';
+import { icons } from '../utils/icons';
+
+export interface TableToolbarConfig {
+  editor: ContentEditor;
+  /** Element the toolbar is appended to (theme root) */
+  container: HTMLElement;
+  /** Returns current theme variables (same as the link popup) so the toolbar matches light/dark */
+  getThemeForPopup?: () => Record<string, string>;
+}
+
+interface TableToolbarButton {
+  id: string;
+  icon: string;
+  title: string;
+  action: () => void;
+  isActive?: () => boolean;
+  isEnabled?: () => boolean;
+}
+
+/** Gap between the table and the toolbar */
+const OFFSET = 8;
+
+export class TableToolbar {
+  private editor: ContentEditor;
+  private container: HTMLElement;
+  private element: HTMLElement;
+  private getThemeForPopup?: () => Record<string, string>;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: TableToolbarConfig) {
+    this.editor = config.editor;
+    this.container = config.container;
+    this.getThemeForPopup = config.getThemeForPopup;
+    this.element = this.createToolbar();
+    this.container.appendChild(this.element);
+    this.setupListeners();
+  }
+
+  private getButtonGroups(): TableToolbarButton[][] {
+    const tipTap = this.editor.getTipTapEditor();
+    const alignButton = (align: TableColumnAlign, icon: string, title: string): TableToolbarButton => ({
+      id: `align-${align}`,
+      icon,
+      title,
+      action: () => this.editor.setTableColumnAlign(align),
+      isActive: () =>
+        align === 'left'
+          ? !tipTap.isActive({ textAlign: 'center' }) && !tipTap.isActive({ textAlign: 'right' })
+          : tipTap.isActive({ textAlign: align }),
+    });
+
+    return [
+      [
+        { id: 'addRow', icon: icons.tableRowAdd, title: 'Add row below', action: () => this.editor.addTableRowAfter() },
+        { id: 'deleteRow', icon: icons.tableRowRemove, title: 'Delete row', action: () => this.editor.deleteTableRow() },
+        { id: 'addColumn', icon: icons.tableColumnAdd, title: 'Add column right', action: () => this.editor.addTableColumnAfter() },
+        { id: 'deleteColumn', icon: icons.tableColumnRemove, title: 'Delete column', action: () => this.editor.deleteTableColumn() },
+      ],
+      [
+        {
+          id: 'merge',
+          icon: icons.tableMerge,
+          title: 'Merge cells (select several cells first)',
+          action: () => this.editor.mergeTableCells(),
+          isEnabled: () => this.editor.canMergeTableCells(),
+        },
+        {
+          id: 'split',
+          icon: icons.tableSplit,
+          title: 'Split cell',
+          action: () => this.editor.splitTableCell(),
+          isEnabled: () => this.editor.canSplitTableCell(),
+        },
+      ],
+      [
+        {
+          id: 'headerRow',
+          icon: icons.tableHeaderRow,
+          title: 'Header row',
+          action: () => this.editor.toggleTableHeaderRow(),
+          isActive: () => this.hasHeader('row'),
+        },
+        {
+          id: 'headerColumn',
+          icon: icons.tableHeaderColumn,
+          title: 'Header column',
+          action: () => this.editor.toggleTableHeaderColumn(),
+          isActive: () => this.hasHeader('column'),
+        },
+      ],
+      [
+        alignButton('left', icons.alignLeft, 'Align column left'),
+        alignButton('center', icons.alignCenter, 'Align column center'),
+        alignButton('right', icons.alignRight, 'Align column right'),
+      ],
+      [
+        { id: 'deleteTable', icon: icons.tableDelete, title: 'Delete table', action: () => this.editor.deleteTable() },
+      ],
+    ];
+  }
+
+  private createToolbar(): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'editor-table-toolbar';
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.setAttribute('aria-label', 'Table');
+    toolbar.style.display = 'none';
+
+    this.getButtonGroups().forEach((group, index) => {
+      if (index > 0) {
+        const divider = document.createElement('span');
+        divider.className = 'editor-table-toolbar-divider';
+        toolbar.appendChild(divider);
+      }
+      group.forEach((config) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'toolbar-btn';
+        button.dataset.action = config.id;
+        button.title = config.title;
+        button.innerHTML = config.icon;
+        button.addEventListener('click', (e) => {
+          e.preventDefault();
+          config.action();
+        });
+        toolbar.appendChild(button);
+      });
+    });
+
+    // Keep the selection (and editor focus) while using the toolbar
+    toolbar.addEventListener('mousedown', (e) => e.preventDefault());
+
+    return toolbar;
+  }
+
+  /** True when the first row (or the first cell of every row) is made of header cells */
+  private hasHeader(kind: 'row' | 'column'): boolean {
+    const state = this.editor.getTipTapEditor().state;
+    const pos = findTablePos(state);
+    const table = pos === null ? null : state.doc.nodeAt(pos);
+    if (!table || !table.firstChild) return false;
+    const isHeader = (node: ProseMirrorNode | null) => node?.type.name === 'tableHeader';
+    if (kind === 'row') {
+      let all = true;
+      table.firstChild.forEach((cell) => {
+        if (!isHeader(cell)) all = false;
+      });
+      return all;
+    }
+    let all = true;
+    table.forEach((row) => {
+      if (!isHeader(row.firstChild)) all = false;
+    });
+    return all;
+  }
+
+  private setupListeners(): void {
+    const tipTap = this.editor.getTipTapEditor();
+    const update = () => this.update();
+    const onBlur = () => this.hide();
+    tipTap.on('selectionUpdate', update);
+    tipTap.on('transaction', update);
+    tipTap.on('focus', update);
+    tipTap.on('blur', onBlur);
+    const onScroll = () => {
+      if (this.element.style.display !== 'none') this.position();
+    };
+    window.addEventListener('scroll', onScroll, true);
+    this.unsubscribe = () => {
+      tipTap.off('selectionUpdate', update);
+      tipTap.off('transaction', update);
+      tipTap.off('focus', update);
+      tipTap.off('blur', onBlur);
+      window.removeEventListener('scroll', onScroll, true);
+    };
+  }
+
+  private shouldShow(): boolean {
+    return this.editor.isEditable() && this.editor.isFocused() && this.editor.isInTable();
+  }
+
+  private update(): void {
+    if (!this.shouldShow()) {
+      this.hide();
+      return;
+    }
+    const wasHidden = this.element.style.display === 'none';
+    this.element.style.display = '';
+    if (wasHidden) this.applyTheme();
+    this.updateButtonStates();
+    this.position();
+  }
+
+  private applyTheme(): void {
+    const vars = this.getThemeForPopup?.();
+    if (!vars) return;
+    for (const [key, value] of Object.entries(vars)) {
+      if (value) this.element.style.setProperty(key, value);
+    }
+  }
+
+  private updateButtonStates(): void {
+    this.getButtonGroups().flat().forEach((config) => {
+      const btn = this.element.querySelector(`[data-action="${config.id}"]`) as HTMLButtonElement | null;
+      if (!btn) return;
+      if (config.isActive) btn.classList.toggle('active', config.isActive());
+      if (config.isEnabled) btn.disabled = !config.isEnabled();
+    });
+  }
+
+  /** Above the table's left edge (below its top when there is no room), kept inside the viewport */
+  private position(): void {
+    const view = this.editor.getTipTapEditor().view;
+    const pos = findTablePos(view.state);
+    const dom = pos === null ? null : (view.nodeDOM(pos) as HTMLElement | null);
+    if (!dom || typeof dom.getBoundingClientRect !== 'function') return;
+    const rect = dom.getBoundingClientRect();
+    const toolbarWidth = this.element.offsetWidth;
+    const toolbarHeight = this.element.offsetHeight;
+
+    const top = rect.top - toolbarHeight - OFFSET >= 0
+      ? rect.top - toolbarHeight - OFFSET
+      : Math.min(Math.max(OFFSET, rect.top + OFFSET), rect.bottom - toolbarHeight);
+    const left = Math.max(OFFSET, Math.min(rect.left, window.innerWidth - toolbarWidth - OFFSET));
+    this.element.style.top = `${top}px`;
+    this.element.style.left = `${left}px`;
+  }
+
+  hide(): void {
+    this.element.style.display = 'none';
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.element.remove();
+  }
+}
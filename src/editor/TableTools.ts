@@ -0,0 +1,77 @@
+/**
+ * TableTools Extension
+ *
+ * Table commands the Table extension doesn't have:
+ * - setTableColumnAlign: align the text of every cell in the selected column(s)
+ *
+ * Merge / split and header row / column toggles come from @tiptap/extension-table;
+ * cell background and border are BlockStyle attributes on tableCell / tableHeader.
+ */
+
+import { Extension } from '@tiptap/core';
+import { isInTable, selectedRect } from '@tiptap/pm/tables';
+import type { EditorState } from '@tiptap/pm/state';
+
+export type TableColumnAlign = 'left' | 'center' | 'right';
+
+export interface TableToolsOptions {
+  /** Text block types whose textAlign is set */
+  alignTypes: string[];
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    tableTools: {
+      /**
+       * Align the text in the column(s) of the selected cells
+       */
+      setTableColumnAlign: (align: TableColumnAlign) => ReturnType;
+    };
+  }
+}
+
+/** Position of the table around the selection, or null outside tables */
+export function findTablePos(state: EditorState): number | null {
+  const { $from } = state.selection;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    if ($from.node(depth).type.spec.tableRole === 'table') return $from.before(depth);
+  }
+  return null;
+}
+
+export const TableTools = Extension.create<TableToolsOptions>({
+  name: 'tableTools',
+
+  addOptions() {
+    return {
+      alignTypes: ['paragraph', 'heading'],
+    };
+  },
+
+  addCommands() {
+    return {
+      setTableColumnAlign:
+        (align: TableColumnAlign) =>
+        ({ state, tr, dispatch }) => {
+          if (!isInTable(state)) return false;
+          if (!dispatch) return true;
+          const rect = selectedRect(state);
+          const cells = rect.map.cellsInRect({ left: rect.left, right: rect.right, top: 0, bottom: rect.map.height });
+          // Left is the default alignment, so it clears the attribute
+          const textAlign = align === 'left' ? null : align;
+          cells.forEach((cellPos) => {
+            const cell = rect.table.nodeAt(cellPos);
+            if (!cell) return;
+            const start = rect.tableStart + cellPos + 1;
+            cell.descendants((node, pos) => {
+              if (!this.options.alignTypes.includes(node.type.name)) return true;
+              tr.setNodeMarkup(start + pos, undefined, { ...node.attrs, textAlign });
+              return false;
+            });
+          });
+          dispatch(tr);
+          return true;
+        },
+    };
+  },
+});
@@ -27,17 +27,20 @@ declare module '@tiptap/core' {
   }
 }
 
+/** Named sizes offered by the toolbar and sidebar; medium is the body text size */
+export const DEFAULT_TEXT_SIZES: Record<string, string> = {
+  small: '13px',
+  medium: '16px',
+  large: '20px',
+  xlarge: '24px',
+};
+
 export const TextSize = Mark.create<TextSizeOptions>({
   name: 'textSize',
 
   addOptions() {
     return {
-      sizes: {
-        small: '13px',
-        medium: '16px',
-        large: '20px',
-        xlarge: '24px',
-      },
+      sizes: { ...DEFAULT_TEXT_SIZES },
       HTMLAttributes: {},
     };
   },
@@ -182,21 +182,21 @@ export class Toolbar {
             id: 'h1',
             icon: icons.h1,
             title: 'Heading 1',
-            action: () => this.editor.setHeading(1),
+            action: () => this.editor.toggleHeading(1),
             isActive: () => this.editor.isActive('heading', { level: 1 }),
           },
           {
             id: 'h2',
             icon: icons.h2,
             title: 'Heading 2',
-            action: () => this.editor.setHeading(2),
+            action: () => this.editor.toggleHeading(2),
             isActive: () => this.editor.isActive('heading', { level: 2 }),
           },
           {
             id: 'h3',
             icon: icons.h3,
             title: 'Heading 3',
-            action: () => this.editor.setHeading(3),
+            action: () => this.editor.toggleHeading(3),
             isActive: () => this.editor.isActive('heading', { level: 3 }),
           },
         ],
@@ -362,8 +362,8 @@ export class Toolbar {
   }
 
   private handleLinkAction(): void {
-    const isEdit = this.editor.isActive('link');
     const attrs = this.editor.getLinkAttributes();
+    const isEdit = attrs !== null;
     showLinkPopup(this.editor, {
       initialUrl: attrs?.href ?? '',
       initialOpenInNewTab: attrs?.target === '_blank',
@@ -375,6 +375,10 @@ export class Toolbar {
   }
 
   private handleImageAction(): void {
+    if (this.editor.canUploadImages()) {
+      this.editor.openImagePicker();
+      return;
+    }
     const url = prompt('Enter image URL:');
     if (url) {
       this.editor.insertImage(url);
@@ -1,11 +1,9 @@
 import StarterKit from '@tiptap/starter-kit';
 import Link from '@tiptap/extension-link';
-import Image from '@tiptap/extension-image';
 import Table from '@tiptap/extension-table';
 import TableRow from '@tiptap/extension-table-row';
 import TableCell from '@tiptap/extension-table-cell';
 import TableHeader from '@tiptap/extension-table-header';
-import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
 import Placeholder from '@tiptap/extension-placeholder';
 import CharacterCount from '@tiptap/extension-character-count';
 import TaskList from '@tiptap/extension-task-list';
@@ -13,20 +11,49 @@ import TaskItem from '@tiptap/extension-task-item';
 import TextAlign from '@tiptap/extension-text-align';
 import Color from '@tiptap/extension-color';
 import TextStyle from '@tiptap/extension-text-style';
-import { common, createLowlight } from 'lowlight';
 import { DivBlock } from './DivBlock';
 import { Column, ColumnGrid, ColumnLayout, ColumnResize } from './Columns';
 import { TextSize } from './TextSize';
+import { TableTools } from './TableTools';
+import { CodeBlock } from './CodeBlock';
+import { Image } from './Image';
+import { lowlight } from '../utils/codeHighlight';
 import { BlockStyle } from './BlockStyle';
-
-// Create lowlight instance with common languages
-const lowlight = createLowlight(common);
+import { ImageUpload, ImageUploadHandler } from './ImageUpload';
+import { CharacterLimit, CharacterLimitMode } from './CharacterLimit';
+import { SlashCommand } from './SlashCommand';
+import { SearchReplace, SearchPanelMode } from './SearchReplace';
+import { Mention } from './Mention';
+import { MergeField } from './MergeField';
+import { Comment } from './Comments';
+import { Suggestions, Insertion, Deletion, FormatChange } from './Suggestions';
+import type { MentionUser } from '../utils/mentionUsers';
 
 export interface ExtensionOptions {
   placeholder?: string;
   /** Dynamic placeholder getter (used when provided so Bubble can update placeholder) */
   getPlaceholder?: () => string;
   characterLimit?: number;
+  /** Dynamic limit getter (used when provided so Bubble can change the limit); 0 = unlimited */
+  getCharacterLimit?: () => number;
+  getCharacterLimitMode?: () => CharacterLimitMode;
+  onCharacterLimitReached?: () => void;
+  /** Upload function for local image files (file picker, paste, drop); without it only image URLs can be inserted */
+  uploadImage?: ImageUploadHandler;
+  /** Called with the final URL after an image upload finished */
+  onImageUploaded?: (url: string) => void;
+  /** Link URL check (sanitizer protocol allowlist) for text and image links; defaults to TipTap's own check for text */
+  isAllowedUrl?: (url: string) => boolean;
+  /** Ids of the "/" menu commands to offer (null = all, empty = menu off) */
+  getSlashCommands?: () => string[] | null;
+  /** Called for Mod-F / Mod-H to open the find / replace UI */
+  onSearchRequested?: (mode: SearchPanelMode) => void;
+  /** Users offered by the "@" menu (empty = no menu) */
+  getMentionUsers?: () => MentionUser[];
+  /** Field names offered by the "{{" menu (empty = no menu) */
+  getMergeFieldNames?: () => string[];
+  /** Author of new suggestions (track changes), read for each edit */
+  getSuggestionAuthor?: () => string;
 }
 
 export function createExtensions(options: ExtensionOptions = {}) {
@@ -42,11 +69,12 @@ export function createExtensions(options: ExtensionOptions = {}) {
       types: ['heading', 'paragraph', 'divBlock'],
     }),
     BlockStyle.configure({
-      types: ['paragraph', 'heading', 'divBlock', 'blockquote', 'columnLayout', 'columnGrid', 'column'],
-      containerTypes: ['columnLayout', 'column', 'divBlock', 'columnGrid'],
+      types: ['paragraph', 'heading', 'divBlock', 'blockquote', 'columnLayout', 'columnGrid', 'column', 'tableCell', 'tableHeader'],
+      containerTypes: ['columnLayout', 'column', 'divBlock', 'columnGrid', 'tableCell', 'tableHeader'],
     }),
     Link.configure({
       openOnClick: false,
+      isAllowedUri: (url, ctx) => (options.isAllowedUrl ? options.isAllowedUrl(url ?? '') : ctx.defaultValidate(url)),
       HTMLAttributes: {
         class: 'editor-link',
       },
@@ -54,10 +82,15 @@ export function createExtensions(options: ExtensionOptions = {}) {
     Image.configure({
       inline: false,
       allowBase64: true,
+      ...(options.isAllowedUrl ? { isAllowedUrl: options.isAllowedUrl } : {}),
       HTMLAttributes: {
         class: 'editor-image',
       },
     }),
+    ImageUpload.configure({
+      upload: options.uploadImage ?? null,
+      onUploaded: options.onImageUploaded ? (url) => options.onImageUploaded?.(url) : null,
+    }),
     Table.configure({
       resizable: true,
       HTMLAttributes: {
@@ -67,7 +100,8 @@ export function createExtensions(options: ExtensionOptions = {}) {
     TableRow,
     TableCell,
     TableHeader,
-    CodeBlockLowlight.configure({
+    TableTools,
+    CodeBlock.configure({
       lowlight,
       HTMLAttributes: {
         class: 'editor-code-block',
@@ -78,8 +112,11 @@ export function createExtensions(options: ExtensionOptions = {}) {
         ? options.getPlaceholder
         : (options.placeholder || 'Start writing...'),
     }),
-    CharacterCount.configure({
-      limit: options.characterLimit,
+    CharacterCount,
+    CharacterLimit.configure({
+      getLimit: options.getCharacterLimit ?? (() => options.characterLimit ?? 0),
+      getMode: options.getCharacterLimitMode ?? (() => 'truncate'),
+      onLimitReached: options.onCharacterLimitReached ?? null,
     }),
     TaskList.configure({
       HTMLAttributes: {
@@ -106,5 +143,26 @@ export function createExtensions(options: ExtensionOptions = {}) {
       },
     }),
     ColumnResize,
+    SearchReplace.configure({
+      onOpenPanel: options.onSearchRequested ?? null,
+    }),
+    SlashCommand.configure({
+      getEnabledCommands: options.getSlashCommands ?? (() => null),
+    }),
+    Mention.configure({
+      getUsers: options.getMentionUsers ?? (() => []),
+    }),
+    MergeField.configure({
+      getFieldNames: options.getMergeFieldNames ?? (() => []),
+    }),
+    Comment,
+    Insertion,
+    Deletion,
+    FormatChange,
+    Suggestions.configure({
+      getAuthor: options.getSuggestionAuthor ?? (() => ''),
+      types: ['paragraph', 'heading', 'divBlock', 'blockquote', 'columnLayout', 'columnGrid', 'column', 'tableCell', 'tableHeader'],
+      blockTypes: ['image', 'table', 'horizontalRule', 'divBlock', 'columnLayout', 'columnGrid'],
+    }),
   ];
 }
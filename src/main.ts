@@ -76,7 +76,7 @@ function initializeDemo() {
   // Sidebar toggle is now handled internally by BubbleElement
 
   // Track active output tab
-  let activeOutputTab: 'html' | 'json' = 'html';
+  let activeOutputTab: 'html' | 'json' | 'rendered' = 'html';
 
   // --- Theme Presets (BP Brand) ---
   const lightTheme = {
@@ -120,6 +120,7 @@ function initializeDemo() {
   const placeholderInput = document.getElementById('prop-placeholder') as HTMLInputElement;
   const editableCheck = document.getElementById('prop-editable') as HTMLInputElement;
   const toolbarCheck = document.getElementById('prop-toolbar') as HTMLInputElement;
+  const toolbarModeSelect = document.getElementById('prop-toolbar-mode') as HTMLSelectElement;
 
   placeholderInput?.addEventListener('change', () => {
     bubbleMock.setProperty('placeholder', placeholderInput.value);
@@ -133,6 +134,26 @@ function initializeDemo() {
     bubbleMock.setProperty('toolbar_visible', toolbarCheck.checked);
   });
 
+  toolbarModeSelect?.addEventListener('change', () => {
+    bubbleMock.setProperty('toolbar_mode', toolbarModeSelect.value as 'toolbar' | 'floating' | 'both');
+  });
+
+  const collabRoomInput = document.getElementById('prop-collab-room') as HTMLInputElement;
+  const collabNameInput = document.getElementById('prop-collab-name') as HTMLInputElement;
+  const collabServerInput = document.getElementById('prop-collab-server') as HTMLInputElement;
+
+  collabRoomInput?.addEventListener('change', () => {
+    bubbleMock.setProperty('collaboration_room', collabRoomInput.value);
+  });
+
+  collabNameInput?.addEventListener('change', () => {
+    bubbleMock.setProperty('collaboration_user_name', collabNameInput.value);
+  });
+
+  collabServerInput?.addEventListener('change', () => {
+    bubbleMock.setProperty('collaboration_server_url', collabServerInput.value);
+  });
+
   // --- Modal Theme Controls ---
   const themePreset = document.getElementById('theme-preset') as HTMLSelectElement;
   const themeAccent = document.getElementById('theme-accent') as HTMLInputElement;
@@ -240,12 +261,19 @@ greet('World');</code></pre>
   document.getElementById('action-set-content')?.addEventListener('click', () => {
     bubbleMock.runAction('set_content', { content: sampleContent });
   });
+  document.getElementById('action-render-data')?.addEventListener('click', () => {
+    bubbleMock.runAction('render_with_data', {
+      names: ['first_name', 'last_name', 'company', 'email'],
+      values: ['Ada', 'Lovelace', 'Analytical Engines Ltd', ''],
+    });
+    document.querySelector<HTMLElement>('.output-tab[data-tab="rendered"]')?.click();
+  });
 
   // Email export
   document.getElementById('action-copy-email')?.addEventListener('click', async () => {
     const editor = bubbleElement.getEditor();
     if (editor) {
-      const success = await editor.copyEmailToClipboard();
+      const success = await editor.copyEmailToClipboard(editor.getEmailOptionsFromStyles());
       if (success) {
         const btn = document.getElementById('action-copy-email');
         if (btn) {
@@ -265,7 +293,7 @@ greet('World');</code></pre>
     const editor = bubbleElement.getEditor();
     if (editor) {
       const timestamp = new Date().toISOString().slice(0, 10);
-      editor.downloadAsEmail(`email-export-${timestamp}.html`);
+      editor.downloadAsEmail(`email-export-${timestamp}.html`, editor.getEmailOptionsFromStyles());
     }
   });
 
@@ -277,7 +305,7 @@ greet('World');</code></pre>
       const container = tab.closest('.modal-section');
       container?.querySelectorAll('.output-tab').forEach(t => t.classList.remove('active'));
       tab.classList.add('active');
-      activeOutputTab = tab.getAttribute('data-tab') as 'html' | 'json';
+      activeOutputTab = tab.getAttribute('data-tab') as 'html' | 'json' | 'rendered';
       updateOutputDisplay();
     });
   });
@@ -287,6 +315,8 @@ greet('World');</code></pre>
     const states = bubbleMock.getStates();
     if (activeOutputTab === 'html') {
       outputContentEl.textContent = states.html_content || '<empty>';
+    } else if (activeOutputTab === 'rendered') {
+      outputContentEl.textContent = states.rendered_html || 'Run "Render with Data" to fill the merge fields';
     } else {
       // JSON output - get directly from editor if available
       outputContentEl.textContent = 'JSON view available in full implementation';
@@ -364,6 +394,10 @@ greet('World');</code></pre>
         }
       },
       image: () => {
+        if (editor.canUploadImages()) {
+          editor.openImagePicker();
+          return;
+        }
         const url = prompt('Enter image URL:');
         if (url) editor.insertImage(url);
       },
@@ -501,8 +535,7 @@ greet('World');</code></pre>
   function updateStats() {
     const states = bubbleMock.getStates();
     if (wordCountEl) wordCountEl.textContent = String(states.word_count);
-    // Character count computed from HTML content length as approximation
-    if (charCountEl) charCountEl.textContent = String(states.html_content?.replace(/<[^>]*>/g, '').length || 0);
+    if (charCountEl) charCountEl.textContent = String(states.character_count);
     updateOutputDisplay();
   }
 
@@ -522,13 +555,56 @@ greet('World');</code></pre>
 // Export for library usage
 export { ContentEditor } from './editor/Editor';
 export { Toolbar } from './editor/Toolbar';
+export { FloatingMenu } from './editor/FloatingMenu';
+export { TableToolbar } from './editor/TableToolbar';
+export type { TableColumnAlign } from './editor/TableTools';
+export { ImageToolbar } from './editor/ImageToolbar';
+export type { ImageAlign, ImageAttributes } from './editor/Image';
+export { CodeBlock } from './editor/CodeBlock';
 export { Sidebar, SIDEBAR_SECTION_IDS } from './editor/Sidebar';
 export type { SidebarConfig, SidebarSectionId } from './editor/Sidebar';
+export type { ImageUploadHandler } from './editor/ImageUpload';
+export { DraftRecovery } from './editor/DraftRecovery';
+export type { DraftRecoveryConfig } from './editor/DraftRecovery';
+export { SLASH_COMMAND_ITEMS } from './editor/SlashCommand';
+export type { SearchOptions, SearchResults } from './editor/SearchReplace';
+export type { SlashCommandItem } from './editor/SlashCommand';
+export { getMentionedUserIds } from './editor/Mention';
+export { buildMentionUsers } from './utils/mentionUsers';
+export type { MentionUser } from './utils/mentionUsers';
+export { fillMergeFields, buildMergeData } from './utils/mergeFields';
+export type { MergeData } from './utils/mergeFields';
+export { parseCommentThreads, stripComments } from './utils/comments';
+export type { CommentThread, CommentReply } from './utils/comments';
+export { diffDocuments, diffText } from './utils/documentDiff';
+export type { DiffOptions, DiffLayout, TextSegment } from './utils/documentDiff';
+export type { DocumentSnapshot } from './utils/snapshots';
+export { getSuggestions } from './editor/Suggestions';
+export type { Suggestion, SuggestionType } from './editor/Suggestions';
+export { CollaborationSession, pickCollaboratorColor } from './editor/Collaboration';
+export type { CollaborationOptions, Collaborator } from './editor/Collaboration';
+export { BroadcastChannelProvider, WebSocketProvider } from './utils/collaborationProviders';
+export type { CollaborationProvider, CollaborationMessage, CollaborationUser } from './utils/collaborationProviders';
 export { BubbleElement } from './bubble/element';
 export { BubbleMock, bubbleMock } from './mock/BubbleMock';
 export { EventBridge } from './bubble/events';
 export { ActionHandler } from './bubble/actions';
 export { convertToEmailHTML, downloadEmailHTML, copyEmailHTMLToClipboard } from './utils/emailExport';
-export type { EmailExportOptions } from './utils/emailExport';
+export type { EmailExportOptions, EmailDarkModeColors } from './utils/emailExport';
+export { getEmailOptionsFromTheme, getEmailOptionsFromElement, getEmailDarkMode } from './utils/emailTheme';
+export type { EmailThemeOptions } from './utils/emailTheme';
+export { convertToEmailText } from './utils/emailText';
+export type { EmailTextOptions, EmailTextLinkStyle } from './utils/emailText';
+export { analyzeEmail } from './utils/emailPreflight';
+export type { PreflightIssue, PreflightSeverity, PreflightRule } from './utils/emailPreflight';
+export { highlightCodeToInlineHTML, getCodeLanguages } from './utils/codeHighlight';
+export type { CodeLanguage } from './utils/codeHighlight';
+export { serializeToMarkdown, markdownToHTML } from './utils/markdown';
+export { sanitizeHtml, isAllowedUrl } from './utils/sanitizeHtml';
+export type { SanitizeOptions, SanitizePolicy } from './utils/sanitizeHtml';
+export { cleanPastedHTML, detectPasteSource } from './utils/pasteCleanup';
+export type { PasteMode, PasteSource, PasteCleanupOptions } from './utils/pasteCleanup';
+export { prepareContentForLoad, registerDocumentMigration, wrapDocument, CURRENT_DOCUMENT_VERSION } from './utils/documentFormat';
+export type { DocumentEnvelope, DocumentMigration } from './utils/documentFormat';
 export { applyTheme, getThemePreset, lightThemePreset, darkThemePreset, bpBrandColors, defaultColorPalette } from './utils/themeApplier';
 export type { ThemeProperties } from './utils/themeApplier';
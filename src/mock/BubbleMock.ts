@@ -6,15 +6,30 @@
  * - states: Output values the plugin exposes to Bubble
  * - events: Triggers that fire Bubble workflows
  * - actions: Functions Bubble can call on the plugin
+ * - file uploads: Bubble's uploader stores files and returns a hosted URL
  */
 
+import type { SanitizePolicy } from '../utils/sanitizeHtml';
+import type { PasteMode } from '../utils/pasteCleanup';
+
 export interface BubbleProperties {
   initial_content: string;
   placeholder: string;
   editable: boolean;
   toolbar_visible: boolean;
+  // Formatting controls: fixed toolbar, floating menu above text selections, or both
+  toolbar_mode: 'toolbar' | 'floating' | 'both';
   min_height: number;
   max_height: number;
+  // Character limit (0 = unlimited); over-limit pastes / set content are cut at the limit or refused
+  max_characters: number;
+  character_limit_mode: 'truncate' | 'reject';
+  // HTML sanitizer policy for loaded, pasted and published content
+  sanitize_policy: SanitizePolicy;
+  // Pasting rich content: clean up Word / Google Docs HTML, paste plain text, or keep the HTML
+  paste_mode: PasteMode;
+  // "/" menu commands to offer: comma-separated ids (empty = all, "none" = menu off)
+  slash_commands: string;
   // Theming
   theme: 'light' | 'dark' | 'auto';
   // Brand colors (configurable per-app)
@@ -38,28 +53,141 @@ export interface BubbleProperties {
   // Alternative: two list-of-strings (more reliable when option set attributes don't come through)
   color_names?: unknown;
   color_hex_codes?: unknown;
+  // "@" mention users: parallel lists matched by position (avatars optional)
+  mention_user_ids?: unknown;
+  mention_user_names?: unknown;
+  mention_user_avatars?: unknown;
+  // Field names offered by the "{{" merge field menu
+  merge_field_names?: unknown;
+  // Collaboration: editors with the same room edit together (same browser, or through a WebSocket relay URL)
+  collaboration_room?: string;
+  collaboration_server_url?: string;
+  collaboration_user_name?: string;
+  collaboration_user_color?: string;
+  // Comments: threads saved in Bubble (JSON from the "Comments (JSON)" state), author of new comments,
+  // and whether content_html leaves the comment marks out
+  initial_comments?: string;
+  comment_author_name?: string;
+  strip_comments_from_html?: boolean;
+  // Suggesting mode (track changes): edits are recorded as suggestions to accept or reject
+  suggesting?: boolean;
+  // Local draft of unsaved changes, stored under this key (e.g. the Thing's unique id; empty = no drafts)
+  draft_key?: string;
   // Default text color for unstyled text (hex or palette value; applied via --editor-default-text-color)
   default_text_color?: string;
+  // Frame around the content in email_html: title, preview line, header / footer (HTML or editor content)
+  // and the email service's unsubscribe / view-in-browser placeholders with their link labels
+  email_title?: string;
+  email_preheader?: string;
+  email_header_html?: string;
+  email_footer_html?: string;
+  email_unsubscribe_url?: string;
+  email_unsubscribe_label?: string;
+  email_view_in_browser_url?: string;
+  email_view_in_browser_label?: string;
 }
 
 export interface BubbleStates {
   html_content: string;
   is_empty: boolean;
   word_count: number;
+  character_count: number;
+  /** null when there is no character limit */
+  characters_remaining: number | null;
+  /** Versioned envelope: { format, version, doc } */
   json_content: string;
+  /** Document version of the last loaded content (1 = saved before versioning) */
+  loaded_content_version: number | null;
+  markdown_content: string;
+  uploaded_image_url: string;
+  /** Users mentioned in the document, in document order */
+  mentioned_user_ids: string[];
+  last_mentioned_user_id: string;
+  /** Content HTML with merge fields filled by the last "Render with data" */
+  rendered_html: string;
+  /** 'off', 'connecting', 'connected' or 'disconnected' */
+  collaboration_status: string;
+  /** Names of the other users in the collaboration session */
+  collaborators: string[];
+  /** Comment threads as JSON: [{ id, author, text, createdAt, resolved, quote, replies: [...] }] */
+  comments_json: string;
+  /** Thread of the last "Comment added" / "Comment resolved" event */
+  last_comment_thread_id: string;
+  /** Pending suggestions as JSON: [{ id, type: 'insert' | 'delete' | 'format', author, createdAt, text }] */
+  suggestions_json: string;
+  suggestion_count: number;
+  /** Content as email HTML and as its plain-text alternative (default export options) */
+  email_html: string;
+  email_text: string;
+  /** Email preflight issues as JSON: [{ rule, severity: 'error' | 'warning' | 'info', message, pos, nodeType }] */
+  email_issues_json: string;
+  email_issue_count: number;
+  /** Result of the last "Compare HTML A vs B" */
+  diff_html: string;
+  /** Names of the snapshots taken in this session, oldest first */
+  snapshot_names: string[];
+  /** A local draft that differs from the loaded content is waiting to be restored or discarded */
+  draft_recoverable: boolean;
 }
 
 export type BubbleEventName = 
   | 'content_changed'
   | 'editor_focused'
   | 'editor_blurred'
-  | 'image_uploaded';
+  | 'image_uploaded'
+  | 'character_limit_reached'
+  | 'user_mentioned'
+  | 'comment_added'
+  | 'comment_resolved';
 
 export type BubbleActionName = 
   | 'set_content'
+  | 'set_markdown'
+  | 'render_with_data'
   | 'clear_content'
   | 'focus'
-  | 'insert_image';
+  | 'insert_image'
+  // Formatting
+  | 'toggle_bold'
+  | 'toggle_italic'
+  | 'toggle_strike'
+  | 'set_heading'
+  | 'set_text_color'
+  | 'set_text_align'
+  // Lists
+  | 'toggle_bullet_list'
+  | 'toggle_ordered_list'
+  | 'toggle_task_list'
+  // Insert
+  | 'insert_table'
+  | 'insert_columns'
+  | 'insert_div_block'
+  | 'insert_horizontal_rule'
+  // Tables
+  | 'merge_table_cells'
+  | 'split_table_cell'
+  | 'toggle_table_header_row'
+  | 'toggle_table_header_column'
+  | 'set_table_column_align'
+  // Links
+  | 'set_link'
+  | 'unset_link'
+  // History
+  | 'undo'
+  | 'redo'
+  // Suggestions
+  | 'accept_suggestion'
+  | 'reject_suggestion'
+  | 'accept_all_suggestions'
+  | 'reject_all_suggestions'
+  // Snapshots
+  | 'create_snapshot'
+  | 'compare_html'
+  | 'restore_snapshot'
+  // Drafts
+  | 'clear_draft'
+  // Paste
+  | 'paste_as_plain_text';
 
 export interface BubbleAction {
   name: BubbleActionName;
@@ -90,8 +218,18 @@ export class BubbleMock {
       placeholder: 'Start writing something amazing...',
       editable: true,
       toolbar_visible: true,
+      toolbar_mode: 'toolbar',
       min_height: 200,
       max_height: 800,
+      max_characters: 0,
+      character_limit_mode: 'truncate',
+      sanitize_policy: 'strict',
+      paste_mode: 'clean',
+      slash_commands: '',
+      mention_user_ids: ['u1', 'u2', 'u3'],
+      mention_user_names: ['Ada Lovelace', 'Grace Hopper', 'Alan Turing'],
+      mention_user_avatars: [],
+      merge_field_names: ['first_name', 'last_name', 'company', 'email'],
       // Theming defaults (BP Brand light theme)
       theme: 'light',
       // Brand colors
@@ -117,7 +255,28 @@ export class BubbleMock {
       html_content: '',
       is_empty: true,
       word_count: 0,
+      character_count: 0,
+      characters_remaining: null,
       json_content: '{}',
+      loaded_content_version: null,
+      markdown_content: '',
+      uploaded_image_url: '',
+      mentioned_user_ids: [],
+      last_mentioned_user_id: '',
+      rendered_html: '',
+      collaboration_status: 'off',
+      collaborators: [],
+      comments_json: '[]',
+      last_comment_thread_id: '',
+      suggestions_json: '[]',
+      suggestion_count: 0,
+      email_html: '',
+      email_text: '',
+      email_issues_json: '[]',
+      email_issue_count: 0,
+      diff_html: '',
+      snapshot_names: [],
+      draft_recoverable: false,
     };
   }
 
@@ -253,6 +412,26 @@ export class BubbleMock {
     };
   }
 
+  // --- File Upload ---
+
+  /**
+   * Upload a file and resolve with its URL. Bubble stores the file on its CDN; the mock
+   * simulates progress and returns an object URL so uploads work offline.
+   */
+  uploadFile(file: File, onProgress?: (percent: number) => void): Promise<string> {
+    return new Promise((resolve) => {
+      let progress = 0;
+      const timer = setInterval(() => {
+        progress = Math.min(100, progress + 25);
+        onProgress?.(progress);
+        if (progress >= 100) {
+          clearInterval(timer);
+          resolve(URL.createObjectURL(file));
+        }
+      }, 150);
+    });
+  }
+
   // --- Debug/Development Helpers ---
 
   logState(): void {
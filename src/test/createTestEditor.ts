@@ -0,0 +1,24 @@
+/**
+ * Test helper - editors mounted on a fresh element in the jsdom document.
+ *
+ * Importing this module registers an afterEach hook that destroys every editor the test created
+ * and empties the document.
+ */
+
+import { afterEach } from 'vitest';
+import { ContentEditor, EditorConfig } from '../editor/Editor';
+
+const editors: ContentEditor[] = [];
+
+export function createTestEditor(config: Omit<EditorConfig, 'element'> = {}): ContentEditor {
+  const element = document.createElement('div');
+  document.body.appendChild(element);
+  const editor = new ContentEditor({ element, ...config });
+  editors.push(editor);
+  return editor;
+}
+
+afterEach(() => {
+  editors.splice(0).forEach((editor) => editor.destroy());
+  document.body.innerHTML = '';
+});
@@ -222,6 +222,8 @@ export class DragDropManager {
         break;
 
       case 'image': {
+        // Pick a local file when uploads are configured; otherwise fall back to a URL
+        if (this.editor.commands.openImagePicker(insertPos)) break;
         const url = prompt('Enter image URL:');
         if (url) {
           this.editor.chain().focus().insertContentAt(insertPos, {
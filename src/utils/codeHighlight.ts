@@ -0,0 +1,124 @@
+/**
+ * Code highlighting shared by the editor's code blocks and the email export.
+ * One lowlight instance with highlight.js's common languages; the email export turns its tokens
+ * into spans with inline colors (the same palette as the editor's .hljs-* styles) because email
+ * clients drop stylesheets.
+ */
+
+import { common, createLowlight } from 'lowlight';
+
+export const lowlight = createLowlight(common);
+
+/** Display names for the language picker (ids without one are shown as is) */
+const LANGUAGE_LABELS: Record<string, string> = {
+  arduino: 'Arduino',
+  bash: 'Bash',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  css: 'CSS',
+  diff: 'Diff',
+  go: 'Go',
+  graphql: 'GraphQL',
+  ini: 'INI',
+  java: 'Java',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  kotlin: 'Kotlin',
+  less: 'Less',
+  lua: 'Lua',
+  makefile: 'Makefile',
+  markdown: 'Markdown',
+  objectivec: 'Objective-C',
+  perl: 'Perl',
+  php: 'PHP',
+  'php-template': 'PHP template',
+  plaintext: 'Plain text',
+  python: 'Python',
+  'python-repl': 'Python REPL',
+  r: 'R',
+  ruby: 'Ruby',
+  rust: 'Rust',
+  scss: 'SCSS',
+  shell: 'Shell session',
+  sql: 'SQL',
+  swift: 'Swift',
+  typescript: 'TypeScript',
+  vbnet: 'VB.NET',
+  wasm: 'WebAssembly',
+  xml: 'HTML / XML',
+  yaml: 'YAML',
+};
+
+/** Token colors, first matching class wins (keep in step with the .hljs-* rules in editor.css) */
+const TOKEN_COLORS: [string[], string][] = [
+  [['hljs-comment', 'hljs-quote'], '#6b7280'],
+  [['hljs-keyword', 'hljs-selector-tag', 'hljs-built_in'], '#c084fc'],
+  [['hljs-string', 'hljs-attribute', 'hljs-addition'], '#86efac'],
+  [['hljs-number', 'hljs-literal'], '#fbbf24'],
+  [['hljs-function', 'hljs-title'], '#60a5fa'],
+  [['hljs-variable', 'hljs-params'], '#f472b6'],
+];
+
+export interface CodeLanguage {
+  id: string;
+  label: string;
+}
+
+/** Languages offered by the code block's language picker, by label */
+export function getCodeLanguages(): CodeLanguage[] {
+  return lowlight
+    .listLanguages()
+    .map((id) => ({ id, label: LANGUAGE_LABELS[id] ?? id }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/** Language id from a code element's language-* class (null = auto-detect) */
+export function getCodeLanguage(el: Element | null): string | null {
+  const match = (el?.getAttribute('class') || '').match(/(?:^|\s)language-(\S+)/);
+  return match ? match[1] : null;
+}
+
+type HighlightNode = {
+  type: string;
+  value?: string;
+  properties?: { className?: unknown };
+  children?: HighlightNode[];
+};
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function tokenColor(classNames: unknown): string | null {
+  const classes = Array.isArray(classNames) ? classNames.map(String) : [];
+  const entry = TOKEN_COLORS.find(([names]) => names.some((name) => classes.includes(name)));
+  return entry ? entry[1] : null;
+}
+
+function toInlineHTML(nodes: HighlightNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return escapeText(node.value ?? '');
+      const inner = toInlineHTML(node.children ?? []);
+      const color = tokenColor(node.properties?.className);
+      return color ? `<span style="color: ${color};">${inner}</span>` : inner;
+    })
+    .join('');
+}
+
+/**
+ * Highlighted code as HTML with inline token colors (text is escaped).
+ * An unknown or empty language is detected, like the editor does.
+ */
+export function highlightCodeToInlineHTML(code: string, language: string | null): string {
+  try {
+    const tree = language && lowlight.registered(language)
+      ? lowlight.highlight(language, code)
+      : lowlight.highlightAuto(code);
+    return toInlineHTML(tree.children as HighlightNode[]);
+  } catch (error) {
+    console.warn('[codeHighlight] Could not highlight code:', error);
+    return escapeText(code);
+  }
+}
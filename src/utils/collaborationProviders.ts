@@ -0,0 +1,176 @@
+/**
+ * Collaboration Providers
+ *
+ * Transports for collaborative editing sessions. A provider only moves messages between the peers
+ * of one room; merging lives in the session (see editor/Collaboration.ts):
+ * - BroadcastChannelProvider: tabs of the same browser (no server)
+ * - WebSocketProvider: any relay that forwards each message to the other sockets of the same room
+ *   (`npm run collab-relay` starts a small local one for trying it out)
+ */
+
+export type CollaborationProviderStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollaborationUser {
+  name: string;
+  /** CSS color of the user's cursor and selection */
+  color: string;
+}
+
+interface MessageBase {
+  /** Sender's client id (its Yjs client id) */
+  from: number;
+  /** Only this client handles the message (replies to a sync request) */
+  to?: number;
+}
+
+/** Yjs state vectors and updates are sent base64-encoded, so every transport can carry messages as JSON */
+export type CollaborationMessage = MessageBase & (
+  /** Ask for the changes missing from this state vector; a broadcast request is also answered with one back */
+  | { type: 'sync-request'; stateVector: string }
+  /** Changes the requester was missing */
+  | { type: 'sync-reply'; update: string }
+  /** Local change */
+  | { type: 'update'; update: string }
+  /** User, cursor and leaving (Yjs awareness) */
+  | { type: 'awareness'; update: string }
+);
+
+export interface CollaborationProvider {
+  /** Send a message to every other peer in the room */
+  send(message: CollaborationMessage): void;
+  /** Messages from the other peers; returns an unsubscribe function */
+  onMessage(handler: (message: CollaborationMessage) => void): () => void;
+  /** Connection changes; returns an unsubscribe function */
+  onStatusChange(handler: (status: CollaborationProviderStatus) => void): () => void;
+  getStatus(): CollaborationProviderStatus;
+  destroy(): void;
+}
+
+/** Handler bookkeeping shared by the built-in providers */
+abstract class BaseProvider implements CollaborationProvider {
+  private messageHandlers = new Set<(message: CollaborationMessage) => void>();
+  private statusHandlers = new Set<(status: CollaborationProviderStatus) => void>();
+  protected status: CollaborationProviderStatus = 'connecting';
+
+  abstract send(message: CollaborationMessage): void;
+  abstract destroy(): void;
+
+  onMessage(handler: (message: CollaborationMessage) => void): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  onStatusChange(handler: (status: CollaborationProviderStatus) => void): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  getStatus(): CollaborationProviderStatus {
+    return this.status;
+  }
+
+  protected emitMessage(data: unknown): void {
+    const message = typeof data === 'string' ? safeParse(data) : data;
+    if (!message || typeof message !== 'object' || typeof (message as CollaborationMessage).type !== 'string') return;
+    this.messageHandlers.forEach((handler) => handler(message as CollaborationMessage));
+  }
+
+  protected setStatus(status: CollaborationProviderStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusHandlers.forEach((handler) => handler(status));
+  }
+}
+
+function safeParse(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Same-browser sessions over a BroadcastChannel named after the room
+ */
+export class BroadcastChannelProvider extends BaseProvider {
+  private channel: BroadcastChannel;
+
+  constructor(room: string) {
+    super();
+    this.channel = new BroadcastChannel(`bubble-tiptap:${room}`);
+    this.channel.onmessage = (event) => this.emitMessage(event.data);
+    this.status = 'connected';
+  }
+
+  send(message: CollaborationMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  destroy(): void {
+    this.channel.close();
+    this.setStatus('disconnected');
+  }
+}
+
+/** Wait before reconnecting a dropped socket */
+const RECONNECT_DELAY_MS = 2000;
+/** Messages kept while the socket is not open; older ones are dropped (the session syncs again once connected) */
+const MAX_QUEUED_MESSAGES = 100;
+
+/**
+ * Sessions through a WebSocket relay; the room is passed as ?room=... and messages are JSON text frames.
+ * The last messages sent while connecting are queued; a dropped connection is retried.
+ */
+export class WebSocketProvider extends BaseProvider {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private queue: string[] = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(serverUrl: string, room: string) {
+    super();
+    const url = new URL(serverUrl);
+    url.searchParams.set('room', room);
+    this.url = url.toString();
+    this.connect();
+  }
+
+  private connect(): void {
+    this.setStatus('connecting');
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.setStatus('connected');
+      this.queue.forEach((data) => socket.send(data));
+      this.queue = [];
+    };
+    socket.onmessage = (event) => this.emitMessage(event.data);
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.destroyed) return;
+      this.setStatus('disconnected');
+      this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    };
+  }
+
+  send(message: CollaborationMessage): void {
+    const data = JSON.stringify(message);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else {
+      this.queue.push(data);
+      if (this.queue.length > MAX_QUEUED_MESSAGES) this.queue.shift();
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.queue = [];
+    this.setStatus('disconnected');
+  }
+}
@@ -123,12 +123,19 @@ function unwrapList(raw: unknown): unknown[] | null {
 }
 
 /** Turn a single list value (Bubble list or array) into string[]. */
-function toStringArray(raw: unknown): string[] {
+export function toStringArray(raw: unknown): string[] {
   const arr = unwrapList(raw);
   if (!arr) return [];
   return arr.map((x) => (typeof x === 'string' ? x : String(x ?? '').trim())).filter(Boolean);
 }
 
+/** Like toStringArray but keeps empty entries, so parallel lists stay matched by position. */
+export function toAlignedStringArray(raw: unknown): string[] {
+  const arr = unwrapList(raw);
+  if (!arr) return [];
+  return arr.map((x) => (typeof x === 'string' ? x : String(x ?? '')).trim());
+}
+
 /**
  * Build palette from two list-of-strings fields (e.g. "Color display names" + "Color hex codes").
  * Uses same order: names[i] with hexes[i]. Handles Bubble list API (.get(0, n)).
@@ -0,0 +1,91 @@
+/**
+ * Comment threads
+ *
+ * Commented text carries a comment mark with the thread id:
+ * <span data-comment-id="c-lx2k9a-4f7q" class="editor-comment">commented text</span>
+ * The threads themselves (author, text, replies, resolved flag) are kept next to the document and
+ * published as JSON, so Bubble can store them in its own data types and pass them back in.
+ */
+
+export interface CommentReply {
+  id: string;
+  author: string;
+  text: string;
+  /** ISO date */
+  createdAt: string;
+}
+
+export interface CommentThread extends CommentReply {
+  resolved: boolean;
+  replies: CommentReply[];
+  /** Commented text when the thread was last published ('' once the text is deleted) */
+  quote: string;
+}
+
+const COMMENT_SELECTOR = 'span[data-comment-id]';
+
+/** Unique enough for threads and replies created in one document */
+export function createCommentId(): string {
+  return `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function parseReply(raw: unknown): CommentReply | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string' || !r.id) return null;
+  return {
+    id: r.id,
+    author: typeof r.author === 'string' ? r.author : '',
+    text: typeof r.text === 'string' ? r.text : '',
+    createdAt: typeof r.createdAt === 'string' ? r.createdAt : '',
+  };
+}
+
+/**
+ * Threads from a "Comments (JSON)" value (a JSON string or an array); invalid entries are skipped
+ */
+export function parseCommentThreads(raw: unknown): CommentThread[] {
+  let value = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return [];
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  const threads: CommentThread[] = [];
+  value.forEach((item) => {
+    const base = parseReply(item);
+    if (!base) return;
+    const t = item as Record<string, unknown>;
+    threads.push({
+      ...base,
+      resolved: t.resolved === true,
+      replies: Array.isArray(t.replies) ? t.replies.map(parseReply).filter((r): r is CommentReply => r !== null) : [],
+      quote: typeof t.quote === 'string' ? t.quote : '',
+    });
+  });
+  return threads;
+}
+
+/**
+ * Unwrap the comment marks under container, keeping their text
+ */
+export function removeCommentElements(container: ParentNode): void {
+  container.querySelectorAll(COMMENT_SELECTOR).forEach((el) => {
+    el.replaceWith(...Array.from(el.childNodes));
+  });
+}
+
+/**
+ * Editor HTML without comment marks
+ */
+export function stripComments(html: string): string {
+  if (!html.includes('data-comment-id')) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  removeCommentElements(doc.body);
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { DiffOptions } from './documentDiff';
+import { createTestEditor } from '../test/createTestEditor';
+
+const BEFORE = '<p>Intro</p><p>Old text here</p><p>Gone</p><p>Styled</p>';
+const AFTER = '<p>Intro</p><p>New text here</p><p style="text-align: center">Styled</p><h2>Added</h2>';
+
+function compare(options?: DiffOptions): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = createTestEditor().compareContent(BEFORE, AFTER, options);
+  return container;
+}
+
+/** Kind and text of each diff block in a list of cells (or the inline layout) */
+function blocks(root: Element | undefined): string[] {
+  return Array.from(root?.querySelectorAll('[data-diff]') ?? []).map((el) => `${el.getAttribute('data-diff')}: ${el.textContent}`);
+}
+
+describe('diffDocuments', () => {
+  it('marks added, removed, changed and restyled blocks inline', () => {
+    const diff = compare();
+    expect(blocks(diff)).toEqual([
+      'unchanged: Intro',
+      'changed: OldNew text here',
+      'removed: Gone',
+      'changed: Style changed: text alignStyled',
+      'added: Added',
+    ]);
+    const changed = diff.querySelectorAll('[data-diff="changed"]')[0];
+    expect(changed.querySelector('del')?.textContent).toBe('Old');
+    expect(changed.querySelector('ins')?.textContent).toBe('New');
+    expect(diff.querySelector('[data-diff="added"] h2')).not.toBeNull();
+  });
+
+  it('puts the before and after blocks side by side', () => {
+    const diff = compare({ layout: 'side-by-side', beforeLabel: 'v1', afterLabel: 'v2' });
+    expect(Array.from(diff.querySelectorAll('th')).map((th) => th.textContent)).toEqual(['v1', 'v2']);
+
+    const rows = Array.from(diff.querySelectorAll('tbody tr')).map((row) => Array.from(row.querySelectorAll('td')).map((td) => blocks(td).join('')));
+    expect(rows).toEqual([
+      ['unchanged: Intro', 'unchanged: Intro'],
+      ['changed: Old text here', 'changed: New text here'],
+      ['removed: Gone', ''],
+      ['changed: Styled', 'changed: Style changed: text alignStyled'],
+      ['', 'added: Added'],
+    ]);
+    expect(diff.querySelector('tbody tr:nth-child(2) td:first-child ins')).toBeNull();
+    expect(diff.querySelector('tbody tr:nth-child(2) td:last-child del')).toBeNull();
+  });
+});
+
+describe('Restoring a snapshot', () => {
+  it('is undone in one step', () => {
+    const ed = createTestEditor({ content: '<p>First</p><p>Second</p>' });
+    ed.createSnapshot('v1');
+    ed.getTipTapEditor().commands.insertContentAt(1, 'Edited ');
+    const edited = ed.getHTML();
+
+    expect(ed.restoreSnapshot('v1', { focus: false })).toBe(true);
+    expect(ed.getText()).toBe('First\n\nSecond');
+    ed.getTipTapEditor().commands.insertContentAt(1, 'Restored ');
+
+    ed.undo({ focus: false });
+    expect(ed.getText()).toBe('First\n\nSecond');
+    ed.undo({ focus: false });
+    expect(ed.getHTML()).toBe(edited);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Document Diff
+ *
+ * Compares two editor documents block by block and renders the result as HTML:
+ * - Blocks are the text blocks and leaf blocks (images, dividers); lists, tables, columns and
+ *   div blocks are flattened, and their styles count towards the blocks inside them
+ * - Unchanged blocks are matched first; a removed and an added block of the same type in between
+ *   become one changed block with a word-level diff
+ * - Blocks whose text stayed the same but whose style (BlockStyle, alignment, ...) or text formatting
+ *   changed are outlined with a note naming what changed
+ *
+ * The HTML uses inline styles only, so it renders the same in a Bubble HTML element or an email.
+ */
+
+import { DOMSerializer, Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+export type DiffLayout = 'inline' | 'side-by-side';
+
+export interface DiffOptions {
+  /** One column with insertions and deletions in place, or before / after columns (default inline) */
+  layout?: DiffLayout;
+  /** Column titles for side-by-side (default "Before" / "After") */
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+interface DiffBlock {
+  node: ProseMirrorNode;
+  /** Block type and text; blocks with the same key are matched */
+  key: string;
+  /** Style attributes of the block and its containers, keyed by depth, type and name */
+  styles: Record<string, string>;
+  /** Inline content including marks */
+  inline: string;
+}
+
+type SequenceOp =
+  | { type: 'equal'; a: number; b: number }
+  | { type: 'delete'; a: number }
+  | { type: 'insert'; b: number };
+
+export interface TextSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** Larger sequence pairs skip the LCS table and count as replaced */
+const MAX_LCS_CELLS = 250_000;
+
+/** Attributes that don't describe how a block looks */
+const IGNORED_ATTRS = ['formatSuggestion'];
+
+const STYLES = {
+  block: 'margin:0 0 8px;padding:2px 8px;border-left:3px solid transparent;',
+  added: 'border-left-color:#2da44e;background-color:#e6ffec;',
+  removed: 'border-left-color:#cf222e;background-color:#ffebe9;text-decoration:line-through;',
+  changed: 'border-left-color:#d4a72c;',
+  ins: 'background-color:#abf2bc;text-decoration:none;',
+  del: 'background-color:#ffcecb;text-decoration:line-through;',
+  note: 'margin:0 0 2px;font-size:12px;color:#6e7781;text-decoration:none;',
+  table: 'width:100%;border-collapse:collapse;table-layout:fixed;',
+  cell: 'width:50%;padding:4px;vertical-align:top;',
+  heading: 'padding:4px;text-align:left;font-size:12px;color:#6e7781;',
+};
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** "paddingTop" → "padding top" */
+function humanize(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/** Text of a block, with hard breaks as newlines and mentions / merge fields as their text */
+function blockText(node: ProseMirrorNode): string {
+  return node.textBetween(0, node.content.size, '\n');
+}
+
+function collectBlocks(doc: ProseMirrorNode): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  const walk = (node: ProseMirrorNode, ancestors: ProseMirrorNode[]) => {
+    if (node.isTextblock || (node.isBlock && node.isLeaf)) {
+      const styles: Record<string, string> = {};
+      [...ancestors, node].forEach((n, depth) => {
+        Object.entries(n.attrs).forEach(([name, value]) => {
+          if (IGNORED_ATTRS.includes(name)) return;
+          styles[`${depth}:${n.type.name}:${name}`] = JSON.stringify(value ?? null);
+        });
+      });
+      const text = node.isLeaf ? JSON.stringify(node.attrs) : blockText(node);
+      blocks.push({ node, key: `${node.type.name}|${text}`, styles, inline: JSON.stringify(node.content.toJSON()) });
+      return;
+    }
+    node.forEach((child) => walk(child, node.type.name === 'doc' ? ancestors : [...ancestors, node]));
+  };
+  walk(doc, []);
+  return blocks;
+}
+
+/** Longest common subsequence of two key lists, as a list of operations (common prefix / suffix trimmed first) */
+function diffSequences(a: string[], b: string[]): SequenceOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: SequenceOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', a: i, b: i });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ type: 'delete', a: i });
+    for (let j = start; j < endB; j++) ops.push({ type: 'insert', b: j });
+  } else {
+    // lengths[i][j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = a[start + i] === b[start + j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        ops.push({ type: 'equal', a: start + i++, b: start + j++ });
+      } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        ops.push({ type: 'delete', a: start + i++ });
+      } else {
+        ops.push({ type: 'insert', b: start + j++ });
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) ops.push({ type: 'equal', a: endA + k, b: endB + k });
+  return ops;
+}
+
+/**
+ * Word-level diff of two texts (whitespace runs are tokens too, so spacing changes show)
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = before.match(/\s+|[^\s]+/g) ?? [];
+  const b = after.match(/\s+|[^\s]+/g) ?? [];
+  const segments: TextSegment[] = [];
+  diffSequences(a, b).forEach((op) => {
+    const text = op.type === 'insert' ? b[op.b] : a[op.a];
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: op.type, text });
+    }
+  });
+  return segments;
+}
+
+function segmentsToHTML(segments: TextSegment[], show: TextSegment['type'][]): string {
+  return segments
+    .filter((segment) => show.includes(segment.type))
+    .map((segment) => {
+      const text = escapeHtml(segment.text).replace(/\n/g, '<br>');
+      if (segment.type === 'insert') return `<ins style="${STYLES.ins}">${text}</ins>`;
+      if (segment.type === 'delete') return `<del style="${STYLES.del}">${text}</del>`;
+      return text;
+    })
+    .join('');
+}
+
+function serializeBlock(node: ProseMirrorNode): string {
+  const wrapper = document.createElement('div');
+  wrapper.appendChild(DOMSerializer.fromSchema(node.type.schema).serializeNode(node));
+  return wrapper.innerHTML.replace(/\s+contenteditable="false"/gi, '');
+}
+
+/** The block's own element with a text diff as content; null for blocks without content (e.g. images) */
+function serializeBlockWithText(node: ProseMirrorNode, innerHTML: string): string | null {
+  const toDOM = node.type.spec.toDOM;
+  if (!toDOM) return null;
+  const { dom, contentDOM } = DOMSerializer.renderSpec(document, toDOM(node.type.create(node.attrs)));
+  if (!contentDOM) return null;
+  (contentDOM as HTMLElement).innerHTML = innerHTML;
+  return (dom as HTMLElement).outerHTML;
+}
+
+/** Names of the style attributes that differ, e.g. ["text align", "padding top"] */
+function changedStyles(before: DiffBlock, after: DiffBlock): string[] {
+  const keys = new Set([...Object.keys(before.styles), ...Object.keys(after.styles)]);
+  const names = new Set<string>();
+  keys.forEach((key) => {
+    if (before.styles[key] !== after.styles[key]) names.add(humanize(key.split(':')[2]));
+  });
+  return Array.from(names);
+}
+
+function wrap(kind: 'added' | 'removed' | 'changed' | 'unchanged', html: string, note = ''): string {
+  const style = STYLES.block + (kind === 'unchanged' ? '' : STYLES[kind]);
+  const noteHTML = note ? `<p style="${STYLES.note}">${escapeHtml(note)}</p>` : '';
+  return `<div data-diff="${kind}" style="${style}">${noteHTML}${html}</div>`;
+}
+
+/** One row of the diff: before and after HTML (either may be empty) */
+interface DiffRow {
+  before: string;
+  after: string;
+  /** Single-column rendering */
+  inline: string;
+}
+
+function equalRow(before: DiffBlock, after: DiffBlock): DiffRow {
+  const notes: string[] = [];
+  const styles = changedStyles(before, after);
+  if (styles.length) notes.push(`Style changed: ${styles.join(', ')}`);
+  if (before.inline !== after.inline) notes.push('Text formatting changed');
+  if (!notes.length) {
+    const html = wrap('unchanged', serializeBlock(after.node));
+    return { before: wrap('unchanged', serializeBlock(before.node)), after: html, inline: html };
+  }
+  const note = notes.join('. ');
+  const html = wrap('changed', serializeBlock(after.node), note);
+  return { before: wrap('changed', serializeBlock(before.node)), after: html, inline: html };
+}
+
+function changedRow(before: DiffBlock, after: DiffBlock): DiffRow | null {
+  const segments = diffText(blockText(before.node), blockText(after.node));
+  const inline = serializeBlockWithText(after.node, segmentsToHTML(segments, ['equal', 'insert', 'delete']));
+  const beforeHTML = serializeBlockWithText(before.node, segmentsToHTML(segments, ['equal', 'delete']));
+  const afterHTML = serializeBlockWithText(after.node, segmentsToHTML(segments, ['equal', 'insert']));
+  if (inline === null || beforeHTML === null || afterHTML === null) return null;
+  const styles = changedStyles(before, after);
+  const note = styles.length ? `Style changed: ${styles.join(', ')}` : '';
+  return {
+    before: wrap('changed', beforeHTML),
+    after: wrap('changed', afterHTML, note),
+    inline: wrap('changed', inline, note),
+  };
+}
+
+function addedRow(block: DiffBlock): DiffRow {
+  const html = wrap('added', serializeBlock(block.node));
+  return { before: '', after: html, inline: html };
+}
+
+function removedRow(block: DiffBlock): DiffRow {
+  const html = wrap('removed', serializeBlock(block.node));
+  return { before: html, after: '', inline: html };
+}
+
+/** Removed / added blocks between two matches: same-type pairs become changed blocks */
+function gapRows(removed: DiffBlock[], added: DiffBlock[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  const count = Math.max(removed.length, added.length);
+  for (let i = 0; i < count; i++) {
+    const before = removed[i];
+    const after = added[i];
+    const paired = before && after && before.node.type === after.node.type ? changedRow(before, after) : null;
+    if (paired) {
+      rows.push(paired);
+      continue;
+    }
+    if (before) rows.push(removedRow(before));
+    if (after) rows.push(addedRow(after));
+  }
+  return rows;
+}
+
+/**
+ * Diff of two documents (same schema) as HTML
+ */
+export function diffDocuments(before: ProseMirrorNode, after: ProseMirrorNode, options: DiffOptions = {}): string {
+  const a = collectBlocks(before);
+  const b = collectBlocks(after);
+  const rows: DiffRow[] = [];
+  let removed: DiffBlock[] = [];
+  let added: DiffBlock[] = [];
+
+  diffSequences(a.map((block) => block.key), b.map((block) => block.key)).forEach((op) => {
+    if (op.type === 'delete') {
+      removed.push(a[op.a]);
+      return;
+    }
+    if (op.type === 'insert') {
+      added.push(b[op.b]);
+      return;
+    }
+    rows.push(...gapRows(removed, added));
+    removed = [];
+    added = [];
+    rows.push(equalRow(a[op.a], b[op.b]));
+  });
+  rows.push(...gapRows(removed, added));
+
+  if (options.layout !== 'side-by-side') {
+    return `<div data-diff-layout="inline">${rows.map((row) => row.inline).join('')}</div>`;
+  }
+  const head = `<tr><th style="${STYLES.heading}">${escapeHtml(options.beforeLabel ?? 'Before')}</th><th style="${STYLES.heading}">${escapeHtml(options.afterLabel ?? 'After')}</th></tr>`;
+  const body = rows
+    .map((row) => `<tr><td style="${STYLES.cell}">${row.before}</td><td style="${STYLES.cell}">${row.after}</td></tr>`)
+    .join('');
+  return `<table data-diff-layout="side-by-side" style="${STYLES.table}"><thead>${head}</thead><tbody>${body}</tbody></table>`;
+}
@@ -0,0 +1,220 @@
+/**
+ * Versioned Document Format
+ *
+ * Stored content carries a schema version so older content can be upgraded when it is loaded:
+ * - JSON is published as an envelope: { format, version, doc }
+ * - HTML is published with a leading version comment (<!--bubble-tiptap:v2-->)
+ * - Content without a marker is version 1 (saved before versioning existed)
+ *
+ * When the shape of node attributes changes, bump CURRENT_DOCUMENT_VERSION and register a
+ * migration from the previous version. Migrations run in order on setContent / initial_content.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+
+export const DOCUMENT_FORMAT = 'bubble-tiptap';
+
+/** Version written by this build */
+export const CURRENT_DOCUMENT_VERSION = 2;
+
+/** Version assumed for content without a version marker */
+export const LEGACY_DOCUMENT_VERSION = 1;
+
+export interface DocumentEnvelope {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  doc: JSONContent;
+}
+
+export interface DocumentMigration {
+  /** Version this migration upgrades from (result is from + 1) */
+  from: number;
+  description: string;
+  /** Upgrade a ProseMirror JSON document (return a new or mutated doc) */
+  migrateJSON: (doc: JSONContent) => JSONContent;
+  /** Upgrade parsed HTML in place */
+  migrateHTML: (container: HTMLElement) => void;
+}
+
+export interface PreparedContent {
+  /** Content in the current format, ready for the editor */
+  content: string | JSONContent;
+  /** Version the content was stored with */
+  version: number;
+  /** True when at least one migration ran */
+  migrated: boolean;
+}
+
+const HTML_VERSION_MARKER_REGEX = /^\s*<!--\s*bubble-tiptap:v(\d+)\s*-->/;
+
+/** Radius attributes keep em/rem/% strings; anything else is a px number */
+const RADIUS_ATTRS = ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius'];
+
+/** Widths and paddings are always px numbers */
+const NUMERIC_ATTRS = [
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+];
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const num = parseFloat(value);
+  return isNaN(num) ? value : num;
+}
+
+function toRadius(value: unknown): unknown {
+  if (typeof value !== 'string' || /em|rem|%$/i.test(value.trim())) return value;
+  return toNumber(value);
+}
+
+/** Column widths are percentage strings ("50%"); early content stored bare numbers */
+function toPercent(value: unknown): unknown {
+  if (value === null || value === undefined || value === '') return value;
+  const s = String(value).trim();
+  return /^\d+(\.\d+)?$/.test(s) ? `${s}%` : s;
+}
+
+function walkJSON(node: JSONContent, visit: (node: JSONContent) => void): void {
+  visit(node);
+  node.content?.forEach((child) => walkJSON(child, visit));
+}
+
+const migrations: DocumentMigration[] = [
+  {
+    from: 1,
+    description: 'Normalize block style numbers, column widths and column counts',
+    migrateJSON: (doc) => {
+      walkJSON(doc, (node) => {
+        const attrs = node.attrs;
+        if (!attrs) return;
+        RADIUS_ATTRS.forEach((key) => {
+          if (key in attrs) attrs[key] = toRadius(attrs[key]);
+        });
+        NUMERIC_ATTRS.forEach((key) => {
+          if (key in attrs) attrs[key] = toNumber(attrs[key]);
+        });
+        if (node.type === 'column' && 'width' in attrs) {
+          attrs.width = toPercent(attrs.width);
+        }
+        if (node.type === 'columnLayout') {
+          const count = node.content?.filter((child) => child.type === 'column').length;
+          attrs.columns = count || parseInt(String(attrs.columns ?? 2), 10) || 2;
+        }
+      });
+      return doc;
+    },
+    migrateHTML: (container) => {
+      container.querySelectorAll('[data-type="column"][data-width]').forEach((el) => {
+        el.setAttribute('data-width', String(toPercent(el.getAttribute('data-width'))));
+      });
+      container.querySelectorAll('[data-type="column-layout"]').forEach((el) => {
+        const count = el.querySelectorAll(':scope > [data-type="column"]').length;
+        if (count > 0) el.setAttribute('data-columns', String(count));
+      });
+    },
+  },
+];
+
+/**
+ * Register a migration (for a version bump made outside this module)
+ */
+export function registerDocumentMigration(migration: DocumentMigration): void {
+  const existing = migrations.findIndex((m) => m.from === migration.from);
+  if (existing > -1) {
+    migrations.splice(existing, 1, migration);
+  } else {
+    migrations.push(migration);
+  }
+  migrations.sort((a, b) => a.from - b.from);
+}
+
+export function isDocumentEnvelope(value: unknown): value is DocumentEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Partial<DocumentEnvelope>;
+  return v.format === DOCUMENT_FORMAT && typeof v.version === 'number' && !!v.doc && typeof v.doc === 'object';
+}
+
+/**
+ * Wrap a document in the current envelope (for the Content (JSON) state)
+ */
+export function wrapDocument(doc: JSONContent): DocumentEnvelope {
+  return { format: DOCUMENT_FORMAT, version: CURRENT_DOCUMENT_VERSION, doc };
+}
+
+/**
+ * Prefix HTML with the current version marker (for the Content (HTML) state)
+ */
+export function markHtmlVersion(html: string): string {
+  return `<!--${DOCUMENT_FORMAT}:v${CURRENT_DOCUMENT_VERSION}-->${stripHtmlVersion(html)}`;
+}
+
+export function stripHtmlVersion(html: string): string {
+  return html.replace(HTML_VERSION_MARKER_REGEX, '');
+}
+
+/** True for HTML published by the editor (it starts with the version marker) */
+export function hasHtmlVersion(html: string): boolean {
+  return HTML_VERSION_MARKER_REGEX.test(html);
+}
+
+function pendingMigrations(version: number): DocumentMigration[] {
+  return migrations.filter((m) => m.from >= version && m.from < CURRENT_DOCUMENT_VERSION);
+}
+
+function prepareJSON(doc: JSONContent, version: number): PreparedContent {
+  const steps = pendingMigrations(version);
+  // Migrations may mutate; never touch the caller's object
+  let migrated = steps.length > 0 ? (JSON.parse(JSON.stringify(doc)) as JSONContent) : doc;
+  steps.forEach((m) => {
+    migrated = m.migrateJSON(migrated);
+  });
+  return { content: migrated, version, migrated: steps.length > 0 };
+}
+
+function prepareHTML(html: string, version: number): PreparedContent {
+  const body = stripHtmlVersion(html);
+  const steps = pendingMigrations(version);
+  if (steps.length === 0 || !body.trim()) {
+    return { content: body, version, migrated: false };
+  }
+  const container = new DOMParser().parseFromString(body, 'text/html').body;
+  steps.forEach((m) => m.migrateHTML(container));
+  return { content: container.innerHTML, version, migrated: true };
+}
+
+/** Parse a JSON string (envelope or bare doc); null when the string isn't editor JSON */
+function parseJSONString(value: string): DocumentEnvelope | JSONContent | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (isDocumentEnvelope(parsed)) return parsed;
+    if (parsed && typeof parsed === 'object' && (parsed as JSONContent).type === 'doc') return parsed as JSONContent;
+  } catch {
+    // Not JSON: treat as HTML
+  }
+  return null;
+}
+
+/**
+ * Detect the stored version of content (HTML, JSON doc, envelope or a JSON string of either)
+ * and run the migrations needed to bring it to the current version
+ */
+export function prepareContentForLoad(content: string | JSONContent | DocumentEnvelope): PreparedContent {
+  const value = typeof content === 'string' ? parseJSONString(content) ?? content : content;
+
+  let prepared: PreparedContent;
+  if (typeof value === 'string') {
+    const marker = HTML_VERSION_MARKER_REGEX.exec(value);
+    prepared = prepareHTML(value, marker ? parseInt(marker[1], 10) : LEGACY_DOCUMENT_VERSION);
+  } else if (isDocumentEnvelope(value)) {
+    prepared = prepareJSON(value.doc, value.version);
+  } else {
+    prepared = prepareJSON(value, LEGACY_DOCUMENT_VERSION);
+  }
+
+  if (prepared.version > CURRENT_DOCUMENT_VERSION) {
+    console.warn(`[TipTap] Content was saved with document version ${prepared.version}; this build supports up to ${CURRENT_DOCUMENT_VERSION}`);
+  }
+  return prepared;
+}
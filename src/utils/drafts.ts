@@ -0,0 +1,66 @@
+/**
+ * Local drafts
+ *
+ * Unsaved editor content is kept in localStorage under a key chosen by the app (e.g. the Thing's
+ * unique id), so it can be recovered after a crash or an accidental navigation. Storage errors
+ * (private mode, quota) are logged and otherwise ignored: drafts are a safety net, not the save.
+ */
+
+import { DOCUMENT_FORMAT } from './documentFormat';
+
+export interface DraftRecord {
+  /** Editor HTML */
+  html: string;
+  /** ISO date of the last save */
+  savedAt: string;
+  /** hashContent of the saved content the draft was edited from (empty for older drafts) */
+  baseHash: string;
+}
+
+function storageKey(key: string): string {
+  return `${DOCUMENT_FORMAT}:draft:${key}`;
+}
+
+export function loadDraft(key: string): DraftRecord | null {
+  try {
+    const raw = localStorage.getItem(storageKey(key));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<DraftRecord>;
+    if (typeof parsed.html !== 'string') return null;
+    return {
+      html: parsed.html,
+      savedAt: typeof parsed.savedAt === 'string' ? parsed.savedAt : '',
+      baseHash: typeof parsed.baseHash === 'string' ? parsed.baseHash : '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Draft of html, edited from the saved content baseHtml */
+export function saveDraft(key: string, html: string, baseHtml: string): void {
+  const record: DraftRecord = { html, savedAt: new Date().toISOString(), baseHash: hashContent(baseHtml) };
+  try {
+    localStorage.setItem(storageKey(key), JSON.stringify(record));
+  } catch (err) {
+    console.warn('[TipTap] Could not save the local draft:', err);
+  }
+}
+
+export function clearDraft(key: string): void {
+  try {
+    localStorage.removeItem(storageKey(key));
+  } catch {
+    // Nothing stored when storage is unavailable
+  }
+}
+
+/** Short fingerprint of some content (FNV-1a), to tell whether a draft was made from it */
+export function hashContent(html: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < html.length; i++) {
+    hash ^= html.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { convertToEmailHTML } from './emailExport';
+
+function exportBody(html: string): HTMLElement {
+  const result = convertToEmailHTML(html, { fullDocument: false });
+  const container = document.createElement('div');
+  container.innerHTML = result;
+  return container;
+}
+
+describe('convertToEmailHTML', () => {
+  it.each([
+    ['h4', '18px'],
+    ['h5', '16px'],
+    ['h6', '14px'],
+  ])('styles %s headings', (tag, size) => {
+    const heading = exportBody(`<${tag} style="text-align: center">Title</${tag}>`).querySelector(tag) as HTMLElement;
+    expect(heading.style.fontSize).toBe(size);
+    expect(heading.style.fontWeight).toBe('bold');
+    expect(heading.style.fontFamily).not.toBe('');
+    expect(heading.style.margin).not.toBe('');
+    expect(heading.style.textAlign).toBe('center');
+  });
+
+  it('keeps block styles on h4 headings', () => {
+    const body = exportBody('<h4 style="background-color: #eeeeee; padding: 8px">Boxed</h4>');
+    const cell = body.querySelector('h4')?.closest('td');
+    expect(cell?.getAttribute('bgcolor')).toBe('#eeeeee');
+  });
+
+  it('sanitizes the header and footer HTML but keeps the link placeholders', () => {
+    const html = convertToEmailHTML('<p>Body</p>', {
+      headerHTML: '<img src="https://x.com/logo.png" alt="Logo" onerror="alert(1)"><script>alert(2)</script>',
+      footerHTML: '<a href="{{unsubscribe_url}}">Manage preferences</a> <a href="javascript:alert(3)">Bad</a>',
+      unsubscribeUrl: '*|UNSUB|*',
+    });
+    expect(html).toContain('logo.png');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('alert(');
+    expect(html).toContain('href="*|UNSUB|*"');
+    expect(html).not.toContain('>Unsubscribe<');
+  });
+
+  it('escapes a placeholder URL filled into the header or footer text', () => {
+    const html = convertToEmailHTML('<p>Body</p>', {
+      footerHTML: '<p>Unsubscribe at {{unsubscribe_url}}</p><a href="{{unsubscribe_url}}">Manage preferences</a>',
+      unsubscribeUrl: '<%asm_group_unsubscribe_raw_url%><img src=x onerror=alert(1)>',
+    });
+    expect(html).toContain('Unsubscribe at &lt;%asm_group_unsubscribe_raw_url%&gt;&lt;img src=x onerror=alert(1)&gt;</p>');
+    expect(html).toContain('href="<%asm_group_unsubscribe_raw_url%><img src=x onerror=alert(1)>"');
+  });
+
+  it('gives an unsized image the content width for Outlook', () => {
+    const img = exportBody('<img src="https://x.com/a.png" alt="A">').querySelector('img') as HTMLImageElement;
+    expect(img.getAttribute('width')).toBe('560');
+    expect(img.style.width).toBe('auto');
+  });
+
+  it('fits images to the column they sit in', () => {
+    const column = (img: string) => `<div data-type="column" data-width="50%"><div class="column-content">${img}</div></div>`;
+    const body = exportBody(`<div data-type="column-layout">${column('<img src="https://x.com/a.png" alt="A" width="800" height="400">')}${column('<img src="https://x.com/b.png" alt="B">')}</div>`);
+    const [wide, unsized] = Array.from(body.querySelectorAll('img'));
+    expect(wide.getAttribute('width')).toBe('270');
+    expect(wide.getAttribute('height')).toBe('135');
+    expect(unsized.getAttribute('width')).toBe('270');
+  });
+
+  it('uses the default labels for options set to undefined', () => {
+    const html = convertToEmailHTML('<p>Body</p>', { unsubscribeUrl: 'https://x.com/u', unsubscribeLabel: undefined });
+    expect(html).toContain('>Unsubscribe</a>');
+  });
+});
@@ -10,6 +10,14 @@
  * and MSO conditionals for responsive columns
  */
 
+import { replaceMergeFieldElements, MergeData } from './mergeFields';
+import { removeCommentElements } from './comments';
+import { applySuggestionElements } from './suggestions';
+import { highlightCodeToInlineHTML, getCodeLanguage } from './codeHighlight';
+import { normalizeColorToHex } from './colorOptions';
+import { hasHtmlVersion, stripHtmlVersion } from './documentFormat';
+import { sanitizeHtml, SanitizeOptions } from './sanitizeHtml';
+
 export interface EmailExportOptions {
   /** Maximum content width in pixels */
   maxWidth?: number;
@@ -27,8 +35,43 @@ export interface EmailExportOptions {
   textColor?: string;
   /** Include full HTML document wrapper */
   fullDocument?: boolean;
+  /** Values for merge fields (missing / empty values use the field's fallback); without it fields are exported as {{name}} tags */
+  mergeData?: MergeData | null;
+  /** Colors for recipients whose client is in dark mode (full documents only); null = the email is light only */
+  darkMode?: EmailDarkModeColors | null;
+  /** Document <title> (full documents only, like the frame options below) */
+  title?: string;
+  /** Preview line shown after the subject in the inbox, hidden in the email itself */
+  preheader?: string;
+  /**
+   * HTML above / below the content, sanitized with sanitizeOptions. Editor content (HTML published by
+   * the editor, starting with its version comment) is converted like the content; other HTML is
+   * inserted as is. {{unsubscribe_url}} and {{view_in_browser_url}} are replaced with the URLs below.
+   */
+  headerHTML?: string;
+  footerHTML?: string;
+  /** Unsubscribe link target, usually the email service's placeholder (e.g. *|UNSUB|*); added under the footer unless the footer uses {{unsubscribe_url}} */
+  unsubscribeUrl?: string;
+  unsubscribeLabel?: string;
+  /** "View in browser" link target (e.g. *|ARCHIVE|*); added above the header unless the header uses {{view_in_browser_url}} */
+  viewInBrowserUrl?: string;
+  viewInBrowserLabel?: string;
+  /** Sanitizer policy for the header and footer HTML (default strict), e.g. the one content is published with */
+  sanitizeOptions?: SanitizeOptions;
+}
+
+/** Replace the background, text and link colors in dark mode; styled blocks keep their own colors */
+export interface EmailDarkModeColors {
+  backgroundColor: string;
+  textColor: string;
+  accentColor: string;
 }
 
+/** Padding around the content inside the email container (each side) */
+export const BODY_PADDING = 20;
+/** Space between two columns of a column layout (px) */
+export const COLUMN_GUTTER = 20;
+
 const defaultOptions: Required<EmailExportOptions> = {
   maxWidth: 600,
   fontFamily: "Arial, Helvetica, sans-serif",
@@ -38,21 +81,54 @@ const defaultOptions: Required<EmailExportOptions> = {
   backgroundColor: '#ffffff',
   textColor: '#333333',
   fullDocument: true,
+  mergeData: null,
+  darkMode: null,
+  title: '',
+  preheader: '',
+  headerHTML: '',
+  footerHTML: '',
+  unsubscribeUrl: '',
+  unsubscribeLabel: 'Unsubscribe',
+  viewInBrowserUrl: '',
+  viewInBrowserLabel: 'View in browser',
+  sanitizeOptions: {},
 };
 
+/** Options with the defaults filled in (also for options set to undefined) */
+export function resolveEmailOptions(options: EmailExportOptions = {}): Required<EmailExportOptions> {
+  const set = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  return { ...defaultOptions, ...set };
+}
+
 /**
  * Convert TipTap HTML to email-safe HTML
  */
 export function convertToEmailHTML(html: string, options: EmailExportOptions = {}): string {
-  const opts = { ...defaultOptions, ...options };
+  const opts = resolveEmailOptions(options);
+  const innerHTML = transformToEmailHTML(html, opts);
   
+  if (opts.fullDocument) {
+    return wrapInEmailDocument(innerHTML, opts);
+  }
+  
+  return innerHTML;
+}
+
+/**
+ * Editor HTML rebuilt with email-safe tables and inline styles (the content, or an editor-authored header / footer)
+ */
+function transformToEmailHTML(html: string, opts: Required<EmailExportOptions>): string {
   // Create a temporary DOM to parse and transform
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
   const body = doc.body;
   
-  // Transform elements
-  transformColumnLayouts(body, opts);
+  // Transform elements (review comments are dropped and pending suggestions shown as accepted; merge fields first so their values get the surrounding text's styles)
+  removeCommentElements(body);
+  applySuggestionElements(body);
+  replaceMergeFieldElements(body, opts.mergeData);
+  // Tables first: the cells' alignment is read from their paragraphs before those are restyled
+  transformTables(body, opts);
   transformDivBlocks(body, opts);
   transformHeadings(body, opts);
   transformParagraphs(body, opts);
@@ -60,39 +136,47 @@ export function convertToEmailHTML(html: string, options: EmailExportOptions = {
   transformBlockquotes(body, opts);
   transformCodeBlocks(body, opts);
   transformLinks(body, opts);
+  transformMentions(body, opts);
+  removeUploadPlaceholders(body);
   transformImages(body, opts);
-  transformTables(body, opts);
   transformHorizontalRules(body, opts);
+  // Columns last: their content is copied into both the Outlook table and the flex fallback,
+  // and the Outlook copy sits in a conditional comment that later transforms wouldn't reach
+  transformColumnLayouts(body, opts);
+  transformColumnGrids(body, opts);
+  if (opts.darkMode && opts.fullDocument) markDarkModeElements(body, opts);
   
-  const innerHTML = body.innerHTML;
-  
-  if (opts.fullDocument) {
-    return wrapInEmailDocument(innerHTML, opts);
-  }
-  
-  return innerHTML;
+  return body.innerHTML;
 }
 
 /**
- * Transform column layouts to table-based responsive layout
+ * Transform column layouts to table-based responsive layout, with the column widths set by
+ * dragging the column edges (data-width percentages) and the layout's and columns' block styles
  */
 function transformColumnLayouts(container: HTMLElement, opts: Required<EmailExportOptions>): void {
   const columnLayouts = container.querySelectorAll('[data-type="column-layout"]');
-  
-  columnLayouts.forEach(layout => {
-    const columns = layout.querySelectorAll(':scope > [data-type="column"]');
+  // The flex row is 20px wider than the content (margin: 0 -10px) to make room for the gutters
+  const rowWidth = opts.maxWidth - BODY_PADDING * 2 + 20;
+
+  columnLayouts.forEach(layoutEl => {
+    const layout = layoutEl as HTMLElement;
+    const columns = Array.from(layout.querySelectorAll(':scope > [data-type="column"]')) as HTMLElement[];
     const columnCount = columns.length;
-    const columnWidth = Math.floor(100 / columnCount);
-    const columnWidthPx = Math.floor(opts.maxWidth / columnCount) - 10;
-    
+    const widths = getColumnWidths(columns.map(col => col.getAttribute('data-width')));
+    const contents = columns.map(col => {
+      col.querySelectorAll('.column-resize-handle').forEach(handle => handle.remove());
+      const content = col.querySelector(':scope > .column-content') ?? col;
+      return wrapInStyledCellHTML(content.innerHTML, getBoxStyles(col, opts.textColor));
+    });
+
     // Create MSO table for Outlook
     const tableHTML = `
 <!--[if mso]>
 <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
 <tr>
-${Array.from(columns).map((col, i) => `
-<td width="${columnWidth}%" valign="top" style="padding: 0 ${i < columnCount - 1 ? '10' : '0'}px 0 ${i > 0 ? '10' : '0'}px;">
-${col.innerHTML}
+${contents.map((content, i) => `
+<td width="${Math.round(widths[i])}%" valign="top" style="padding: 0 ${i < columnCount - 1 ? '10' : '0'}px 0 ${i > 0 ? '10' : '0'}px;">
+${content}
 </td>
 `).join('')}
 </tr>
@@ -100,48 +184,70 @@ ${col.innerHTML}
 <![endif]-->
 <!--[if !mso]><!-->
 <div style="display: flex; flex-wrap: wrap; margin: 0 -10px;">
-${Array.from(columns).map(col => `
-<div class="email-column" style="flex: 1 1 ${columnWidthPx}px; min-width: 200px; padding: 0 10px; box-sizing: border-box;">
-${col.innerHTML}
+${contents.map((content, i) => {
+  const basis = Math.floor((rowWidth * widths[i]) / 100);
+  return `
+<div class="email-column" style="flex: ${widths[i].toFixed(2)} 1 ${basis}px; min-width: ${Math.min(200, basis)}px; padding: 0 10px; box-sizing: border-box;">
+${content}
 </div>
-`).join('')}
+`;
+}).join('')}
 </div>
 <!--<![endif]-->
 `;
-    
+
     const wrapper = document.createElement('div');
-    wrapper.innerHTML = tableHTML;
+    wrapper.innerHTML = wrapInStyledCellHTML(tableHTML, getBoxStyles(layout, opts.textColor));
     layout.replaceWith(wrapper);
   });
 }
 
+/** Column widths in percent: the stored ones ("40%"), the rest shared by columns without one, scaled to 100 */
+export function getColumnWidths(storedWidths: (string | null | undefined)[]): number[] {
+  const stored = storedWidths.map(width => parseFloat(width ?? '') || 0);
+  const missing = stored.filter(width => width <= 0).length;
+  const rest = 100 - stored.reduce((sum, width) => sum + width, 0);
+  if (missing > 0 && rest <= 0) return stored.map(() => 100 / stored.length);
+  const widths = stored.map(width => (width > 0 ? width : rest / missing));
+  const total = widths.reduce((sum, width) => sum + width, 0) || 1;
+  return widths.map(width => (width * 100) / total);
+}
+
 /**
- * Transform div blocks to simple table containers
+ * Column grids: the shared background / border / padding as a table cell around their layouts
  */
-function transformDivBlocks(container: HTMLElement, _opts: Required<EmailExportOptions>): void {
+function transformColumnGrids(container: HTMLElement, opts: Required<EmailExportOptions>): void {
+  container.querySelectorAll('[data-type="column-grid"]').forEach(gridEl => {
+    const grid = gridEl as HTMLElement;
+    const box = getBoxStyles(grid, opts.textColor);
+    if (box.styles.length === 0) {
+      grid.replaceWith(...Array.from(grid.childNodes));
+      return;
+    }
+    const td = wrapInStyledTable(grid, box, '16px 0');
+    td.append(...Array.from(grid.childNodes));
+    grid.remove();
+  });
+}
+
+/**
+ * Transform div blocks to table containers: background (also as bgcolor), borders, radius and
+ * padding from the block's style, 16px padding when none was set
+ */
+function transformDivBlocks(container: HTMLElement, opts: Required<EmailExportOptions>): void {
   const divBlocks = container.querySelectorAll('[data-type="div-block"]');
   
-  divBlocks.forEach(div => {
-    const table = document.createElement('table');
-    table.setAttribute('role', 'presentation');
-    table.setAttribute('width', '100%');
-    table.setAttribute('cellpadding', '0');
-    table.setAttribute('cellspacing', '0');
-    table.setAttribute('border', '0');
-    table.style.cssText = `
-      margin: 16px 0;
-      border: 1px solid #e5e7eb;
-      border-radius: 8px;
-    `.replace(/\s+/g, ' ').trim();
-    
-    const tr = document.createElement('tr');
-    const td = document.createElement('td');
-    td.style.cssText = 'padding: 16px;';
-    td.innerHTML = div.innerHTML;
-    
-    tr.appendChild(td);
-    table.appendChild(tr);
-    div.replaceWith(table);
+  divBlocks.forEach(divEl => {
+    const div = divEl as HTMLElement;
+    const box = getBoxStyles(div, opts.textColor);
+    const align = div.style.textAlign;
+    const td = wrapInStyledTable(div, { ...box, styles: ['padding: 16px', ...box.styles] }, '16px 0');
+    if (align && align !== 'left') {
+      td.setAttribute('align', align);
+      td.style.textAlign = align;
+    }
+    td.append(...Array.from(div.childNodes));
+    div.remove();
   });
 }
 
@@ -153,11 +259,14 @@ function transformHeadings(container: HTMLElement, opts: Required<EmailExportOpt
     h1: `font-size: 32px; font-weight: bold; margin: 24px 0 16px 0; line-height: 1.3; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
     h2: `font-size: 24px; font-weight: bold; margin: 20px 0 12px 0; line-height: 1.3; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
     h3: `font-size: 20px; font-weight: bold; margin: 16px 0 8px 0; line-height: 1.3; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
+    h4: `font-size: 18px; font-weight: bold; margin: 16px 0 8px 0; line-height: 1.4; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
+    h5: `font-size: 16px; font-weight: bold; margin: 12px 0 8px 0; line-height: 1.4; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
+    h6: `font-size: 14px; font-weight: bold; margin: 12px 0 8px 0; line-height: 1.4; color: ${opts.textColor}; font-family: ${opts.fontFamily};`,
   };
   
-  ['h1', 'h2', 'h3'].forEach(tag => {
+  Object.keys(headingStyles).forEach(tag => {
     container.querySelectorAll(tag).forEach(el => {
-      (el as HTMLElement).style.cssText = headingStyles[tag];
+      restyleBlock(el as HTMLElement, headingStyles[tag], opts);
     });
   });
 }
@@ -167,13 +276,13 @@ function transformHeadings(container: HTMLElement, opts: Required<EmailExportOpt
  */
 function transformParagraphs(container: HTMLElement, opts: Required<EmailExportOptions>): void {
   container.querySelectorAll('p').forEach(p => {
-    p.style.cssText = `
+    restyleBlock(p, `
       margin: 0 0 16px 0;
       font-size: ${opts.fontSize};
       line-height: ${opts.lineHeight};
       color: ${opts.textColor};
       font-family: ${opts.fontFamily};
-    `.replace(/\s+/g, ' ').trim();
+    `.replace(/\s+/g, ' ').trim(), opts);
   });
   
   // Handle strong/bold
@@ -205,6 +314,22 @@ function transformParagraphs(container: HTMLElement, opts: Required<EmailExportO
   });
 }
 
+/**
+ * Replace a paragraph's / heading's styles with the email ones, keeping its alignment; a block
+ * with a background, border or padding gets a table cell for those (and its margin moves to the table)
+ */
+function restyleBlock(el: HTMLElement, style: string, opts: Required<EmailExportOptions>): void {
+  const box = getBoxStyles(el, opts.textColor);
+  const align = el.style.textAlign;
+  el.style.cssText = style;
+  if (align && align !== 'left') el.style.textAlign = align;
+  if (box.styles.length === 0) return;
+  const margin = el.style.margin;
+  el.style.margin = '0';
+  const td = wrapInStyledTable(el, box, margin);
+  td.appendChild(el);
+}
+
 /**
  * Transform lists to table-based lists for Outlook
  */
@@ -311,12 +436,14 @@ function transformBlockquotes(container: HTMLElement, opts: Required<EmailExport
 }
 
 /**
- * Transform code blocks
+ * Transform code blocks (highlight token colors inlined, optional line number column)
  */
 function transformCodeBlocks(container: HTMLElement, _opts: Required<EmailExportOptions>): void {
   container.querySelectorAll('pre').forEach(pre => {
     const code = pre.querySelector('code');
     const content = code?.textContent || pre.textContent || '';
+    const highlighted = highlightCodeToInlineHTML(content, getCodeLanguage(code));
+    const preStyle = "margin: 0; font-family: Consolas, Monaco, 'Courier New', monospace; font-size: 14px; line-height: 1.5; color: #d4d4d4;";
     
     const table = document.createElement('table');
     table.setAttribute('role', 'presentation');
@@ -325,10 +452,24 @@ function transformCodeBlocks(container: HTMLElement, _opts: Required<EmailExport
     table.setAttribute('cellspacing', '0');
     table.setAttribute('border', '0');
     
+    // Line numbers sit in their own cell so they line up without wrapping (long lines don't wrap either)
+    const codeCell = pre.hasAttribute('data-line-numbers')
+      ? `<table role="presentation" cellpadding="0" cellspacing="0" border="0">
+            <tr>
+              <td valign="top" style="padding: 0 12px 0 0; border-right: 1px solid #3f3f46;">
+                <pre style="${preStyle} color: #6b7280; text-align: right;">${content.split('\n').map((_, i) => i + 1).join('\n')}</pre>
+              </td>
+              <td valign="top" style="padding: 0 0 0 12px;">
+                <pre style="${preStyle} white-space: pre;">${highlighted}</pre>
+              </td>
+            </tr>
+          </table>`
+      : `<pre style="${preStyle} white-space: pre-wrap; word-wrap: break-word;">${highlighted}</pre>`;
+    
     table.innerHTML = `
       <tr>
         <td style="background-color: #1e1e1e; border-radius: 8px; padding: 16px; margin: 16px 0;">
-          <pre style="margin: 0; font-family: Consolas, Monaco, 'Courier New', monospace; font-size: 14px; line-height: 1.5; color: #d4d4d4; white-space: pre-wrap; word-wrap: break-word;">${escapeHtml(content)}</pre>
+          ${codeCell}
         </td>
       </tr>
     `;
@@ -348,20 +489,126 @@ function transformLinks(container: HTMLElement, opts: Required<EmailExportOption
 }
 
 /**
- * Transform images
+ * Transform mentions: plain styled "@Name" text (editor chip classes and data attributes dropped)
  */
-function transformImages(container: HTMLElement, _opts: Required<EmailExportOptions>): void {
+function transformMentions(container: HTMLElement, opts: Required<EmailExportOptions>): void {
+  container.querySelectorAll('span[data-type="mention"]').forEach(el => {
+    const span = document.createElement('span');
+    span.style.cssText = `color: ${opts.accentColor}; font-weight: bold;`;
+    span.textContent = el.textContent;
+    el.replaceWith(span);
+  });
+}
+
+/**
+ * Remove placeholders of images that are still uploading (they have no URL yet)
+ */
+function removeUploadPlaceholders(container: HTMLElement): void {
+  container.querySelectorAll('[data-type="image-upload"]').forEach(el => el.remove());
+}
+
+/**
+ * Transform images: explicit width / height attributes (Outlook ignores CSS sizes and shows images
+ * at their natural size), alignment through a presentation table (align on the cell, or on the
+ * table itself for floats, both of which Outlook honors), the link around the image and the caption
+ */
+/** Width (px) an element gets in the email: the content width, or its share of the columns it sits in */
+function getAvailableWidth(el: Element, contentWidth: number): number {
+  const column = el.parentElement?.closest('[data-type="column"]');
+  if (!column) return contentWidth;
+  const outer = getAvailableWidth(column, contentWidth);
+  const columns = column.parentElement
+    ? Array.from(column.parentElement.querySelectorAll(':scope > [data-type="column"]'))
+    : [column];
+  const widths = getColumnWidths(columns.map(col => col.getAttribute('data-width')));
+  const usable = outer - COLUMN_GUTTER * (columns.length - 1);
+  return Math.max(1, Math.floor((usable * widths[columns.indexOf(column)]) / 100));
+}
+
+function transformImages(container: HTMLElement, opts: Required<EmailExportOptions>): void {
+  const contentWidth = opts.maxWidth - BODY_PADDING * 2;
+
   container.querySelectorAll('img').forEach(imgEl => {
     const img = imgEl as HTMLImageElement;
+    const figure = img.closest('figure');
+    const parent = img.parentElement;
+    const link = parent?.tagName === 'A' && !parent.textContent?.trim() ? parent as HTMLAnchorElement : null;
+    const captionText = figure?.querySelector('figcaption')?.textContent?.trim() ?? '';
+    const align = figure?.getAttribute('data-align') || 'left';
+    const isFloat = align === 'float-left' || align === 'float-right';
+
+    const available = getAvailableWidth(img, contentWidth);
+    let width = parseInt(img.getAttribute('width') ?? '', 10) || 0;
+    let height = parseInt(img.getAttribute('height') ?? '', 10) || 0;
+    if (width > available) {
+      height = height ? Math.round((height * available) / width) : 0;
+      width = available;
+    }
+
+    img.removeAttribute('class');
+    img.setAttribute('border', '0');
+    if (!img.hasAttribute('alt')) img.setAttribute('alt', '');
+    // Outlook only sizes images by the width attribute: a never-resized one gets the space it sits in,
+    // other clients show it at its natural size (width: auto), up to that space
+    img.setAttribute('width', String(width || available));
+    if (height) img.setAttribute('height', String(height));
+    else img.removeAttribute('height');
+    const margin = align === 'center' ? 'margin: 0 auto;' : align === 'right' ? 'margin: 0 0 0 auto;' : 'margin: 0;';
     img.style.cssText = `
+      display: block;
+      width: ${width ? `${width}px` : 'auto'};
       max-width: 100%;
       height: auto;
-      display: block;
-      margin: 16px 0;
+      ${margin}
+      border: 0;
       border-radius: 8px;
+      outline: none;
+      text-decoration: none;
     `.replace(/\s+/g, ' ').trim();
-    
-    img.setAttribute('border', '0');
+
+    // Links were styled as text links; around an image they only need to drop the underline
+    if (link) link.style.cssText = 'text-decoration: none;';
+    const media = link ?? img;
+    const block = figure ?? media;
+
+    const table = document.createElement('table');
+    // Replaced before the image moves into the table (the image may be the block itself)
+    block.replaceWith(table);
+    table.setAttribute('role', 'presentation');
+    table.setAttribute('cellpadding', '0');
+    table.setAttribute('cellspacing', '0');
+    table.setAttribute('border', '0');
+    const cellAlign = isFloat ? 'left' : align;
+    if (isFloat) {
+      const side = align === 'float-left' ? 'left' : 'right';
+      table.setAttribute('align', side);
+      table.setAttribute('width', String(width || available));
+      table.style.cssText = side === 'left' ? 'float: left; margin: 0 16px 16px 0;' : 'float: right; margin: 0 0 16px 16px;';
+    } else {
+      table.setAttribute('width', '100%');
+      table.style.cssText = 'margin: 16px 0;';
+    }
+
+    const tr = document.createElement('tr');
+    const td = document.createElement('td');
+    td.setAttribute('align', cellAlign);
+    td.style.cssText = `text-align: ${cellAlign};`;
+    td.appendChild(media);
+    if (captionText) {
+      const caption = document.createElement('div');
+      caption.style.cssText = `
+        padding-top: 8px;
+        font-size: 14px;
+        line-height: 1.4;
+        color: #6b7280;
+        font-family: ${opts.fontFamily};
+        text-align: ${cellAlign};
+      `.replace(/\s+/g, ' ').trim();
+      caption.textContent = captionText;
+      td.appendChild(caption);
+    }
+    tr.appendChild(td);
+    table.appendChild(tr);
   });
 }
 
@@ -369,7 +616,7 @@ function transformImages(container: HTMLElement, _opts: Required<EmailExportOpti
  * Transform tables
  */
 function transformTables(container: HTMLElement, opts: Required<EmailExportOptions>): void {
-  container.querySelectorAll('table:not([role="presentation"])').forEach(tableEl => {
+  container.querySelectorAll('table').forEach(tableEl => {
     const table = tableEl as HTMLTableElement;
     table.setAttribute('width', '100%');
     table.setAttribute('cellpadding', '0');
@@ -381,34 +628,132 @@ function transformTables(container: HTMLElement, opts: Required<EmailExportOptio
       margin: 16px 0;
       border: 1px solid #e5e7eb;
     `.replace(/\s+/g, ' ').trim();
-    
-    table.querySelectorAll('th').forEach(thEl => {
-      const th = thEl as HTMLTableCellElement;
-      th.style.cssText = `
-        padding: 12px;
-        text-align: left;
-        font-weight: bold;
-        background-color: #f9fafb;
-        border: 1px solid #e5e7eb;
-        font-family: ${opts.fontFamily};
-        font-size: ${opts.fontSize};
-        color: ${opts.textColor};
-      `.replace(/\s+/g, ' ').trim();
-    });
-    
-    table.querySelectorAll('td').forEach(tdEl => {
-      const td = tdEl as HTMLTableCellElement;
-      td.style.cssText = `
+    // Cell widths carry over as width attributes, which Outlook reads (it ignores <col>)
+    table.querySelectorAll('colgroup').forEach(colgroup => colgroup.remove());
+
+    table.querySelectorAll('th, td').forEach(cellEl => {
+      const cell = cellEl as HTMLTableCellElement;
+      const isHeader = cell.tagName === 'TH';
+      const box = getBoxStyles(cell, '#e5e7eb', false);
+      const align = getCellAlign(cell);
+      const width = getCellWidth(cell);
+
+      const baseStyle = `
         padding: 12px;
+        text-align: ${align};
+        vertical-align: top;
+        ${isHeader ? 'font-weight: bold; background-color: #f9fafb;' : ''}
         border: 1px solid #e5e7eb;
         font-family: ${opts.fontFamily};
         font-size: ${opts.fontSize};
         color: ${opts.textColor};
+        ${width ? `width: ${width}px;` : ''}
       `.replace(/\s+/g, ' ').trim();
+      cell.style.cssText = box.styles.length ? `${baseStyle} ${box.styles.join('; ')};` : baseStyle;
+      if (box.bgcolor) cell.setAttribute('bgcolor', box.bgcolor);
+      cell.setAttribute('valign', 'top');
+      if (align !== 'left') cell.setAttribute('align', align);
+      if (width) cell.setAttribute('width', String(width));
+      cell.removeAttribute('colwidth');
+      // Spans of 1 are the default; larger ones are kept as they are
+      ['colspan', 'rowspan'].forEach(name => {
+        if (cell.getAttribute(name) === '1') cell.removeAttribute(name);
+      });
     });
   });
 }
 
+interface BoxStyles {
+  /** Declarations for the table cell that carries the block's look */
+  styles: string[];
+  /** The background as a hex bgcolor attribute (Outlook ignores background-color on some elements) */
+  bgcolor: string | null;
+}
+
+const BOX_SIDES = ['top', 'right', 'bottom', 'left'];
+const BOX_CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+/**
+ * Background, borders, radius and padding a block was styled with (BlockStyle), as declarations a
+ * table cell takes: one border shorthand per side (a side set to 0 removes any default border),
+ * the radius only when it isn't 0 (Outlook ignores it either way)
+ */
+function getBoxStyles(el: HTMLElement, defaultBorderColor: string, includeRadius = true): BoxStyles {
+  const styles: string[] = [];
+  let bgcolor: string | null = null;
+
+  const background = el.style.backgroundColor;
+  if (background && background !== 'transparent') {
+    styles.push(`background-color: ${background}`);
+    const hex = normalizeColorToHex(background);
+    if (hex.startsWith('#')) bgcolor = hex;
+  }
+
+  BOX_SIDES.forEach(side => {
+    const width = el.style.getPropertyValue(`border-${side}-width`);
+    if (!width) return;
+    const px = parseFloat(width) || 0;
+    const color = el.style.getPropertyValue(`border-${side}-color`);
+    const usableColor = color && color !== 'currentcolor' ? color : defaultBorderColor;
+    styles.push(px > 0 ? `border-${side}: ${px}px solid ${usableColor}` : `border-${side}: none`);
+  });
+
+  if (includeRadius) {
+    const radii = BOX_CORNERS.map(corner => el.style.getPropertyValue(`border-${corner}-radius`) || '0');
+    if (radii.some(radius => parseFloat(radius) > 0)) styles.push(`border-radius: ${radii.join(' ')}`);
+  }
+
+  BOX_SIDES.forEach(side => {
+    const padding = el.style.getPropertyValue(`padding-${side}`);
+    if (padding) styles.push(`padding-${side}: ${padding}`);
+  });
+
+  return { styles, bgcolor };
+}
+
+/** A one-cell presentation table in place of the element; returns the cell for the content */
+function wrapInStyledTable(el: HTMLElement, box: BoxStyles, margin: string): HTMLTableCellElement {
+  const table = document.createElement('table');
+  table.setAttribute('role', 'presentation');
+  table.setAttribute('width', '100%');
+  table.setAttribute('cellpadding', '0');
+  table.setAttribute('cellspacing', '0');
+  table.setAttribute('border', '0');
+  table.style.cssText = `margin: ${margin || '0'}; border-collapse: separate;`;
+  const tr = document.createElement('tr');
+  const td = document.createElement('td');
+  if (box.bgcolor) td.setAttribute('bgcolor', box.bgcolor);
+  if (box.styles.length) td.style.cssText = `${box.styles.join('; ')};`;
+  tr.appendChild(td);
+  table.appendChild(tr);
+  el.replaceWith(table);
+  return td;
+}
+
+/** The same as markup, for the column layout's string template (content unchanged without styles) */
+function wrapInStyledCellHTML(content: string, box: BoxStyles): string {
+  if (box.styles.length === 0) return content;
+  const bgcolor = box.bgcolor ? ` bgcolor="${box.bgcolor}"` : '';
+  const style = box.styles.join('; ').replace(/"/g, "'");
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: separate;"><tr><td${bgcolor} style="${style};">${content}</td></tr></table>`;
+}
+
+/** Alignment shared by every paragraph / heading in the cell (column alignment), else left */
+function getCellAlign(cell: HTMLElement): string {
+  const blocks = Array.from(cell.querySelectorAll('p, h1, h2, h3, h4, h5, h6')) as HTMLElement[];
+  const aligns = new Set(blocks.map(block => block.style.textAlign || 'left'));
+  const [align] = Array.from(aligns);
+  return aligns.size === 1 && ['center', 'right', 'justify'].includes(align) ? align : 'left';
+}
+
+/** Width in px from the cell's colwidth (one value per spanned column), or 0 when not every column has one */
+function getCellWidth(cell: HTMLElement): number {
+  const widths = (cell.getAttribute('colwidth') || '').split(',').map(w => parseInt(w, 10));
+  const span = parseInt(cell.getAttribute('colspan') || '1', 10) || 1;
+  if (widths.length < span || widths.some(w => !(w > 0))) return 0;
+  return widths.slice(0, span).reduce((sum, w) => sum + w, 0);
+}
+
 /**
  * Transform horizontal rules
  */
@@ -433,18 +778,134 @@ function transformHorizontalRules(container: HTMLElement, _opts: Required<EmailE
   });
 }
 
+/**
+ * Dark mode: classes on the elements drawn in the email's text and link colors, for the
+ * prefers-color-scheme overrides in the document head. Anything on a styled background
+ * (blocks, table headers, code) keeps its colors, as that background stays the same.
+ */
+function markDarkModeElements(container: HTMLElement, opts: Required<EmailExportOptions>): void {
+  const textColor = normalizeColorToHex(opts.textColor).toLowerCase();
+  const accentColor = normalizeColorToHex(opts.accentColor).toLowerCase();
+  container.querySelectorAll('[style]').forEach(node => {
+    const el = node as HTMLElement;
+    if (el.closest('[bgcolor], [style*="background"]')) return;
+    const color = normalizeColorToHex(el.style.color).toLowerCase();
+    if (el.tagName === 'A' && color === accentColor) el.classList.add('dark-link');
+    else if (color === textColor) el.classList.add('dark-text');
+  });
+}
+
+/** color-scheme metas and the dark-mode overrides (Outlook.com marks dark mode with data-ogsc / data-ogsb) */
+function getDarkModeHead(opts: Required<EmailExportOptions>): { meta: string; style: string } {
+  const dark = opts.darkMode;
+  if (!dark) return { meta: '', style: '' };
+  return {
+    meta: `
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">`,
+    style: `
+    /* Dark mode */
+    :root { color-scheme: light dark; supported-color-schemes: light dark; }
+    @media (prefers-color-scheme: dark) {
+      .dark-bg { background-color: ${dark.backgroundColor} !important; }
+      .dark-text { color: ${dark.textColor} !important; }
+      .dark-link { color: ${dark.accentColor} !important; }
+    }
+    [data-ogsb] .dark-bg { background-color: ${dark.backgroundColor} !important; }
+    [data-ogsc] .dark-text { color: ${dark.textColor} !important; }
+    [data-ogsc] .dark-link { color: ${dark.accentColor} !important; }`,
+  };
+}
+
+/** After the preheader: keeps clients from filling the rest of the preview line with the email's first words */
+const PREHEADER_FILLER = '&#847;&zwnj;&nbsp;'.repeat(60);
+const UNSUBSCRIBE_TOKEN = '{{unsubscribe_url}}';
+const VIEW_IN_BROWSER_TOKEN = '{{view_in_browser_url}}';
+
+interface EmailFrame {
+  /** Hidden preview text, first thing in the body */
+  preheader: string;
+  /** Container rows above and below the content row */
+  top: string;
+  bottom: string;
+}
+
+/**
+ * Preheader, "View in browser" link, header, footer and unsubscribe link around the content;
+ * each part only when its option is set
+ */
+function getEmailFrame(opts: Required<EmailExportOptions>): EmailFrame {
+  const smallText = `font-family: ${opts.fontFamily}; font-size: 12px; line-height: 1.5; color: ${opts.textColor};`;
+  const textClass = opts.darkMode ? ' class="dark-text"' : '';
+  const frameLink = (url: string, label: string) =>
+    `<a href="${escapeAttribute(url)}" target="_blank"${textClass} style="color: ${opts.textColor}; text-decoration: underline;">${escapeHtml(label)}</a>`;
+
+  const preheader = opts.preheader.trim()
+    ? `<div style="display: none; font-size: 1px; line-height: 1px; max-height: 0; max-width: 0; opacity: 0; overflow: hidden; mso-hide: all;">${escapeHtml(opts.preheader.trim())}${PREHEADER_FILLER}</div>`
+    : '';
+
+  const top: string[] = [];
+  if (opts.viewInBrowserUrl && !opts.headerHTML.includes(VIEW_IN_BROWSER_TOKEN)) {
+    top.push(`<tr><td align="center"${textClass} style="padding: 12px ${BODY_PADDING}px 0; ${smallText}">${frameLink(opts.viewInBrowserUrl, opts.viewInBrowserLabel)}</td></tr>`);
+  }
+  const header = getFrameBlockHTML(opts.headerHTML, opts);
+  if (header) top.push(`<tr><td class="mobile-padding" style="padding: ${BODY_PADDING}px ${BODY_PADDING}px 0;">${header}</td></tr>`);
+
+  const footer = getFrameBlockHTML(opts.footerHTML, opts);
+  const unsubscribe = opts.unsubscribeUrl && !opts.footerHTML.includes(UNSUBSCRIBE_TOKEN)
+    ? `<p${textClass} style="margin: ${footer ? '16px' : '0'} 0 0; text-align: center; ${smallText}">${frameLink(opts.unsubscribeUrl, opts.unsubscribeLabel)}</p>`
+    : '';
+  const bottom = footer || unsubscribe
+    ? `<tr><td class="mobile-padding${opts.darkMode ? ' dark-text' : ''}" style="padding: 0 ${BODY_PADDING}px ${BODY_PADDING}px; ${smallText}">${footer}${unsubscribe}</td></tr>`
+    : '';
+
+  return { preheader, top: top.join('\n'), bottom };
+}
+
+/**
+ * Header / footer HTML: sanitized (the placeholders are relative URLs to the sanitizer, so they stay),
+ * editor content converted like the body, the URL placeholders filled in
+ */
+function getFrameBlockHTML(html: string, opts: Required<EmailExportOptions>): string {
+  if (!html.trim()) return '';
+  const safe = sanitizeHtml(stripHtmlVersion(html), opts.sanitizeOptions);
+  const block = hasHtmlVersion(html) ? transformToEmailHTML(safe, opts) : safe;
+  // Inside tags (href="...") the URLs stay as written; in text they are escaped like any text
+  return block.replace(/<[^>]*>|[^<]+/g, (part) => {
+    const escape = part.startsWith('<') ? escapeAttribute : escapeHtml;
+    return part
+      .split(UNSUBSCRIBE_TOKEN).join(escape(opts.unsubscribeUrl))
+      .split(VIEW_IN_BROWSER_TOKEN).join(escape(opts.viewInBrowserUrl));
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Only quotes are escaped: email services replace their placeholders (*|UNSUB|*, <%unsubscribe%>)
+ * in the raw source, so these URLs must stay as written
+ */
+function escapeAttribute(url: string): string {
+  return url.replace(/"/g, '&quot;');
+}
+
 /**
  * Wrap content in full email document
  */
 function wrapInEmailDocument(content: string, opts: Required<EmailExportOptions>): string {
+  const darkMode = getDarkModeHead(opts);
+  const bodyClass = opts.darkMode ? ' class="dark-bg dark-text"' : '';
+  const frame = getEmailFrame(opts);
   return `<!DOCTYPE html>
 <html lang="en" xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta http-equiv="X-UA-Compatible" content="IE=edge">
-  <meta name="x-apple-disable-message-reformatting">
-  <title></title>
+  <meta name="x-apple-disable-message-reformatting">${darkMode.meta}
+  <title>${escapeHtml(opts.title)}</title>
   <!--[if mso]>
   <noscript>
     <xml>
@@ -473,10 +934,11 @@ function wrapInEmailDocument(content: string, opts: Required<EmailExportOptions>
         padding: 10px 0 !important;
       }
       .mobile-padding { padding-left: 20px !important; padding-right: 20px !important; }
-    }
+    }${darkMode.style}
   </style>
 </head>
-<body style="margin: 0; padding: 0; background-color: ${opts.backgroundColor}; font-family: ${opts.fontFamily}; font-size: ${opts.fontSize}; line-height: ${opts.lineHeight}; color: ${opts.textColor};">
+<body${bodyClass} style="margin: 0; padding: 0; background-color: ${opts.backgroundColor}; font-family: ${opts.fontFamily}; font-size: ${opts.fontSize}; line-height: ${opts.lineHeight}; color: ${opts.textColor};">
+  ${frame.preheader}
   <!--[if mso]>
   <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
   <tr>
@@ -484,11 +946,13 @@ function wrapInEmailDocument(content: string, opts: Required<EmailExportOptions>
   <![endif]-->
   
   <table role="presentation" class="email-container" width="100%" cellpadding="0" cellspacing="0" border="0" style="max-width: ${opts.maxWidth}px; margin: 0 auto;">
+    ${frame.top}
     <tr>
-      <td class="mobile-padding" style="padding: 20px;">
+      <td class="mobile-padding" style="padding: ${BODY_PADDING}px;">
         ${content}
       </td>
     </tr>
+    ${frame.bottom}
   </table>
   
   <!--[if mso]>
@@ -500,15 +964,6 @@ function wrapInEmailDocument(content: string, opts: Required<EmailExportOptions>
 </html>`;
 }
 
-/**
- * Escape HTML entities
- */
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
-}
-
 /**
  * Export editor content to email HTML and trigger download
  */
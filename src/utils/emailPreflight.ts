@@ -0,0 +1,276 @@
+/**
+ * Email Preflight
+ *
+ * Checks a document for what will break or degrade once it is sent with convertToEmailHTML:
+ * - Embedded (base64) images, images without a width or alternative text
+ * - Email size approaching Gmail's clipping limit (~102 KB)
+ * - Styles Outlook ignores: rounded corners, flexible column layouts, background images
+ * - Tables and columns too wide (or columns too narrow) for the email's maxWidth
+ * - Links without a URL or without visible text
+ * - Text whose color has too little contrast with its background
+ *
+ * Each issue carries the position of the offending node so the editor can select it.
+ */
+
+import { Mark, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EmailExportOptions, BODY_PADDING, COLUMN_GUTTER, getColumnWidths, resolveEmailOptions } from './emailExport';
+import { normalizeColorToHex } from './colorOptions';
+
+export type PreflightSeverity = 'error' | 'warning' | 'info';
+
+export type PreflightRule =
+  | 'base64-image'
+  | 'image-width'
+  | 'image-alt'
+  | 'email-size'
+  | 'outlook-css'
+  | 'column-width'
+  | 'empty-link'
+  | 'low-contrast';
+
+export interface PreflightIssue {
+  rule: PreflightRule;
+  severity: PreflightSeverity;
+  message: string;
+  /** Position of the offending node in the document; null when the issue is about the whole email */
+  pos: number | null;
+  /** Type of that node (image, paragraph, columnLayout, text, ...); null with pos */
+  nodeType: string | null;
+}
+
+/** Gmail hides everything after the first 102 KB of a message behind "View entire message" */
+const GMAIL_CLIP_BYTES = 102 * 1024;
+/** Size from which the email is reported as getting close to the limit */
+const GMAIL_WARN_BYTES = 90 * 1024;
+/** Columns narrower than this (px) squeeze text to a few words per line */
+const MIN_COLUMN_WIDTH = 120;
+/** WCAG AA contrast for body text, and for large text (headings) */
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+/** Div blocks get this padding in the email when none was set */
+const DIV_BLOCK_PADDING = 16;
+
+const RADIUS_ATTRS = ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius'];
+const ORDER: Record<PreflightSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+interface CheckContext {
+  /** Width available to the node's content in the email (px) */
+  width: number;
+  /** Hex background the node's text is drawn on */
+  background: string;
+}
+
+/**
+ * Check a document for email problems. `emailHTML` is the document exported with the same options
+ * (convertToEmailHTML), used for the size check. Issues are sorted by severity, then position.
+ */
+export function analyzeEmail(doc: ProseMirrorNode, emailHTML: string, options: EmailExportOptions = {}): PreflightIssue[] {
+  const opts = resolveEmailOptions(options);
+  const issues: PreflightIssue[] = [];
+  const contentWidth = opts.maxWidth - BODY_PADDING * 2;
+  const background = toHex(opts.backgroundColor) ?? '#ffffff';
+
+  checkChildren(doc, 0, { width: contentWidth, background }, issues, opts);
+  checkSize(emailHTML, issues);
+
+  // Background images from anywhere else (blocks with one were reported above)
+  const hasBackgroundIssue = issues.some(issue => issue.rule === 'outlook-css' && issue.severity === 'warning');
+  if (!hasBackgroundIssue && /style="[^"]*(?:url\(|gradient\()/i.test(emailHTML)) {
+    issues.push(createIssue('outlook-css', 'warning', 'The email uses a background image, which Outlook ignores. Set a background color as well.', null, null));
+  }
+
+  return issues
+    .map((issue, index) => ({ issue, index }))
+    .sort((a, b) => ORDER[a.issue.severity] - ORDER[b.issue.severity]
+      || (a.issue.pos ?? -1) - (b.issue.pos ?? -1)
+      || a.index - b.index)
+    .map(({ issue }) => issue);
+}
+
+function createIssue(rule: PreflightRule, severity: PreflightSeverity, message: string, pos: number | null, nodeType: string | null): PreflightIssue {
+  return { rule, severity, message, pos, nodeType };
+}
+
+function checkChildren(parent: ProseMirrorNode, contentStart: number, ctx: CheckContext, issues: PreflightIssue[], opts: Required<EmailExportOptions>): void {
+  if (parent.type.name === 'columnLayout') {
+    checkColumnLayout(parent, contentStart, ctx, issues, opts);
+    return;
+  }
+  parent.forEach((child, offset) => checkNode(child, contentStart + offset, ctx, issues, opts));
+}
+
+function checkNode(node: ProseMirrorNode, pos: number, ctx: CheckContext, issues: PreflightIssue[], opts: Required<EmailExportOptions>): void {
+  const type = node.type.name;
+  const attrs = node.attrs;
+
+  if (RADIUS_ATTRS.some(name => parseFloat(String(attrs[name] ?? '')) > 0)) {
+    issues.push(createIssue('outlook-css', 'info', 'Rounded corners show as square corners in Outlook.', pos, type));
+  }
+
+  const backgroundValue = typeof attrs.backgroundColor === 'string' ? attrs.backgroundColor : '';
+  if (/url\(|gradient\(/i.test(backgroundValue)) {
+    issues.push(createIssue('outlook-css', 'warning', 'This block has a background image, which Outlook ignores. Set a background color as well.', pos, type));
+  }
+
+  if (type === 'image') {
+    checkImage(node, pos, ctx, issues);
+    return;
+  }
+
+  if (type === 'table') {
+    checkTable(node, pos, ctx, issues);
+  }
+
+  if (node.isTextblock) {
+    if (!node.type.spec.code) checkText(node, pos + 1, { ...ctx, background: toHex(backgroundValue) ?? ctx.background }, issues, opts);
+    return;
+  }
+
+  checkChildren(node, pos + 1, {
+    width: Math.max(0, ctx.width - getHorizontalInset(node)),
+    background: toHex(backgroundValue) ?? ctx.background,
+  }, issues, opts);
+}
+
+/** Padding and borders a container takes away from its content's width in the email */
+function getHorizontalInset(node: ProseMirrorNode): number {
+  const attrs = node.attrs;
+  const number = (value: unknown) => parseFloat(String(value ?? '')) || 0;
+  const defaultPadding = node.type.name === 'divBlock' ? DIV_BLOCK_PADDING : 0;
+  const padding = (value: unknown) => (value == null ? defaultPadding : number(value));
+  return padding(attrs.paddingLeft) + padding(attrs.paddingRight) + number(attrs.borderLeftWidth) + number(attrs.borderRightWidth);
+}
+
+function checkColumnLayout(layout: ProseMirrorNode, contentStart: number, ctx: CheckContext, issues: PreflightIssue[], opts: Required<EmailExportOptions>): void {
+  const pos = contentStart - 1;
+  issues.push(createIssue('outlook-css', 'info', 'Outlook ignores flexible layouts: in Outlook for Windows these columns stay side by side instead of stacking on small screens.', pos, layout.type.name));
+
+  const columns: { node: ProseMirrorNode; pos: number }[] = [];
+  layout.forEach((child, offset) => columns.push({ node: child, pos: contentStart + offset }));
+  const widths = getColumnWidths(columns.map(column => column.node.attrs.width));
+  const usable = ctx.width - COLUMN_GUTTER * (columns.length - 1);
+
+  columns.forEach((column, index) => {
+    const width = Math.floor((usable * widths[index]) / 100);
+    if (width < MIN_COLUMN_WIDTH) {
+      issues.push(createIssue('column-width', 'warning', `This column is only ${width}px wide at a ${opts.maxWidth}px email width. Use fewer columns or make it wider.`, column.pos, column.node.type.name));
+    }
+    checkNode(column.node, column.pos, { ...ctx, width }, issues, opts);
+  });
+}
+
+function checkImage(node: ProseMirrorNode, pos: number, ctx: CheckContext, issues: PreflightIssue[]): void {
+  const { src, alt, width, href } = node.attrs;
+  const type = node.type.name;
+
+  if (typeof src === 'string' && src.trim().toLowerCase().startsWith('data:')) {
+    issues.push(createIssue('base64-image', 'error', 'This image is embedded in the email (base64). Gmail and Outlook block or strip embedded images, and they count towards the size limit. Upload it instead.', pos, type));
+  }
+  const pixelWidth = parseInt(String(width ?? ''), 10) || 0;
+  // The export scales wider images down to the space they get, and gives unsized ones all of it
+  if (!pixelWidth) {
+    issues.push(createIssue('image-width', 'warning', `This image has no width, so Outlook stretches it to ${ctx.width}px. Resize it once to set one.`, pos, type));
+  }
+  if (!String(alt ?? '').trim()) {
+    issues.push(createIssue('image-alt', 'warning', 'This image has no alternative text, which readers see while images are blocked.', pos, type));
+  }
+  if (typeof href === 'string' && isEmptyHref(href)) {
+    issues.push(createIssue('empty-link', 'warning', 'The link on this image has no URL.', pos, type));
+  }
+}
+
+/** Fixed column widths (dragged table borders) wider than the space the table gets */
+function checkTable(node: ProseMirrorNode, pos: number, ctx: CheckContext, issues: PreflightIssue[]): void {
+  const firstRow = node.firstChild;
+  if (!firstRow) return;
+  let total = 0;
+  firstRow.forEach(cell => {
+    const widths = Array.isArray(cell.attrs.colwidth) ? cell.attrs.colwidth as number[] : [];
+    total += widths.reduce((sum, width) => sum + (width || 0), 0);
+  });
+  if (total > ctx.width) {
+    issues.push(createIssue('column-width', 'warning', `The table's columns add up to ${total}px but only ${ctx.width}px fit here. Drag the column borders to make them narrower.`, pos, node.type.name));
+  }
+}
+
+/** Links and text colors inside a paragraph / heading; each problem is reported once per block */
+function checkText(block: ProseMirrorNode, contentStart: number, ctx: CheckContext, issues: PreflightIssue[], opts: Required<EmailExportOptions>): void {
+  const minContrast = block.type.name === 'heading' && (block.attrs.level ?? 1) <= 3 ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+  const emailBackground = toHex(opts.backgroundColor) ?? '#ffffff';
+  const reported = new Set<string>();
+  const report = (key: string, issue: PreflightIssue) => {
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push(issue);
+  };
+
+  block.forEach((child, offset) => {
+    if (!child.isText) return;
+    const pos = contentStart + offset;
+    const link = child.marks.find(mark => mark.type.name === 'link');
+
+    if (link && isEmptyHref(String(link.attrs.href ?? ''))) {
+      report(`url:${link.attrs.href}`, createIssue('empty-link', 'warning', `The link "${truncate(child.text ?? '')}" has no URL.`, pos, 'text'));
+    }
+    if (link && !(child.text ?? '').trim()) {
+      report(`text:${link.attrs.href}`, createIssue('empty-link', 'warning', 'This link has no visible text.', pos, 'text'));
+    }
+    if (!(child.text ?? '').trim()) return;
+
+    const color = getTextColor(child.marks);
+    // Links in the accent color are the sender's brand choice; they are only checked on colored blocks
+    if (!color && link && ctx.background === emailBackground) return;
+    const foreground = toHex(color ?? (link ? opts.accentColor : opts.textColor));
+    if (!foreground) return;
+    const ratio = getContrastRatio(foreground, ctx.background);
+    if (ratio < minContrast) {
+      const shown = Math.floor(ratio * 10) / 10;
+      report(`contrast:${foreground}`, createIssue('low-contrast', 'warning', `Text color ${foreground} on ${ctx.background} has a contrast of ${shown}:1 (at least ${minContrast}:1 is needed to read it easily).`, pos, 'text'));
+    }
+  });
+}
+
+function checkSize(emailHTML: string, issues: PreflightIssue[]): void {
+  const bytes = new TextEncoder().encode(emailHTML).length;
+  const kb = Math.round(bytes / 1024);
+  if (bytes >= GMAIL_CLIP_BYTES) {
+    issues.push(createIssue('email-size', 'error', `The email is ${kb} KB. Gmail clips messages over 102 KB and hides the rest behind "View entire message".`, null, null));
+  } else if (bytes >= GMAIL_WARN_BYTES) {
+    issues.push(createIssue('email-size', 'warning', `The email is ${kb} KB, close to the 102 KB after which Gmail clips it.`, null, null));
+  }
+}
+
+function getTextColor(marks: readonly Mark[]): string | null {
+  const textStyle = marks.find(mark => mark.type.name === 'textStyle');
+  const color = textStyle?.attrs.color;
+  return typeof color === 'string' && color ? color : null;
+}
+
+function isEmptyHref(href: string): boolean {
+  const value = href.trim().toLowerCase();
+  return !value || value === '#' || value.startsWith('javascript:');
+}
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > 40 ? `${trimmed.slice(0, 39)}…` : trimmed;
+}
+
+/** #rrggbb for hex / rgb() colors; null for transparent, named and other colors that can't be checked */
+function toHex(color: string | null | undefined): string | null {
+  const hex = normalizeColorToHex(color ?? '').toLowerCase();
+  return /^#[0-9a-f]{6}$/.test(hex) ? hex : null;
+}
+
+/** WCAG contrast ratio between two #rrggbb colors (1 to 21) */
+function getContrastRatio(a: string, b: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = [1, 3, 5].map(i => {
+      const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+      return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+
+describe('getEmailText with a frame', () => {
+  it('adds the header, footer and links of the HTML export', () => {
+    const ed = createTestEditor({ content: '<p>Hello</p>' });
+    const text = ed.getEmailText({}, {
+      headerHTML: '<p>Acme News</p>',
+      footerHTML: '<p>Acme Inc, 1 Main St</p>',
+      unsubscribeUrl: '*|UNSUB|*',
+      viewInBrowserUrl: '*|ARCHIVE|*',
+    });
+    expect(text).toBe([
+      'View in browser: *|ARCHIVE|*',
+      '',
+      'Acme News',
+      '',
+      '----------------------------------------',
+      '',
+      'Hello',
+      '',
+      '----------------------------------------',
+      '',
+      'Acme Inc, 1 Main St',
+      '',
+      'Unsubscribe: *|UNSUB|*',
+    ].join('\n'));
+  });
+
+  it('fills in the placeholders a footer uses instead of adding the link', () => {
+    const ed = createTestEditor({ content: '<p>Hello</p>' });
+    const text = ed.getEmailText({}, {
+      footerHTML: '<p><a href="{{unsubscribe_url}}">Manage preferences</a></p>',
+      unsubscribeUrl: 'https://x.com/u',
+    });
+    expect(text).not.toContain('Unsubscribe:');
+    expect(text).toContain('Manage preferences [1]');
+    expect(text).toContain('[1] https://x.com/u');
+  });
+
+  it('is unchanged without a frame', () => {
+    const ed = createTestEditor({ content: '<p>Hello</p>' });
+    expect(ed.getEmailText()).toBe('Hello');
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Email Text
+ *
+ * Renders a document as the text/plain alternative of a multipart email:
+ * - Headings underlined with "=" (level 1) or "-"
+ * - Bulleted, numbered and task lists ("[ ]" / "[x]") indented by level
+ * - Tables as aligned columns, with a rule under a header row
+ * - Links as numbered footnotes listed at the end, or with the URL inline
+ * - Columns in reading order (one column after the other), quotes prefixed with "> "
+ * - Paragraphs wrapped at the line width; code blocks are kept as they are, indented
+ *
+ * - The email frame: a "View in browser" line, header and footer documents and an unsubscribe line,
+ *   with {{view_in_browser_url}} / {{unsubscribe_url}} filled in like the HTML export does
+ *
+ * Like the HTML export, pending suggestions show as accepted and comments are dropped.
+ */
+
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { TableMap } from '@tiptap/pm/tables';
+import { MergeData, resolveMergeField } from './mergeFields';
+
+export type EmailTextLinkStyle = 'footnotes' | 'inline';
+
+export interface EmailTextOptions {
+  /** Wrap lines at this many characters (0 = no wrapping) */
+  lineWidth?: number;
+  /** Links as "text [1]" with the URLs listed at the end, or as "text (URL)" */
+  linkStyle?: EmailTextLinkStyle;
+  /** Values for merge fields (missing / empty values use the field's fallback); without it fields are exported as {{name}} tags */
+  mergeData?: MergeData | null;
+  /** Documents above / below the content (the email's header and footer), separated from it by a rule */
+  header?: ProseMirrorNode | null;
+  footer?: ProseMirrorNode | null;
+  /** Unsubscribe link, as a last line unless the footer uses {{unsubscribe_url}} */
+  unsubscribeUrl?: string;
+  unsubscribeLabel?: string;
+  /** "View in browser" link, as a first line unless the header uses {{view_in_browser_url}} */
+  viewInBrowserUrl?: string;
+  viewInBrowserLabel?: string;
+}
+
+const defaultOptions: Required<EmailTextOptions> = {
+  lineWidth: 72,
+  linkStyle: 'footnotes',
+  mergeData: null,
+  header: null,
+  footer: null,
+  unsubscribeUrl: '',
+  unsubscribeLabel: 'Unsubscribe',
+  viewInBrowserUrl: '',
+  viewInBrowserLabel: 'View in browser',
+};
+
+/** Same placeholders as the HTML export's header and footer */
+const UNSUBSCRIBE_TOKEN = '{{unsubscribe_url}}';
+const VIEW_IN_BROWSER_TOKEN = '{{view_in_browser_url}}';
+
+/** Length of horizontal rules and heading underlines when lines aren't wrapped */
+const RULE_WIDTH = 40;
+/** Narrowest width content is wrapped at, however deep it is nested */
+const MIN_WRAP_WIDTH = 20;
+const CODE_INDENT = '    ';
+
+interface RenderContext {
+  opts: Required<EmailTextOptions>;
+  /** Footnoted URLs; a link's number is its index + 1 */
+  links: string[];
+}
+
+/**
+ * Render a document as plain text for email
+ */
+export function convertToEmailText(doc: ProseMirrorNode, options: EmailTextOptions = {}): string {
+  // Options set to undefined use the default too
+  const set = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  const ctx: RenderContext = { opts: { ...defaultOptions, ...set }, links: [] };
+  const { opts } = ctx;
+  const width = opts.lineWidth > 0 ? opts.lineWidth : Infinity;
+  const rule = '-'.repeat(Math.min(width, RULE_WIDTH));
+  // A placeholder in a header or footer link shows up in the footnotes, not in the lines
+  const uses = (lines: string[], links: string[], token: string) =>
+    lines.some(line => line.includes(token)) || links.some(href => href.includes(token));
+  const header = opts.header ? renderBlocks(opts.header, width, ctx, true) : [];
+  const lines: string[] = [];
+
+  if (opts.viewInBrowserUrl && !uses(header, ctx.links, VIEW_IN_BROWSER_TOKEN)) {
+    lines.push(`${opts.viewInBrowserLabel}: ${opts.viewInBrowserUrl}`, '');
+  }
+  if (header.length) lines.push(...header, '', rule, '');
+  lines.push(...renderBlocks(doc, width, ctx, true));
+
+  const linkCount = ctx.links.length;
+  const footer = opts.footer ? renderBlocks(opts.footer, width, ctx, true) : [];
+  const unsubscribe = opts.unsubscribeUrl && !uses(footer, ctx.links.slice(linkCount), UNSUBSCRIBE_TOKEN)
+    ? `${opts.unsubscribeLabel}: ${opts.unsubscribeUrl}`
+    : '';
+  if (footer.length || unsubscribe) lines.push('', rule, '', ...footer);
+  if (unsubscribe) lines.push(...(footer.length ? [''] : []), unsubscribe);
+
+  if (ctx.links.length) {
+    lines.push('', 'Links:');
+    ctx.links.forEach((href, index) => lines.push(`[${index + 1}] ${href}`));
+  }
+
+  return lines
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .split(UNSUBSCRIBE_TOKEN).join(opts.unsubscribeUrl)
+    .split(VIEW_IN_BROWSER_TOKEN).join(opts.viewInBrowserUrl)
+    .trim();
+}
+
+/** A container's blocks, separated by blank lines (loose) or not (list items) */
+function renderBlocks(parent: ProseMirrorNode, width: number, ctx: RenderContext, loose: boolean): string[] {
+  const lines: string[] = [];
+  parent.forEach(child => {
+    if (isDeletedBlock(child)) return;
+    const block = renderBlock(child, width, ctx);
+    if (!block.length) return;
+    if (lines.length && loose) lines.push('');
+    lines.push(...block);
+  });
+  return lines;
+}
+
+function renderBlock(node: ProseMirrorNode, width: number, ctx: RenderContext): string[] {
+  switch (node.type.name) {
+    case 'heading': {
+      const lines = wrapText(renderInline(node, ctx), width);
+      if (!lines.length) return [];
+      const length = Math.max(...lines.map(line => line.length));
+      return [...lines, (node.attrs.level === 1 ? '=' : '-').repeat(length)];
+    }
+    case 'blockquote':
+      return renderBlocks(node, width - 2, ctx, true).map(line => (line ? `> ${line}` : '>'));
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node, width, ctx);
+    case 'codeBlock':
+      return node.textContent.replace(/\n$/, '').split('\n').map(line => CODE_INDENT + line);
+    case 'horizontalRule':
+      return ['-'.repeat(Math.min(width, RULE_WIDTH))];
+    case 'image':
+      return renderImage(node, width, ctx);
+    case 'table':
+      return renderTable(node, ctx);
+    default:
+      if (node.isTextblock) return wrapText(renderInline(node, ctx), width);
+      // Div blocks, column grids, layouts and columns: their content in reading order
+      return node.isLeaf ? [] : renderBlocks(node, width, ctx, true);
+  }
+}
+
+/** A block whose suggested deletion is pending (shown as accepted, like deleted text) */
+function isDeletedBlock(node: ProseMirrorNode): boolean {
+  return /"type"\s*:\s*"delete"/.test(String(node.attrs.blockSuggestion ?? ''));
+}
+
+/** List items with their marker on the first line and the rest indented under the text */
+function renderList(list: ProseMirrorNode, width: number, ctx: RenderContext): string[] {
+  const start = typeof list.attrs.start === 'number' ? list.attrs.start : 1;
+  const markers: string[] = [];
+  list.forEach((item, _offset, index) => {
+    if (list.type.name === 'orderedList') markers.push(`${start + index}.`);
+    else if (list.type.name === 'taskList') markers.push(item.attrs.checked ? '[x]' : '[ ]');
+    else markers.push('-');
+  });
+  const markerWidth = Math.max(0, ...markers.map(marker => marker.length)) + 1;
+
+  const lines: string[] = [];
+  list.forEach((item, _offset, index) => {
+    const content = renderBlocks(item, Math.max(MIN_WRAP_WIDTH, width - markerWidth), ctx, false);
+    const marker = markers[index].padEnd(markerWidth);
+    if (!content.length) content.push('');
+    content.forEach((line, lineIndex) => {
+      lines.push(lineIndex === 0 ? marker + line : line ? ' '.repeat(markerWidth) + line : '');
+    });
+  });
+  return lines;
+}
+
+function renderImage(node: ProseMirrorNode, width: number, ctx: RenderContext): string[] {
+  const alt = String(node.attrs.alt ?? '').trim();
+  const href = String(node.attrs.href ?? '').trim();
+  const caption = String(node.attrs.caption ?? '').trim();
+  let image = alt ? `[${alt}]` : '';
+  if (href) image = image ? `${image} ${formatLink(href, ctx)}` : href;
+  return [...(image ? wrapText(image, width) : []), ...(caption ? wrapText(caption, width) : [])];
+}
+
+/** Link reference after the link text: "[n]" (same URL, same number) or "(URL)" */
+function formatLink(href: string, ctx: RenderContext): string {
+  if (ctx.opts.linkStyle === 'inline') return `(${href})`;
+  let index = ctx.links.indexOf(href);
+  if (index === -1) index = ctx.links.push(href) - 1;
+  return `[${index + 1}]`;
+}
+
+/** A text block's text with merge fields filled, mentions as "@Name" and links referenced; "\n" for line breaks */
+function renderInline(block: ProseMirrorNode, ctx: RenderContext): string {
+  let text = '';
+  let linkHref: string | null = null;
+  let linkText = '';
+
+  const closeLink = () => {
+    if (linkHref === null) return;
+    const label = linkText.trim();
+    const bareHref = linkHref.replace(/^(https?:\/\/|mailto:)/i, '').replace(/\/$/, '');
+    // A link showing its own URL needs no reference
+    const showsUrl = label === linkHref || label === bareHref;
+    text += showsUrl || !linkHref ? linkText : `${linkText} ${formatLink(linkHref, ctx)}`;
+    linkHref = null;
+    linkText = '';
+  };
+
+  block.forEach(child => {
+    if (child.marks.some(mark => mark.type.name === 'deletion')) return;
+    const link = child.marks.find(mark => mark.type.name === 'link');
+    const href = link ? String(link.attrs.href ?? '').trim() : null;
+    if (href !== linkHref) closeLink();
+
+    let piece = '';
+    if (child.isText) piece = child.text ?? '';
+    else if (child.type.name === 'hardBreak') piece = '\n';
+    else if (child.type.name === 'mention') piece = `@${child.attrs.label ?? child.attrs.id ?? ''}`;
+    else if (child.type.name === 'mergeField') {
+      piece = ctx.opts.mergeData
+        ? resolveMergeField(child.attrs.name, child.attrs.fallback, ctx.opts.mergeData)
+        : `{{${child.attrs.name}}}`;
+    } else piece = child.textContent;
+
+    if (href !== null) {
+      linkHref = href;
+      linkText += piece;
+    } else {
+      text += piece;
+    }
+  });
+  closeLink();
+  return text;
+}
+
+/** Word wrap each line of text; words longer than the width (URLs) get a line of their own */
+function wrapText(text: string, width: number): string[] {
+  if (!text.trim()) return [];
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/[ \t]+/).filter(Boolean).forEach(word => {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+/** Cells padded to their column's width (merged cells show in their first column), a rule under a header row */
+function renderTable(table: ProseMirrorNode, ctx: RenderContext): string[] {
+  const map = TableMap.get(table);
+  const rows: { text: string; align: string }[][] = [];
+  const seen = new Set<number>();
+
+  for (let row = 0; row < map.height; row++) {
+    const cells: { text: string; align: string }[] = [];
+    for (let col = 0; col < map.width; col++) {
+      const offset = map.map[row * map.width + col];
+      const cell = table.nodeAt(offset);
+      if (!cell || seen.has(offset)) {
+        cells.push({ text: '', align: 'left' });
+        continue;
+      }
+      seen.add(offset);
+      const texts: string[] = [];
+      let align = 'left';
+      cell.descendants(node => {
+        if (!node.isTextblock) return true;
+        const text = renderInline(node, ctx).replace(/\s+/g, ' ').trim();
+        if (text) texts.push(text);
+        if (texts.length === 1 && node.attrs.textAlign) align = node.attrs.textAlign;
+        return false;
+      });
+      cells.push({ text: texts.join(' '), align });
+    }
+    rows.push(cells);
+  }
+
+  const widths = Array.from({ length: map.width }, (_, col) => Math.max(0, ...rows.map(cells => cells[col].text.length)));
+  const pad = (cell: { text: string; align: string }, width: number) => {
+    const space = width - cell.text.length;
+    if (cell.align === 'right') return ' '.repeat(space) + cell.text;
+    if (cell.align === 'center') return ' '.repeat(Math.floor(space / 2)) + cell.text + ' '.repeat(Math.ceil(space / 2));
+    return cell.text + ' '.repeat(space);
+  };
+  const lines = rows.map(cells => cells.map((cell, col) => pad(cell, widths[col])).join('  '));
+
+  const firstRow = table.firstChild;
+  let headerRow = !!firstRow && firstRow.childCount > 0;
+  firstRow?.forEach(cell => {
+    if (cell.type.name !== 'tableHeader') headerRow = false;
+  });
+  if (headerRow && lines.length > 1) lines.splice(1, 0, widths.map(width => '-'.repeat(width)).join('  '));
+  return lines;
+}
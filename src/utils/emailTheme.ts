@@ -0,0 +1,112 @@
+/**
+ * Email Theme
+ *
+ * Builds EmailExportOptions that match the editor instead of the export's generic defaults:
+ * - From ThemeProperties (the Bubble theme properties applyTheme uses): font, size, brand color,
+ *   default text color and background, over the light or dark preset like applyTheme
+ * - From the rendered editor content (computed styles), which also picks up CSS overrides
+ *
+ * With theme "auto" the options include a dark-mode variant made from the dark preset, which
+ * convertToEmailHTML adds as a color-scheme meta and prefers-color-scheme overrides.
+ */
+
+import type { EmailExportOptions, EmailDarkModeColors } from './emailExport';
+import { ThemeProperties, lightThemePreset, darkThemePreset, bpBrandColors } from './themeApplier';
+import { normalizeColorToHex } from './colorOptions';
+
+/** Same as the editor content (editor.css) */
+const EDITOR_LINE_HEIGHT = '1.7';
+const DEFAULT_FONT_FAMILY = "'bp Sans', 'DM Sans', system-ui, -apple-system, sans-serif";
+/** Fonts every email client has, appended after the theme's (web fonts rarely load in email) */
+const SAFE_SANS_FONTS = ['Arial', 'Helvetica', 'sans-serif'];
+const SAFE_SERIF_FONTS = ['Georgia', "'Times New Roman'", 'serif'];
+const SAFE_FONT_NAMES = /^(arial|helvetica|georgia|times new roman|times|verdana|tahoma|trebuchet ms|courier new)$/i;
+const GENERIC_FONTS = /^(sans-serif|serif|monospace|cursive|fantasy|system-ui|ui-sans-serif|ui-serif|-apple-system|blinkmacsystemfont)$/i;
+
+export interface EmailThemeOptions {
+  /** Include the dark-mode variant; default: only for theme "auto" */
+  darkMode?: boolean;
+}
+
+/**
+ * Email options from theme properties. Light and auto themes use the light preset for the email
+ * itself, dark uses the dark one; custom properties override the preset.
+ */
+export function getEmailOptionsFromTheme(properties: Partial<ThemeProperties>, options: EmailThemeOptions = {}): EmailExportOptions {
+  const isDark = properties.theme === 'dark';
+  const preset = isDark ? darkThemePreset : lightThemePreset;
+  const includeDarkMode = options.darkMode ?? properties.theme === 'auto';
+
+  return {
+    fontFamily: toEmailFontStack(properties.font_family || DEFAULT_FONT_FAMILY),
+    fontSize: `${properties.font_size || 16}px`,
+    lineHeight: EDITOR_LINE_HEIGHT,
+    accentColor: toEmailColor(properties.brand_primary || properties.accent_color) ?? preset.brand_primary ?? bpBrandColors.primary,
+    backgroundColor: toEmailColor(properties.background_color) ?? preset.background_color ?? bpBrandColors.white,
+    textColor: toEmailColor(properties.default_text_color) ?? toEmailColor(properties.text_color) ?? preset.text_color ?? bpBrandColors.warmGrey6,
+    darkMode: includeDarkMode ? getEmailDarkMode(isDark ? properties : {}) : null,
+  };
+}
+
+/** Dark-mode colors: the dark preset, with the theme's own colors when the theme is dark */
+export function getEmailDarkMode(properties: Partial<ThemeProperties> = {}): EmailDarkModeColors {
+  return {
+    backgroundColor: toEmailColor(properties.background_color) ?? darkThemePreset.background_color ?? '#1a1d27',
+    textColor: toEmailColor(properties.default_text_color) ?? toEmailColor(properties.text_color) ?? darkThemePreset.text_color ?? '#e4e6ed',
+    accentColor: toEmailColor(properties.brand_primary || properties.accent_color) ?? darkThemePreset.brand_primary ?? bpBrandColors.light1,
+  };
+}
+
+/**
+ * Email options from the editor content as it is displayed: its font, size, line height, text
+ * color, the first non-transparent background behind it and the --editor-accent color.
+ */
+export function getEmailOptionsFromElement(element: HTMLElement): EmailExportOptions {
+  const style = window.getComputedStyle(element);
+  const options: EmailExportOptions = {};
+
+  if (style.fontFamily) options.fontFamily = toEmailFontStack(style.fontFamily);
+  const fontSize = parseFloat(style.fontSize);
+  if (fontSize > 0) options.fontSize = `${Math.round(fontSize)}px`;
+  const lineHeight = parseFloat(style.lineHeight);
+  if (lineHeight > 0 && fontSize > 0) options.lineHeight = String(Math.round((lineHeight / fontSize) * 100) / 100);
+
+  const textColor = toEmailColor(style.color);
+  if (textColor) options.textColor = textColor;
+  const accentColor = toEmailColor(style.getPropertyValue('--editor-accent'));
+  if (accentColor) options.accentColor = accentColor;
+
+  for (let el: HTMLElement | null = element; el; el = el.parentElement) {
+    const background = toEmailColor(window.getComputedStyle(el).backgroundColor);
+    if (background) {
+      options.backgroundColor = background;
+      break;
+    }
+  }
+  return options;
+}
+
+/** Hex for hex / rgb() colors (fully transparent and unreadable values give null) */
+function toEmailColor(color: string | null | undefined): string | null {
+  const value = (color ?? '').trim();
+  if (!value || /^rgba\(.*,\s*0\s*\)$/i.test(value)) return null;
+  const hex = normalizeColorToHex(value);
+  return /^#[0-9a-f]{6}$/i.test(hex) ? hex.toLowerCase() : null;
+}
+
+/**
+ * The theme's fonts followed by ones every client has (serif or sans-serif like the theme), with
+ * system-font keywords dropped and single quotes so the stack fits in a style attribute
+ */
+function toEmailFontStack(family: string): string {
+  const fonts = family
+    .split(',')
+    .map(font => font.trim().replace(/"/g, "'"))
+    .filter(Boolean);
+  const isSerif = fonts.some(font => font.toLowerCase() === 'serif');
+  const named = fonts.filter(font => !GENERIC_FONTS.test(font));
+  const safe = (isSerif ? SAFE_SERIF_FONTS : SAFE_SANS_FONTS)
+    .filter(font => !named.some(name => name.replace(/'/g, '').toLowerCase() === font.replace(/'/g, '').toLowerCase()));
+  const hasSafeFont = named.some(font => SAFE_FONT_NAMES.test(font.replace(/'/g, '')));
+  return [...named, ...(hasSafeFont ? safe.slice(-1) : safe)].join(', ');
+}
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+
+describe('Markdown round trip', () => {
+  it('keeps code blocks unchanged', () => {
+    const ed = createTestEditor({ content: '<pre><code class="language-js">const a = 1;</code></pre>' });
+    const markdown = ed.getMarkdown();
+    expect(markdown).toBe('```js\nconst a = 1;\n```');
+    for (let i = 0; i < 3; i++) {
+      ed.setMarkdown(ed.getMarkdown());
+    }
+    expect(ed.getMarkdown()).toBe(markdown);
+    expect(ed.getJSON().content?.[0].content?.[0].text).toBe('const a = 1;');
+  });
+
+  it('keeps a trailing newline that is part of the code', () => {
+    const ed = createTestEditor();
+    ed.setMarkdown('```\na\n\n```');
+    const markdown = ed.getMarkdown();
+    ed.setMarkdown(markdown);
+    expect(ed.getMarkdown()).toBe(markdown);
+  });
+
+  it('writes block images on their own line', () => {
+    const ed = createTestEditor({ content: '<img src="https://x.com/b.png" alt="B"><p>wrap text</p>' });
+    const markdown = ed.getMarkdown();
+    expect(markdown).toBe('![B](https://x.com/b.png)\n\nwrap text');
+    ed.setMarkdown(markdown);
+    expect(ed.getJSON().content?.map((node) => node.type)).toEqual(['image', 'paragraph']);
+    expect(ed.getMarkdown()).toBe(markdown);
+  });
+
+  it('keeps image size, alignment, caption and link as HTML', () => {
+    const ed = createTestEditor({
+      content: '<figure data-type="image" data-align="center"><a href="https://l.com"><img src="https://x.com/a.png" alt="A" width="300"></a><figcaption>My cap</figcaption></figure>',
+    });
+    const markdown = ed.getMarkdown();
+    expect(markdown).not.toContain('![A]');
+    ed.setMarkdown(markdown);
+    expect(ed.getJSON().content?.[0].attrs).toMatchObject({
+      src: 'https://x.com/a.png',
+      width: 300,
+      align: 'center',
+      caption: 'My cap',
+      href: 'https://l.com',
+    });
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Markdown Import / Export
+ *
+ * Converts editor documents to CommonMark/GFM and back:
+ * - Export uses prosemirror-markdown with serializers for our node names
+ *   (TipTap uses bulletList/codeBlock etc., not the prosemirror-markdown defaults)
+ * - Import renders Markdown to HTML with markdown-it and lets the editor schema parse it
+ *
+ * Anything Markdown can't express (divBlock, columnGrid/columnLayout/column, BlockStyle
+ * attributes, text alignment, colored/sized text, complex tables) is written as embedded
+ * HTML, which markdown-it passes through on import, so round-trips don't lose content.
+ */
+
+import MarkdownIt from 'markdown-it';
+import {
+  MarkdownSerializer,
+  MarkdownSerializerState,
+  defaultMarkdownSerializer,
+} from '@tiptap/pm/markdown';
+import { DOMSerializer, Mark, Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+
+type NodeSerializer = (
+  state: MarkdownSerializerState,
+  node: ProseMirrorNode,
+  parent: ProseMirrorNode,
+  index: number
+) => void;
+
+type MarkSerializer = MarkdownSerializer['marks'][string];
+
+/** Attributes each node can express in plain Markdown; any other non-default attribute forces the HTML fallback. */
+const MARKDOWN_ATTRS: Record<string, string[]> = {
+  paragraph: [],
+  heading: ['level'],
+  blockquote: [],
+  codeBlock: ['language'],
+  bulletList: [],
+  orderedList: ['start'],
+  listItem: [],
+  taskList: [],
+  taskItem: ['checked'],
+  table: [],
+  tableRow: [],
+  tableCell: [],
+  tableHeader: [],
+  image: ['src', 'alt', 'title'],
+};
+
+/** Placeholder used to split a rendered mark wrapper into its opening and closing tags. */
+const MARK_CONTENT_SENTINEL = '\u0000md-mark\u0000';
+
+const TASK_MARKER_REGEX = /^\s*\[([ xX])\]\s?/;
+
+const serializerCache = new WeakMap<Schema, MarkdownSerializer>();
+
+const markdownIt = new MarkdownIt({ html: true, linkify: false, breaks: false });
+
+// Fence content ends with the newline before the closing fence, which the serializer writes itself;
+// keeping it would add a newline to the end of every code block on each round trip
+markdownIt.core.ruler.push('trim_code_newline', (state) => {
+  state.tokens.forEach((token) => {
+    if (token.type === 'fence' || token.type === 'code_block') {
+      token.content = token.content.replace(/\n$/, '');
+    }
+  });
+});
+
+/**
+ * Serialize an editor document to Markdown
+ */
+export function serializeToMarkdown(doc: ProseMirrorNode): string {
+  return getSerializer(doc.type.schema).serialize(doc, { tightLists: true }).trim();
+}
+
+/**
+ * Convert Markdown to HTML the editor schema can parse (task lists become TipTap task list markup)
+ */
+export function markdownToHTML(markdown: string): string {
+  const rendered = markdownIt.render(markdown || '');
+  const doc = new DOMParser().parseFromString(rendered, 'text/html');
+  transformTaskLists(doc.body);
+  unwrapImageParagraphs(doc.body);
+  return doc.body.innerHTML;
+}
+
+function getSerializer(schema: Schema): MarkdownSerializer {
+  let serializer = serializerCache.get(schema);
+  if (!serializer) {
+    serializer = createSerializer(schema);
+    serializerCache.set(schema, serializer);
+  }
+  return serializer;
+}
+
+function createSerializer(schema: Schema): MarkdownSerializer {
+  // Assigned at the end; the table serializer uses it to render cell content
+  let serializer: MarkdownSerializer;
+  const defaults = defaultMarkdownSerializer.nodes;
+  const defaultMarks = defaultMarkdownSerializer.marks;
+
+  const known: Record<string, NodeSerializer> = {
+    doc: (state, node) => state.renderContent(node),
+    text: defaults.text,
+    paragraph: defaults.paragraph,
+    heading: defaults.heading,
+    blockquote: defaults.blockquote,
+    horizontalRule: (state, node) => {
+      state.write('---');
+      state.closeBlock(node);
+    },
+    hardBreak: defaults.hard_break,
+    image: (state, node, parent, index) => {
+      // Images are blocks here: end the block so following text starts a new paragraph
+      defaults.image(state, node, parent, index);
+      state.closeBlock(node);
+    },
+    bulletList: (state, node) => {
+      state.renderList(node, '  ', () => '- ');
+    },
+    orderedList: (state, node) => {
+      const start = (node.attrs.start as number) || 1;
+      const maxW = String(start + node.childCount - 1).length;
+      const space = state.repeat(' ', maxW + 2);
+      state.renderList(node, space, (i) => {
+        const nStr = String(start + i);
+        return state.repeat(' ', maxW - nStr.length) + nStr + '. ';
+      });
+    },
+    listItem: defaults.list_item,
+    taskList: (state, node) => {
+      state.renderList(node, '  ', () => '- ');
+    },
+    taskItem: (state, node) => {
+      state.write(node.attrs.checked ? '[x] ' : '[ ] ');
+      state.renderContent(node);
+    },
+    codeBlock: (state, node) => {
+      // Fence must be longer than any backtick run inside the code
+      const backticks = node.textContent.match(/`{3,}/gm);
+      const fence = backticks ? backticks.sort().slice(-1)[0] + '`' : '```';
+      state.write(fence + ((node.attrs.language as string) || '') + '\n');
+      state.text(node.textContent, false);
+      state.write('\n');
+      state.write(fence);
+      state.closeBlock(node);
+    },
+    table: (state, node) => {
+      if (isGfmTable(node)) {
+        writeGfmTable(state, node, serializer);
+      } else {
+        writeHtmlBlock(state, node);
+      }
+    },
+  };
+
+  const nodes: Record<string, NodeSerializer> = {};
+  Object.values(schema.nodes).forEach((type) => {
+    const name = type.name;
+    const nodeSerializer = known[name];
+    if (!nodeSerializer) {
+      // Custom nodes (divBlock, columns, ...) have no Markdown form: embed their HTML
+      nodes[name] = type.isInline ? writeHtmlInline : writeHtmlBlock;
+      return;
+    }
+    const allowed = MARKDOWN_ATTRS[name];
+    nodes[name] = allowed
+      ? (state, node, parent, index) => {
+          if (hasNonMarkdownAttrs(node, allowed)) {
+            writeHtmlBlock(state, node);
+          } else {
+            nodeSerializer(state, node, parent, index);
+          }
+        }
+      : nodeSerializer;
+  });
+
+  const knownMarks: Record<string, MarkSerializer> = {
+    bold: defaultMarks.strong,
+    italic: defaultMarks.em,
+    code: defaultMarks.code,
+    strike: { open: '~~', close: '~~', mixable: true, expelEnclosingWhitespace: true },
+    link: {
+      // Links that open in a new tab keep target/rel as an inline <a>
+      open: (state, mark, parent, index) =>
+        mark.attrs.target ? markToHTML(mark)[0] : (defaultMarks.link.open as MarkOpenClose)(state, mark, parent, index),
+      close: (state, mark, parent, index) =>
+        mark.attrs.target ? markToHTML(mark)[1] : (defaultMarks.link.close as MarkOpenClose)(state, mark, parent, index),
+      mixable: true,
+    },
+  };
+
+  const marks: Record<string, MarkSerializer> = {};
+  Object.values(schema.marks).forEach((type) => {
+    marks[type.name] = knownMarks[type.name] ?? {
+      // textStyle (color), textSize and other styling marks become inline <span>s
+      open: (_state, mark) => markToHTML(mark)[0],
+      close: (_state, mark) => markToHTML(mark)[1],
+      mixable: true,
+      escape: true,
+    };
+  });
+
+  serializer = new MarkdownSerializer(nodes, marks, { hardBreakNodeName: 'hardBreak' });
+  return serializer;
+}
+
+type MarkOpenClose = (state: MarkdownSerializerState, mark: Mark, parent: ProseMirrorNode, index: number) => string;
+
+/** True when a node carries attributes (BlockStyle, textAlign, ...) that Markdown can't represent. */
+function hasNonMarkdownAttrs(node: ProseMirrorNode, allowed: string[]): boolean {
+  const specAttrs = node.type.spec.attrs ?? {};
+  return Object.entries(node.attrs).some(([key, value]) => {
+    if (allowed.includes(key)) return false;
+    if (value === null || value === undefined || value === '') return false;
+    return value !== specAttrs[key]?.default;
+  });
+}
+
+/** GFM tables need a header row, no merged cells and a single plain paragraph per cell. */
+function isGfmTable(table: ProseMirrorNode): boolean {
+  if (table.childCount === 0 || hasNonMarkdownAttrs(table, [])) return false;
+  let valid = true;
+  table.forEach((row, _offset, rowIndex) => {
+    row.forEach((cell) => {
+      const expectedType = rowIndex === 0 ? 'tableHeader' : 'tableCell';
+      if (cell.type.name !== expectedType) valid = false;
+      if ((cell.attrs.colspan ?? 1) !== 1 || (cell.attrs.rowspan ?? 1) !== 1) valid = false;
+      if (cell.attrs.colwidth) valid = false;
+      if (hasNonMarkdownAttrs(cell, ['colspan', 'rowspan', 'colwidth'])) valid = false;
+      if (cell.childCount !== 1 || cell.firstChild?.type.name !== 'paragraph') valid = false;
+      if (cell.firstChild && hasNonMarkdownAttrs(cell.firstChild, [])) valid = false;
+      cell.descendants((child) => {
+        if (child.type.name === 'hardBreak') valid = false;
+      });
+    });
+  });
+  return valid;
+}
+
+function writeGfmTable(state: MarkdownSerializerState, table: ProseMirrorNode, serializer: MarkdownSerializer): void {
+  const columnCount = table.firstChild?.childCount ?? 0;
+  table.forEach((row, _offset, rowIndex) => {
+    const cells: string[] = [];
+    row.forEach((cell) => {
+      cells.push(renderInlineToString(serializer, cell.firstChild!).replace(/\|/g, '\\|'));
+    });
+    state.write(`| ${cells.join(' | ')} |`);
+    state.ensureNewLine();
+    if (rowIndex === 0) {
+      state.write(`|${Array.from({ length: columnCount }, () => ' --- ').join('|')}|`);
+      state.ensureNewLine();
+    }
+  });
+  state.closeBlock(table);
+}
+
+/** Render a paragraph's inline content on its own, without touching the main output. */
+function renderInlineToString(serializer: MarkdownSerializer, paragraph: ProseMirrorNode): string {
+  const doc = paragraph.type.schema.topNodeType.create(null, paragraph);
+  return serializer.serialize(doc).trim().replace(/\n/g, ' ');
+}
+
+function writeHtmlBlock(state: MarkdownSerializerState, node: ProseMirrorNode): void {
+  state.write(nodeToHTML(node));
+  state.closeBlock(node);
+}
+
+function writeHtmlInline(state: MarkdownSerializerState, node: ProseMirrorNode): void {
+  state.write(nodeToHTML(node));
+}
+
+/**
+ * Serialize one node to single-line HTML. Newlines are written as entities so markdown-it keeps the
+ * whole fragment in one HTML block (blank lines would otherwise end it), e.g. for code inside a div block.
+ */
+function nodeToHTML(node: ProseMirrorNode): string {
+  const dom = DOMSerializer.fromSchema(node.type.schema).serializeNode(node);
+  const wrapper = document.createElement('div');
+  wrapper.appendChild(dom);
+  return wrapper.innerHTML
+    .replace(/\s+contenteditable="false"/gi, '')
+    .replace(/\n/g, '&#10;');
+}
+
+/** Opening and closing HTML for a mark, e.g. ['<span style="color: #f00">', '</span>']; empty for bare wrappers. */
+function markToHTML(mark: Mark): [string, string] {
+  const toDOM = mark.type.spec.toDOM;
+  if (!toDOM) return ['', ''];
+  const { dom, contentDOM } = DOMSerializer.renderSpec(document, toDOM(mark, true));
+  if (!contentDOM) return ['', ''];
+  contentDOM.appendChild(document.createTextNode(MARK_CONTENT_SENTINEL));
+  const html = (dom as HTMLElement).outerHTML;
+  const index = html.indexOf(MARK_CONTENT_SENTINEL);
+  const open = html.slice(0, index);
+  if (/^<span>$/i.test(open)) return ['', ''];
+  return [open, html.slice(index + MARK_CONTENT_SENTINEL.length)];
+}
+
+/**
+ * markdown-it has no task list syntax: turn lists whose items all start with [ ] / [x]
+ * into the ul[data-type="taskList"] markup the TaskList/TaskItem extensions parse.
+ */
+function transformTaskLists(container: HTMLElement): void {
+  container.querySelectorAll('ul').forEach((ul) => {
+    const items = Array.from(ul.children).filter((child) => child.tagName === 'LI') as HTMLElement[];
+    if (!items.length) return;
+    const markers = items.map((li) => firstTextNode(li));
+    if (!markers.every((textNode) => textNode && TASK_MARKER_REGEX.test(textNode.data))) return;
+
+    ul.setAttribute('data-type', 'taskList');
+    items.forEach((li, i) => {
+      const textNode = markers[i]!;
+      const match = textNode.data.match(TASK_MARKER_REGEX);
+      li.setAttribute('data-type', 'taskItem');
+      li.setAttribute('data-checked', String(match?.[1].toLowerCase() === 'x'));
+      textNode.data = textNode.data.replace(TASK_MARKER_REGEX, '');
+    });
+  });
+}
+
+/**
+ * markdown-it puts images inside paragraphs; the editor's images are blocks, so a paragraph with
+ * nothing but images would leave an empty paragraph in front of them. Replace it with the images.
+ */
+function unwrapImageParagraphs(container: HTMLElement): void {
+  container.querySelectorAll('p').forEach((p) => {
+    const children = Array.from(p.childNodes);
+    const onlyImages = children.some((child) => child.nodeName === 'IMG') && children.every((child) =>
+      child.nodeName === 'IMG' || (child.nodeType === Node.TEXT_NODE && !child.textContent?.trim()));
+    if (onlyImages) p.replaceWith(...children.filter((child) => child.nodeName === 'IMG'));
+  });
+}
+
+function firstTextNode(element: HTMLElement): Text | null {
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode() as Text | null;
+  while (node && !node.data.trim()) {
+    node = walker.nextNode() as Text | null;
+  }
+  return node;
+}
@@ -0,0 +1,34 @@
+/**
+ * Users offered by the "@" mention menu.
+ * Bubble doesn't send a thing's fields to plugins, so the list comes in as parallel text lists
+ * ("Mention user ids", "Mention user names", "Mention user avatars"), matched by position.
+ */
+
+import { toAlignedStringArray } from './colorOptions';
+
+export interface MentionUser {
+  id: string;
+  /** Display name (shown in the menu and in the chip) */
+  name: string;
+  /** Avatar image URL */
+  avatar?: string;
+}
+
+/**
+ * Build the mention users from the id / name / avatar lists (same order).
+ * Users without an id are skipped; a missing name falls back to the id.
+ */
+export function buildMentionUsers(idsRaw: unknown, namesRaw: unknown, avatarsRaw?: unknown): MentionUser[] {
+  const ids = toAlignedStringArray(idsRaw);
+  const names = toAlignedStringArray(namesRaw);
+  const avatars = toAlignedStringArray(avatarsRaw);
+  const seen = new Set<string>();
+  const users: MentionUser[] = [];
+  ids.forEach((id, i) => {
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    const avatar = avatars[i];
+    users.push({ id, name: names[i] || id, ...(avatar ? { avatar } : {}) });
+  });
+  return users;
+}
@@ -0,0 +1,57 @@
+/**
+ * Merge fields (template variables)
+ *
+ * Merge field nodes are stored as <span data-type="merge-field" data-name="first_name" data-fallback="there">{{first_name}}</span>.
+ * Rendering replaces each one with its value from the merge data, or its fallback when the value is
+ * missing or empty. Values are inserted as text, never as HTML.
+ */
+
+import { toAlignedStringArray } from './colorOptions';
+
+/** Field name → value */
+export type MergeData = Record<string, string>;
+
+const MERGE_FIELD_SELECTOR = 'span[data-type="merge-field"]';
+
+/** Value for one field: the data value, else the fallback, else empty */
+export function resolveMergeField(name: string, fallback: string | null | undefined, data: MergeData): string {
+  const value = data[name];
+  if (value !== undefined && value !== null && String(value) !== '') return String(value);
+  return fallback ?? '';
+}
+
+/**
+ * Replace the merge field elements under container with plain text.
+ * With data the values are filled in; without it each field becomes its "{{name}}" tag (for email tools that do their own merge).
+ */
+export function replaceMergeFieldElements(container: ParentNode, data: MergeData | null): void {
+  container.querySelectorAll(MERGE_FIELD_SELECTOR).forEach((el) => {
+    const name = el.getAttribute('data-name') ?? '';
+    const text = data
+      ? resolveMergeField(name, el.getAttribute('data-fallback'), data)
+      : `{{${name}}}`;
+    el.replaceWith(el.ownerDocument.createTextNode(text));
+  });
+}
+
+/**
+ * Fill the merge fields of editor HTML with data
+ */
+export function fillMergeFields(html: string, data: MergeData): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  replaceMergeFieldElements(doc.body, data);
+  return doc.body.innerHTML;
+}
+
+/**
+ * Build merge data from two lists matched by position ("Field names" + "Field values"), e.g. from a Bubble action.
+ */
+export function buildMergeData(namesRaw: unknown, valuesRaw: unknown): MergeData {
+  const names = toAlignedStringArray(namesRaw);
+  const values = toAlignedStringArray(valuesRaw);
+  const data: MergeData = {};
+  names.forEach((name, i) => {
+    if (name) data[name] = values[i] ?? '';
+  });
+  return data;
+}
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { JSONContent } from '@tiptap/core';
+import { describe, expect, it } from 'vitest';
+import { createTestEditor } from '../test/createTestEditor';
+
+/** Paste clipboard HTML saved from the application into an empty editor */
+function paste(fixture: string): JSONContent {
+  const html = readFileSync(resolve(dirname(fileURLToPath(import.meta.url)), '../test/fixtures', fixture), 'utf8');
+  const ed = createTestEditor();
+  ed.getTipTapEditor().view.pasteHTML(html, new Event('paste') as ClipboardEvent);
+  return outline(ed.getJSON());
+}
+
+/** Node types, text and marks, with only the attributes these tests look at */
+function outline({ type, attrs, marks, text, content }: JSONContent): JSONContent {
+  return {
+    type,
+    ...(attrs?.level && { attrs: { level: attrs.level } }),
+    ...(marks && { marks: marks.map((mark) => (mark.attrs?.color ? { type: mark.type, attrs: { color: mark.attrs.color } } : { type: mark.type })) }),
+    ...(text !== undefined && { text }),
+    ...(content && { content: content.map(outline) }),
+  };
+}
+
+function paragraph(...content: JSONContent[]): JSONContent {
+  return content.length ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function item(text: string, ...nested: JSONContent[]): JSONContent {
+  return { type: 'listItem', content: [paragraph({ type: 'text', text }), ...nested] };
+}
+
+describe('Pasting from Word', () => {
+  it('turns list paragraphs into nested lists and keeps the formatting', () => {
+    expect(paste('word-paste.html')).toEqual({
+      type: 'doc',
+      content: [
+        paragraph({ type: 'text', marks: [{ type: 'bold' }], text: 'Quarterly update' }),
+        paragraph(
+          { type: 'text', marks: [{ type: 'textStyle', attrs: { color: 'rgb(192, 0, 0)' } }], text: 'Read this first' },
+          { type: 'text', text: ' and ' },
+          { type: 'text', marks: [{ type: 'italic' }], text: 'reply' },
+          { type: 'text', text: '.' }
+        ),
+        {
+          type: 'orderedList',
+          content: [item('Plan', { type: 'orderedList', content: [item('Budget')] }), item('Ship')],
+        },
+        paragraph(),
+        { type: 'bulletList', content: [item('Notes')] },
+      ],
+    });
+  });
+});
+
+describe('Pasting from Google Docs', () => {
+  it('drops the document wrapper and turns styled spans into marks', () => {
+    expect(paste('google-docs-paste.html')).toEqual({
+      type: 'doc',
+      content: [
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Launch notes' }] },
+        paragraph(
+          { type: 'text', marks: [{ type: 'bold' }], text: 'Bold' },
+          { type: 'text', text: ' and ' },
+          {
+            type: 'text',
+            marks: [{ type: 'textStyle', attrs: { color: 'rgb(17, 85, 204)' } }, { type: 'italic' }, { type: 'strike' }],
+            text: 'struck',
+          }
+        ),
+        { type: 'bulletList', content: [item('First')] },
+      ],
+    });
+  });
+});
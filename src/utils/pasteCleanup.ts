@@ -0,0 +1,393 @@
+/**
+ * Paste cleanup for Microsoft Word and Google Docs
+ *
+ * Both put their own markup on the clipboard (mso-* styles, <o:p>, conditional comments, nested
+ * spans, the Google Docs <b id="docs-internal-guid-..."> wrapper). Left as is, the schema drops or
+ * mangles most of it. cleanPastedHTML rewrites that HTML into what the editor's own extensions parse:
+ * - Font sizes snap to the nearest TextSize (body-sized text gets none)
+ * - Text colors become hex for the Color mark, snapped to the palette when close; default black goes
+ * - Bold / italic / strikethrough spans become strong / em / s
+ * - Block backgrounds, borders and padding become px longhands for BlockStyle
+ * - Word's list paragraphs (mso-list) become real, nested ul / ol
+ * - Table cell widths become colwidth attributes
+ * - Classes, ids, comments, Office-namespaced tags and every other style are removed
+ * HTML from anywhere else is returned unchanged. The result still goes through sanitizeHtml.
+ */
+
+import { normalizeColorToHex } from './colorOptions';
+import { DEFAULT_TEXT_SIZES } from '../editor/TextSize';
+
+/** What pasting rich content does: clean Word / Google Docs HTML, paste plain text, or keep the HTML */
+export type PasteMode = 'clean' | 'plain' | 'keep';
+
+export type PasteSource = 'word' | 'google-docs' | 'other';
+
+export interface PasteCleanupOptions {
+  /** Hex colors that pasted text colors snap to when close */
+  palette?: string[];
+  /** TextSize names and CSS sizes; defaults to the TextSize extension's sizes */
+  sizes?: Record<string, string>;
+  /** Size name used for body text; text of that size gets no TextSize */
+  baseSize?: string;
+}
+
+/** Largest RGB distance (0-441) at which a pasted color is replaced by a palette color */
+const PALETTE_SNAP_DISTANCE = 48;
+
+const BLOCK_TAGS = ['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'DIV', 'BLOCKQUOTE', 'LI'];
+const CELL_TAGS = ['TD', 'TH'];
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/** Office-namespaced elements without user content (others, such as smart tags, are unwrapped) */
+const REMOVED_NAMESPACES = ['o:', 'v:', 'w:', 'm:'];
+const REMOVED_ELEMENTS = ['style', 'meta', 'link', 'title', 'xml', 'script'];
+
+/** Attributes kept on cleaned elements; style is rebuilt and width is turned into colwidth */
+const KEPT_ATTRIBUTES = ['href', 'src', 'alt', 'title', 'colspan', 'rowspan', 'start', 'colwidth'];
+
+const ORDERED_MARKER_REGEX = /^[0-9a-zA-Z]{1,4}[.)]$/;
+const WORD_LIST_REGEX = /mso-list\s*:\s*l(\d+)\s+level(\d+)/i;
+const WORD_LIST_IGNORE_REGEX = /mso-list\s*:\s*ignore/i;
+const BORDER_WIDTH_KEYWORDS: Record<string, string> = { thin: '1px', medium: '3px', thick: '5px' };
+const DEFAULT_TEXT_COLORS = ['#000000', 'windowtext', 'auto', 'inherit', 'initial', 'currentcolor'];
+
+/**
+ * Which editor produced the clipboard HTML
+ */
+export function detectPasteSource(html: string): PasteSource {
+  if (/id="?docs-internal-guid-/i.test(html)) return 'google-docs';
+  if (/urn:schemas-microsoft-com:office|class="?Mso|mso-[a-z-]+\s*:/i.test(html)) return 'word';
+  return 'other';
+}
+
+/**
+ * Normalize Word / Google Docs HTML for the editor's schema (other HTML is returned as is)
+ */
+export function cleanPastedHTML(html: string, options: PasteCleanupOptions = {}): string {
+  if (!html) return html;
+  const source = detectPasteSource(html);
+  if (source === 'other') return html;
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const body = doc.body;
+
+  removeJunk(body);
+  if (source === 'word') convertWordLists(body);
+  removeComments(body);
+  body.querySelectorAll('b[id^="docs-internal-guid"]').forEach((el) => unwrap(el));
+  body.querySelectorAll('a:not([href])').forEach((el) => unwrap(el));
+  body.querySelectorAll('font').forEach((font) => {
+    const span = doc.createElement('span');
+    const color = font.getAttribute('color');
+    const style = font.getAttribute('style') || '';
+    span.setAttribute('style', color ? `color: ${color}; ${style}` : style);
+    span.append(...Array.from(font.childNodes));
+    font.replaceWith(span);
+  });
+
+  convertTableWidths(body);
+  body.querySelectorAll('*').forEach((el) => cleanElement(el as HTMLElement, options));
+  body.querySelectorAll('span').forEach((span) => {
+    if (span.attributes.length === 0) unwrap(span);
+  });
+
+  return body.innerHTML;
+}
+
+function unwrap(el: Element): void {
+  el.replaceWith(...Array.from(el.childNodes));
+}
+
+function removeJunk(body: HTMLElement): void {
+  body.querySelectorAll(REMOVED_ELEMENTS.join(',')).forEach((el) => el.remove());
+  // Namespaced tags can't be selected by name
+  Array.from(body.querySelectorAll('*')).forEach((el) => {
+    const tag = el.tagName.toLowerCase();
+    if (!tag.includes(':')) return;
+    if (REMOVED_NAMESPACES.some((ns) => tag.startsWith(ns))) el.remove();
+    else unwrap(el);
+  });
+}
+
+function removeComments(root: Node): void {
+  const doc = root.ownerDocument ?? (root as Document);
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach((c) => c.parentNode?.removeChild(c));
+}
+
+/** Parse a style attribute as written, including properties the browser drops (mso-*) */
+function parseDeclarations(style: string): Map<string, string> {
+  const map = new Map<string, string>();
+  style.split(';').forEach((part) => {
+    const colon = part.indexOf(':');
+    if (colon < 0) return;
+    const property = part.slice(0, colon).trim().toLowerCase();
+    const value = part.slice(colon + 1).trim();
+    if (property && value) map.set(property, value);
+  });
+  return map;
+}
+
+/** CSS length in px (pt, in, cm, mm, pc and px), or null */
+function toPx(value: string): number | null {
+  const m = value.trim().match(/^(-?\d*\.?\d+)(px|pt|in|cm|mm|pc)?$/i);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  const unit = (m[2] || 'px').toLowerCase();
+  const factor: Record<string, number> = { px: 1, pt: 4 / 3, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pc: 16 };
+  return n * factor[unit];
+}
+
+/** Replace pt / in / cm lengths inside a CSS value with px */
+function lengthsToPx(value: string): string {
+  return value.replace(/(-?\d*\.?\d+)(pt|in|cm|mm|pc)\b/gi, (match) => `${Math.round((toPx(match) ?? 0) * 100) / 100}px`);
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const m = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!m) return null;
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Hex for a pasted color, snapped to the closest palette color when near enough */
+function normalizeColor(value: string, palette: string[]): string {
+  const hex = normalizeColorToHex(value.replace(/!important/i, '').trim()).toLowerCase();
+  const rgb = hexToRgb(hex);
+  if (!rgb) return hex;
+  let best = '';
+  let bestDistance = PALETTE_SNAP_DISTANCE;
+  palette.forEach((option) => {
+    const candidate = hexToRgb(normalizeColorToHex(option).toLowerCase());
+    if (!candidate) return;
+    const distance = Math.hypot(rgb[0] - candidate[0], rgb[1] - candidate[1], rgb[2] - candidate[2]);
+    if (distance <= bestDistance) {
+      best = option;
+      bestDistance = distance;
+    }
+  });
+  return best || hex;
+}
+
+/** CSS size of the closest named TextSize, or null for body-sized text */
+function snapFontSize(value: string, options: PasteCleanupOptions): string | null {
+  const px = toPx(value);
+  if (px === null || px <= 0) return null;
+  const sizes = options.sizes ?? DEFAULT_TEXT_SIZES;
+  let bestName = '';
+  let bestDistance = Infinity;
+  Object.entries(sizes).forEach(([name, size]) => {
+    const sizePx = toPx(size);
+    if (sizePx === null) return;
+    const distance = Math.abs(sizePx - px);
+    if (distance < bestDistance) {
+      bestName = name;
+      bestDistance = distance;
+    }
+  });
+  if (!bestName || bestName === (options.baseSize ?? 'medium')) return null;
+  return sizes[bestName];
+}
+
+/**
+ * Word writes lists as paragraphs with `mso-list: l<list> level<n>` and a typed marker
+ * ("1.", "a)", "·") inside a `mso-list: Ignore` span or a `[if !supportLists]` comment.
+ */
+function convertWordLists(body: HTMLElement): void {
+  const isListParagraph = (el: Element | null): el is HTMLElement =>
+    !!el && WORD_LIST_REGEX.test(el.getAttribute('style') || '');
+
+  Array.from(body.querySelectorAll('[style*="mso-list"]')).forEach((first) => {
+    // Already moved into a list as part of an earlier run
+    if (!first.isConnected || !isListParagraph(first) || isListParagraph(first.previousElementSibling)) return;
+    const run: HTMLElement[] = [];
+    let el: Element | null = first;
+    while (isListParagraph(el)) {
+      run.push(el);
+      el = el.nextElementSibling;
+    }
+
+    const doc = first.ownerDocument;
+    const stack: { list: HTMLElement; level: number }[] = [];
+    run.forEach((p) => {
+      const match = WORD_LIST_REGEX.exec(p.getAttribute('style') || '');
+      const level = match ? parseInt(match[2], 10) : 1;
+      const ordered = ORDERED_MARKER_REGEX.test(takeWordListMarker(p));
+
+      while (stack.length && stack[stack.length - 1].level > level) stack.pop();
+      if (!stack.length || stack[stack.length - 1].level < level) {
+        const list = doc.createElement(ordered ? 'ol' : 'ul');
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          let item = parent.list.lastElementChild;
+          if (!item) {
+            item = doc.createElement('li');
+            parent.list.appendChild(item);
+          }
+          item.appendChild(list);
+        } else {
+          p.before(list);
+        }
+        stack.push({ list, level });
+      }
+
+      const item = doc.createElement('li');
+      const paragraph = doc.createElement('p');
+      paragraph.append(...Array.from(p.childNodes));
+      item.appendChild(paragraph);
+      stack[stack.length - 1].list.appendChild(item);
+      p.remove();
+    });
+  });
+}
+
+/** Remove the typed list marker from a Word list paragraph and return its text */
+function takeWordListMarker(p: HTMLElement): string {
+  const ignored = Array.from(p.querySelectorAll('span')).find((span) =>
+    WORD_LIST_IGNORE_REGEX.test(span.getAttribute('style') || '')
+  );
+  if (ignored) {
+    const text = ignored.textContent || '';
+    ignored.remove();
+    return text.replace(/\s+/g, '');
+  }
+
+  // Without the span, the marker sits between <!--[if !supportLists]--> and <!--[endif]-->
+  const doc = p.ownerDocument;
+  const walker = doc.createTreeWalker(p, NodeFilter.SHOW_COMMENT);
+  while (walker.nextNode()) {
+    const start = walker.currentNode;
+    if (!/\[if !supportLists\]/i.test(start.nodeValue || '')) continue;
+    let text = '';
+    let node = start.nextSibling;
+    while (node && !(node.nodeType === Node.COMMENT_NODE && /\[endif\]/i.test(node.nodeValue || ''))) {
+      const next: ChildNode | null = node.nextSibling;
+      text += node.textContent || '';
+      node.remove();
+      node = next;
+    }
+    return text.replace(/\s+/g, '');
+  }
+  return '';
+}
+
+/** Cell widths (width attribute, style width or the table's <col> widths) become colwidth */
+function convertTableWidths(body: HTMLElement): void {
+  body.querySelectorAll('table').forEach((table) => {
+    const cols = Array.from(table.querySelectorAll('col')).map((col) => {
+      const width = parseDeclarations(col.getAttribute('style') || '').get('width') ?? col.getAttribute('width') ?? '';
+      return toPx(width);
+    });
+    table.querySelectorAll('tr').forEach((row) => {
+      let index = 0;
+      Array.from(row.children).forEach((cell) => {
+        if (!CELL_TAGS.includes(cell.tagName)) return;
+        const span = Math.max(1, parseInt(cell.getAttribute('colspan') || '1', 10) || 1);
+        const styleWidth = parseDeclarations(cell.getAttribute('style') || '').get('width');
+        const cellWidth = toPx(styleWidth ?? cell.getAttribute('width') ?? '');
+        let widths: (number | null)[];
+        if (cellWidth !== null && cellWidth > 0) {
+          widths = Array.from({ length: span }, () => cellWidth / span);
+        } else {
+          widths = cols.slice(index, index + span);
+        }
+        if (widths.length === span && widths.every((w) => w !== null && w > 0)) {
+          cell.setAttribute('colwidth', widths.map((w) => Math.round(w as number)).join(','));
+        }
+        index += span;
+      });
+    });
+    table.querySelectorAll('colgroup, col').forEach((el) => el.remove());
+  });
+}
+
+/** Keep only what the editor's marks and BlockStyle parse; bold / italic / strike spans get wrapped */
+function cleanElement(el: HTMLElement, options: PasteCleanupOptions): void {
+  const decls = parseDeclarations(el.getAttribute('style') || '');
+  const align = (decls.get('text-align') ?? el.getAttribute('align') ?? '').toLowerCase();
+
+  Array.from(el.attributes).forEach((attr) => {
+    if (!KEPT_ATTRIBUTES.includes(attr.name.toLowerCase())) el.removeAttribute(attr.name);
+  });
+
+  const kept: string[] = [];
+  if (BLOCK_TAGS.includes(el.tagName) || CELL_TAGS.includes(el.tagName)) {
+    if (['center', 'right', 'justify'].includes(align)) kept.push(`text-align: ${align}`);
+    kept.push(...blockStyleDeclarations(el, decls, options));
+  } else if (el.tagName === 'SPAN') {
+    kept.push(...textStyleDeclarations(el, decls, options));
+    wrapTextFormatting(el, decls);
+  }
+  if (kept.length) el.setAttribute('style', kept.join('; '));
+}
+
+function textStyleDeclarations(el: HTMLElement, decls: Map<string, string>, options: PasteCleanupOptions): string[] {
+  const kept: string[] = [];
+  const color = decls.get('color');
+  if (color && !DEFAULT_TEXT_COLORS.includes(normalizeColorToHex(color).toLowerCase())) {
+    kept.push(`color: ${normalizeColor(color, options.palette ?? [])}`);
+  }
+  // Headings have their own size
+  const fontSize = decls.get('font-size');
+  const size = fontSize && !el.closest(HEADING_SELECTOR) ? snapFontSize(fontSize, options) : null;
+  if (size) kept.push(`font-size: ${size}`);
+  return kept;
+}
+
+function wrapTextFormatting(el: HTMLElement, decls: Map<string, string>): void {
+  const weight = (decls.get('font-weight') || '').toLowerCase();
+  const tags: string[] = [];
+  if (weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600) tags.push('strong');
+  if ((decls.get('font-style') || '').toLowerCase() === 'italic') tags.push('em');
+  const decoration = `${decls.get('text-decoration') || ''} ${decls.get('text-decoration-line') || ''}`;
+  if (/line-through/i.test(decoration)) tags.push('s');
+
+  tags.forEach((tag) => {
+    const wrapper = el.ownerDocument.createElement(tag);
+    wrapper.append(...Array.from(el.childNodes));
+    el.appendChild(wrapper);
+  });
+}
+
+function blockStyleDeclarations(el: HTMLElement, decls: Map<string, string>, options: PasteCleanupOptions): string[] {
+  const kept: string[] = [];
+  const palette = options.palette ?? [];
+
+  const background = decls.get('background-color') ?? decls.get('background');
+  if (background) {
+    const hex = normalizeColorToHex(background.replace(/!important/i, '').trim()).toLowerCase();
+    if (hexToRgb(hex)) kept.push(`background-color: ${normalizeColor(hex, palette)}`);
+  }
+
+  // Let the browser expand border / padding shorthands; windowtext isn't a CSS color
+  const scratch = el.ownerDocument.createElement('div');
+  decls.forEach((value, property) => {
+    if (property.startsWith('border') || property.startsWith('padding')) {
+      scratch.style.setProperty(property, lengthsToPx(value.replace(/windowtext/gi, '#000000')));
+    }
+  });
+
+  let hasBorder = false;
+  (['top', 'right', 'bottom', 'left'] as const).forEach((side) => {
+    const style = scratch.style.getPropertyValue(`border-${side}-style`);
+    const rawWidth = scratch.style.getPropertyValue(`border-${side}-width`);
+    const width = toPx(BORDER_WIDTH_KEYWORDS[rawWidth] ?? (rawWidth || '1px'));
+    if (!style || style === 'none' || style === 'hidden' || !width || width <= 0) return;
+    hasBorder = true;
+    const color = scratch.style.getPropertyValue(`border-${side}-color`);
+    kept.push(`border-${side}-width: ${Math.max(1, Math.round(width))}px`);
+    kept.push(`border-${side}-style: solid`);
+    if (color) kept.push(`border-${side}-color: ${normalizeColor(color, palette)}`);
+  });
+
+  // Google Docs pads every paragraph; padding only matters on a boxed block
+  if (hasBorder || kept.length) {
+    (['top', 'right', 'bottom', 'left'] as const).forEach((side) => {
+      const padding = toPx(scratch.style.getPropertyValue(`padding-${side}`));
+      if (padding && padding > 0) kept.push(`padding-${side}: ${Math.round(padding)}px`);
+    });
+  }
+  return kept;
+}
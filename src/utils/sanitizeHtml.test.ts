@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { isAllowedUrl, sanitizeHtml } from './sanitizeHtml';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const SVG = 'data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9ImFsZXJ0KDEpIi8+';
+
+describe('sanitizeHtml', () => {
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    ' java\nscript:alert(1)',
+    'java&#x09;script:alert(1)',
+    'vbscript:msgbox(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+  ])('drops the link href %j', (href) => {
+    const html = sanitizeHtml(`<a href="${href}">Link</a>`, { policy: 'relaxed' });
+    expect(html).toBe('<a>Link</a>');
+  });
+
+  it('keeps allowed and relative link hrefs', () => {
+    expect(sanitizeHtml('<a href="https://x.com/a">A</a><a href="/b">B</a><a href="#c">C</a>')).toBe(
+      '<a href="https://x.com/a">A</a><a href="/b">B</a><a href="#c">C</a>'
+    );
+  });
+
+  it('removes event handler attributes', () => {
+    const html = sanitizeHtml('<p onclick="alert(1)" ONMOUSEOVER="alert(2)">Text<img src="https://x.com/a.png" onerror="alert(3)"></p>');
+    expect(html).toBe('<p>Text<img src="https://x.com/a.png"></p>');
+  });
+
+  it('removes srcdoc and the elements that embed documents', () => {
+    const html = sanitizeHtml('<p srcdoc="<script>alert(1)</script>">Text</p><iframe srcdoc="<script>alert(2)</script>"></iframe><object data="x.swf"></object>');
+    expect(html).toBe('<p>Text</p>');
+  });
+
+  it('removes SVG data images and inline SVG even when data images are allowed', () => {
+    const html = sanitizeHtml(`<img src="${SVG}"><svg onload="alert(1)"></svg><img src="${PNG}">`, { policy: 'relaxed' });
+    expect(html).toBe(`<img src="${PNG}">`);
+  });
+
+  it('removes data images under the strict policy', () => {
+    expect(sanitizeHtml(`<p>Text</p><img src="${PNG}">`)).toBe('<p>Text</p>');
+  });
+});
+
+describe('isAllowedUrl', () => {
+  it('follows the protocol allowlist', () => {
+    expect(isAllowedUrl('ftp://x.com/a')).toBe(false);
+    expect(isAllowedUrl('ftp://x.com/a', { policy: 'relaxed' })).toBe(true);
+    expect(isAllowedUrl('https://x.com/a', { allowedProtocols: ['mailto'] })).toBe(false);
+  });
+
+  it('allows data and blob URLs only for images', () => {
+    expect(isAllowedUrl(PNG, { allowDataImages: true })).toBe(false);
+    expect(isAllowedUrl(PNG, { allowDataImages: true }, true)).toBe(true);
+    expect(isAllowedUrl(SVG, { allowDataImages: true }, true)).toBe(false);
+    expect(isAllowedUrl('blob:https://x.com/1234', {}, true)).toBe(true);
+    expect(isAllowedUrl('blob:https://x.com/1234')).toBe(false);
+  });
+});
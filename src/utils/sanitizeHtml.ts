@@ -0,0 +1,177 @@
+/**
+ * HTML Sanitizer
+ *
+ * Cleans HTML coming into the editor (initial content, set content, Markdown, pastes) and
+ * going out to Bubble, since the stored HTML is rendered elsewhere in the app:
+ * - Removes scriptable / embedding elements (script, iframe, object, form controls, svg, ...)
+ * - Removes event handler attributes (onclick, onerror, ...) and other URL-bearing attributes
+ * - Link hrefs and image sources must use an allowed protocol (relative URLs are fine)
+ * - data: images are allowed only by the relaxed policy, and never as SVG; blob: only for images
+ * - Inline styles keep only the properties the editor itself produces (plus a few more when relaxed)
+ */
+
+export type SanitizePolicy = 'strict' | 'relaxed';
+
+export interface SanitizeOptions {
+  policy?: SanitizePolicy;
+  /** Override the policy's protocol allowlist for link hrefs and image sources */
+  allowedProtocols?: string[];
+  /** Override the policy's handling of data: image sources */
+  allowDataImages?: boolean;
+}
+
+interface PolicyRules {
+  protocols: string[];
+  allowDataImages: boolean;
+  /** Exact style property names */
+  styleProperties: string[];
+  /** Style property prefixes (longhands such as border-top-left-radius) */
+  stylePrefixes: string[];
+}
+
+/** Style properties the editor writes: BlockStyle, text color/size, alignment, column and table widths. */
+const EDITOR_STYLE_PROPERTIES = [
+  'color',
+  'background-color',
+  'font-size',
+  'text-align',
+  'width',
+  'min-width',
+  'max-width',
+  'height',
+  '--column-width',
+];
+
+const EDITOR_STYLE_PREFIXES = ['border-', 'padding-'];
+
+const POLICIES: Record<SanitizePolicy, PolicyRules> = {
+  strict: {
+    protocols: ['http', 'https', 'mailto', 'tel'],
+    allowDataImages: false,
+    styleProperties: EDITOR_STYLE_PROPERTIES,
+    stylePrefixes: EDITOR_STYLE_PREFIXES,
+  },
+  relaxed: {
+    protocols: ['http', 'https', 'mailto', 'tel', 'ftp', 'ftps', 'sms'],
+    allowDataImages: true,
+    styleProperties: [
+      ...EDITOR_STYLE_PROPERTIES,
+      'font-weight',
+      'font-style',
+      'font-family',
+      'line-height',
+      'letter-spacing',
+      'vertical-align',
+      'white-space',
+    ],
+    stylePrefixes: [...EDITOR_STYLE_PREFIXES, 'margin-', 'text-decoration'],
+  },
+};
+
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'link', 'meta', 'base', 'form', 'textarea', 'select', 'button', 'template',
+  'noscript', 'svg', 'math',
+];
+
+/** Attributes that load or navigate to a URL and that the editor never produces. */
+const REMOVED_ATTRIBUTES = ['srcset', 'srcdoc', 'action', 'formaction', 'ping', 'background', 'poster', 'xlink:href'];
+
+const DATA_IMAGE_REGEX = /^data:image\/(png|jpe?g|gif|webp|avif|bmp);base64,[a-z0-9+/=\s]+$/i;
+
+/** CSS values that can run script or load resources. */
+const UNSAFE_STYLE_VALUE_REGEX = /url\s*\(|expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+
+function resolveRules(options: SanitizeOptions): PolicyRules {
+  const rules = POLICIES[options.policy ?? 'strict'] ?? POLICIES.strict;
+  return {
+    ...rules,
+    protocols: options.allowedProtocols ?? rules.protocols,
+    allowDataImages: options.allowDataImages ?? rules.allowDataImages,
+  };
+}
+
+/**
+ * True when a URL may be used as a link href (or image src with `forImage`) under the given options.
+ * Relative URLs, anchors and protocol-relative URLs are allowed.
+ */
+export function isAllowedUrl(url: string, options: SanitizeOptions = {}, forImage = false): boolean {
+  const rules = resolveRules(options);
+  // Browsers ignore whitespace and control characters inside the scheme ("java\nscript:")
+  const compact = url.trim().replace(/[\u0000-\u0020\u007f]+/g, '');
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  if (!match) return true;
+
+  const protocol = match[1].toLowerCase();
+  if (protocol === 'data') {
+    return forImage && rules.allowDataImages && DATA_IMAGE_REGEX.test(url.trim());
+  }
+  // Object URLs only ever point at files from this page (local uploads before they are hosted)
+  if (protocol === 'blob') {
+    return forImage;
+  }
+  return rules.protocols.includes(protocol);
+}
+
+function sanitizeStyle(el: HTMLElement, rules: PolicyRules): void {
+  const style = el.style;
+  const kept: string[] = [];
+  for (let i = 0; i < style.length; i++) {
+    const property = style.item(i);
+    const value = style.getPropertyValue(property);
+    const allowed =
+      rules.styleProperties.includes(property) ||
+      rules.stylePrefixes.some((prefix) => property.startsWith(prefix));
+    if (allowed && value && !UNSAFE_STYLE_VALUE_REGEX.test(value)) {
+      kept.push(`${property}: ${value}`);
+    }
+  }
+  if (kept.length > 0) {
+    el.setAttribute('style', kept.join('; '));
+  } else {
+    el.removeAttribute('style');
+  }
+}
+
+function sanitizeElement(el: HTMLElement, rules: PolicyRules, options: SanitizeOptions): void {
+  Array.from(el.attributes).forEach((attr) => {
+    const name = attr.name.toLowerCase();
+    if (name.startsWith('on') || REMOVED_ATTRIBUTES.includes(name)) {
+      el.removeAttribute(attr.name);
+    }
+  });
+
+  const href = el.getAttribute('href');
+  if (href !== null && !isAllowedUrl(href, options)) {
+    el.removeAttribute('href');
+  }
+
+  if (el.hasAttribute('style')) {
+    sanitizeStyle(el, rules);
+  }
+}
+
+/**
+ * Sanitize an HTML string according to the policy
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  if (!html) return html;
+
+  const rules = resolveRules(options);
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const body = doc.body;
+
+  body.querySelectorAll(REMOVED_ELEMENTS.join(',')).forEach((el) => el.remove());
+  // Task items render a checkbox; every other input goes
+  body.querySelectorAll('input').forEach((input) => {
+    if (input.type !== 'checkbox') input.remove();
+  });
+  body.querySelectorAll('img').forEach((img) => {
+    const src = img.getAttribute('src');
+    if (!src || !isAllowedUrl(src, options, true)) img.remove();
+  });
+
+  body.querySelectorAll('*').forEach((el) => sanitizeElement(el as HTMLElement, rules, options));
+
+  return body.innerHTML;
+}
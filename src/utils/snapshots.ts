@@ -0,0 +1,35 @@
+/**
+ * Named revision snapshots
+ *
+ * A snapshot is a copy of the document JSON (in the versioned envelope used for stored JSON)
+ * with a name and a date. Snapshots are kept by the editor for the page session; store content_json
+ * (or the HTML) yourself for revisions that must outlive it.
+ */
+
+import type { DocumentEnvelope } from './documentFormat';
+
+export interface DocumentSnapshot {
+  id: string;
+  name: string;
+  /** ISO date */
+  createdAt: string;
+  doc: DocumentEnvelope;
+}
+
+export function createSnapshotId(): string {
+  return `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Snapshot by id, else the most recent one with that name
+ */
+export function findSnapshot(snapshots: DocumentSnapshot[], idOrName: string): DocumentSnapshot | null {
+  const key = idOrName.trim();
+  if (!key) return null;
+  const byId = snapshots.find((s) => s.id === key);
+  if (byId) return byId;
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (snapshots[i].name === key) return snapshots[i];
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Suggestion markup in stored HTML
+ *
+ * Suggesting mode stores pending changes in the content itself:
+ * - <ins data-suggestion-id="...">added</ins> and <del data-suggestion-id="...">removed</del>
+ * - <span data-format-suggestion-id="...">resized</span> and data-format-suggestion="{...}" on restyled blocks
+ *   (the new style is already applied; the attribute keeps the previous one)
+ * - data-block-suggestion='{"type":"insert" | "delete",...}' on inserted or deleted blocks (images, tables, ...)
+ */
+
+/**
+ * Show the content under container as if every suggestion was accepted, without suggestion markup
+ */
+export function applySuggestionElements(container: ParentNode): void {
+  container.querySelectorAll('del[data-suggestion-id]').forEach((el) => el.remove());
+  container.querySelectorAll('ins[data-suggestion-id], span[data-format-suggestion-id]').forEach((el) => {
+    el.replaceWith(...Array.from(el.childNodes));
+  });
+  container.querySelectorAll('[data-format-suggestion]').forEach((el) => el.removeAttribute('data-format-suggestion'));
+  container.querySelectorAll('[data-block-suggestion]').forEach((el) => {
+    if (!/"type"\s*:\s*"delete"/.test(el.getAttribute('data-block-suggestion') ?? '')) {
+      el.removeAttribute('data-block-suggestion');
+      return;
+    }
+    // An image's attribute is on the <img> inside its figure
+    (el.tagName === 'IMG' ? el.closest('figure[data-type="image"]') ?? el : el).remove();
+  });
+}
+
+/**
+ * Stored HTML as if every suggestion was accepted
+ */
+export function acceptSuggestions(html: string): string {
+  if (!html.includes('suggestion')) return html;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  applySuggestionElements(doc.body);
+  return doc.body.innerHTML;
+}